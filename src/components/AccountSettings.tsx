@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { updateEmail, updatePassword } from "@/services/authService";
+import { deleteAccount } from "@/services/profileService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { KeyRound, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export function AccountSettings() {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  if (!user) return null;
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = email.trim();
+    if (!next || next === user.email) return;
+
+    setIsSavingEmail(true);
+    const { error } = await updateEmail(next);
+    setIsSavingEmail(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    setEmail("");
+    toast({
+      title: "Confirm Your New Email",
+      description: `We sent a confirmation link to ${next}`,
+    });
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password Too Short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (password !== confirmation) {
+      toast({
+        title: "Passwords Don't Match",
+        description: "Please type the same password twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingPassword(true);
+    const { error } = await updatePassword(password);
+    setIsSavingPassword(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    setPassword("");
+    setConfirmation("");
+    toast({
+      title: "Password Updated",
+      description: "Use your new password the next time you sign in",
+    });
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const { error } = await deleteAccount();
+    setIsDeleting(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    await logout();
+    toast({
+      title: "Account Deleted",
+      description: "Your account and upcoming bookings have been removed",
+    });
+    navigate("/auth", { replace: true });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <KeyRound className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Account</h2>
+      </div>
+
+      {/* Email */}
+      <form onSubmit={handleEmailChange} className="space-y-2">
+        <Label
+          htmlFor="account-email"
+          className="text-xs text-muted-foreground"
+        >
+          Email · currently {user.email}
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="account-email"
+            type="email"
+            placeholder="New email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="bg-secondary border-border"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isSavingEmail || !email.trim()}
+          >
+            {isSavingEmail ? "Sending..." : "Change"}
+          </Button>
+        </div>
+      </form>
+
+      <Separator />
+
+      {/* Password */}
+      <form onSubmit={handlePasswordChange} className="space-y-3">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label
+              htmlFor="account-password"
+              className="text-xs text-muted-foreground"
+            >
+              New password
+            </Label>
+            <Input
+              id="account-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label
+              htmlFor="account-password-confirmation"
+              className="text-xs text-muted-foreground"
+            >
+              Confirm password
+            </Label>
+            <Input
+              id="account-password-confirmation"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isSavingPassword || !password}
+          >
+            {isSavingPassword ? "Saving..." : "Update Password"}
+          </Button>
+        </div>
+      </form>
+
+      <Separator />
+
+      {/* Danger zone */}
+      <div className="rounded-lg border border-destructive/40 p-3 flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-destructive">Delete account</p>
+          <p className="text-xs text-muted-foreground">
+            Cancels your upcoming bookings and removes your account for good
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" disabled={isDeleting}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your upcoming bookings will be cancelled and your profile,
+                booking history and waitlist entries deleted. This can't be
+                undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Account</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete Account
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
-import { format } from "date-fns";
-import { useBookings } from "@/context/BookingContext";
+import { useBookings, Booking } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
 import { StatusBadge } from "./StatusBadge";
+import { EditBookingModal } from "./EditBookingModal";
+import { CancelBookingDialog } from "./CancelBookingDialog";
+import { BookingDetailDrawer } from "./BookingDetailDrawer";
+import {
+  BookingDecisionDialog,
+  BookingDecision,
+} from "./BookingDecisionDialog";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -10,100 +17,119 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Check, X, Clock, Calendar, User } from "lucide-react";
-import { toast } from "@/hooks/use-toast";
 import {
+  Check,
+  X,
+  Clock,
+  Calendar,
+  User,
+  DoorOpen,
+  Pencil,
+  Trash2,
+  Repeat,
+  MessageSquare,
+  History,
+} from "lucide-react";
+import {
+  BookingFilters,
+  BookingSort,
   BookingStatus,
-  deleteBooking,
-  updateBooking,
 } from "@/services/bookingService";
-import { useEffect, useState } from "react";
-import { supabase } from "@/lib/supabase";
+import { useState } from "react";
+import { studioDateKey, studioDayRange } from "@/lib/studioTime";
+import { useBookingPagesQuery } from "@/hooks/use-booking-queries";
+import { ALL_RESOURCES } from "./ResourcePicker";
+import { LoadMore } from "./LoadMore";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Orders the list can be sorted in, applied by the database
+const SORT_OPTIONS: Record<string, { label: string; sort: BookingSort }> = {
+  newest: {
+    label: "Newest requests",
+    sort: { column: "created_at", ascending: false },
+  },
+  oldest: {
+    label: "Oldest requests",
+    sort: { column: "created_at", ascending: true },
+  },
+  soonest: {
+    label: "Session, earliest first",
+    sort: { column: "start_time", ascending: true },
+  },
+  latest: {
+    label: "Session, latest first",
+    sort: { column: "start_time", ascending: false },
+  },
+};
 
 interface AdminBookingTableProps {
   filter?: BookingStatus;
+  resourceId?: string;
 }
 
-export function AdminBookingTable({ filter }: AdminBookingTableProps) {
-  const { bookings, updateBookingStatus } = useBookings();
-  const [filteredBookings, setFilteredBookings] = useState<any[]>([]);
-
-  useEffect(() => {
-    setFilteredBookings(
-      filter
-        ? bookings.filter((b) => {
-            if (filter === "today") {
-              const today = format(new Date(), "MMM d, yyyy");
-              const scheduledDate = format(
-                new Date(b.start_time),
-                "MMM d, yyyy",
-              );
-
-              if (today == scheduledDate && b.status == "approved") {
-                return b;
-              }
-              return;
-            }
-
-            return b.status === filter;
-          })
-        : bookings,
-    );
-  }, [updateBookingStatus, updateBooking, deleteBooking]);
-
-  // Realtime data fetching.
-  useEffect(() => {
-    const channel = supabase
-      .channel("bookings")
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT", // We only care about new ones
-          schema: "public",
-          table: "bookings",
-        },
-        (payload) => {
-          // Add the new booking to the top of your state list
-          const oldArr = filteredBookings;
-          const newArr = payload.new;
-          const filteredArr = !newArr.filter((val) => !oldArr.includes(val));
-          setFilteredBookings((prev) => [filteredArr, ...prev]);
-        },
-      )
-      .subscribe();
-
-    // Cleanup: Close the connection when the admin leaves the page
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [updateBookingStatus, updateBooking, deleteBooking]);
-
-  const sortedBookings = [...filteredBookings].sort(
-    (a, b) =>
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
-  );
+export function AdminBookingTable({
+  filter,
+  resourceId = ALL_RESOURCES,
+}: AdminBookingTableProps) {
+  const { getResource } = useBookings();
+  const { timezone, formatInStudio } = useSettings();
+
+  const [sortBy, setSortBy] = useState("newest");
 
-  // Approval handling function
-  const handleApprove = (id: string) => {
-    updateBookingStatus(id, "approved");
-    toast({
-      title: "Booking Approved",
-      description: "The booking has been approved successfully",
-    });
+  // Today's tab lists the approved bookings of the studio day
+  const today = studioDayRange(studioDateKey(new Date(), timezone), timezone);
+  const filters: BookingFilters = {
+    ...(filter === "today"
+      ? {
+          status: "approved",
+          from: today.start.toISOString(),
+          to: today.end.toISOString(),
+        }
+      : { status: filter }),
+    ...(resourceId !== ALL_RESOURCES && { resourceId }),
   };
+  const { data, hasNextPage, isFetchingNextPage, isLoading, fetchNextPage } =
+    useBookingPagesQuery(filters, SORT_OPTIONS[sortBy].sort);
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(
+    null,
+  );
+  const [decidingBooking, setDecidingBooking] = useState<Booking | null>(null);
+  const [viewingBooking, setViewingBooking] = useState<Booking | null>(null);
+  const [decision, setDecision] = useState<BookingDecision>("approved");
 
-  // Rejection handling function
-  const handleReject = (id: string) => {
-    updateBookingStatus(id, "rejected");
-    toast({
-      title: "Booking Rejected",
-      description: "The booking has been rejected",
-      variant: "destructive",
-    });
+  // Pages load as the list is scrolled, already filtered and sorted
+  const sortedBookings = data?.pages.flatMap((page) => page.bookings) ?? [];
+
+  // Group the loaded bookings by resource, in the resources' display order
+  const groupedBookings = [
+    ...new Set(sortedBookings.map((b) => b.resource_id as string)),
+  ]
+    .map((id) => ({
+      id,
+      resource: getResource(id),
+      bookings: sortedBookings.filter((b) => b.resource_id === id),
+    }))
+    .sort(
+      (a, b) =>
+        (a.resource?.sort_order ?? Infinity) -
+        (b.resource?.sort_order ?? Infinity),
+    );
+
+  // Opens the dialog to approve or reject with remarks
+  const handleDecide = (booking: Booking, status: BookingDecision) => {
+    setDecision(status);
+    setDecidingBooking(booking);
   };
 
   // Not found message
-  if (sortedBookings.length === 0) {
+  if (!isLoading && sortedBookings.length === 0) {
     return (
       <div className="bg-card rounded-xl border border-border p-8 text-center shadow-card">
         <Clock className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
@@ -121,10 +147,25 @@ export function AdminBookingTable({ filter }: AdminBookingTableProps) {
 
   return (
     <div className="bg-card rounded-xl border border-border shadow-card overflow-hidden">
+      <div className="flex justify-end p-3 border-b border-border">
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-56 bg-secondary border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_OPTIONS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <Table>
         <TableHeader>
           <TableRow className="border-border hover:bg-transparent">
             <TableHead className="text-muted-foreground">User</TableHead>
+            <TableHead className="text-muted-foreground">Room</TableHead>
             <TableHead className="text-muted-foreground">Date & Time</TableHead>
             <TableHead className="text-muted-foreground">Reason</TableHead>
             <TableHead className="text-muted-foreground">Status</TableHead>
@@ -134,94 +175,189 @@ export function AdminBookingTable({ filter }: AdminBookingTableProps) {
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedBookings.map((booking, index) => (
-            <TableRow
-              key={booking.id}
-              className="border-border animate-fade-in"
-              style={{ animationDelay: `${index * 30}ms` }}
-            >
-              {/* Profile */}
-              <TableCell>
-                <div className="flex flex-wrap items-center gap-2">
-                  <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                    <User className="w-4 h-4 text-primary" />
-                  </div>
-                  <span className="font-medium">{booking.user_name}</span>
-                </div>
-              </TableCell>
-
-              {/* Dates */}
-              <TableCell>
-                <div className="space-y-1">
-                  <div className="flex items-center gap-1.5 text-sm">
-                    <Calendar className="w-3.5 h-3.5 text-muted-foreground hidden md:block" />
-                    {format(new Date(booking.start_time), "MMM d, yyyy")}
-                  </div>
-                  <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
-                    <Clock className="w-3.5 h-3.5 hidden md:block" />
-                    {`${
-                      new Date(booking.start_time).getHours() > 12
-                        ? `0${new Date(booking.start_time).getHours() - 12}`
-                        : `${new Date(booking.start_time).getHours()}`
-                    }:${
-                      new Date(booking.start_time).getMinutes() < 30
-                        ? `00`
-                        : `${new Date(booking.start_time).getMinutes()}`
-                    }`}{" "}
-                    -{" "}
-                    {`${
-                      new Date(booking.end_time).getHours() > 12
-                        ? `0${new Date(booking.end_time).getHours() - 12}`
-                        : `${new Date(booking.end_time).getHours()}`
-                    }:${
-                      new Date(booking.end_time).getMinutes() < 30
-                        ? `00`
-                        : `${new Date(booking.end_time).getMinutes()}`
-                    }`}
-                  </div>
-                </div>
-              </TableCell>
-              {/* Reason */}
-              <TableCell className="max-w-[200px] truncate overflow-x-auto overflow-y-hidden">
-                {booking.reason}
-              </TableCell>
-              {/* status */}
-              <TableCell>
-                <StatusBadge status={booking.status} />
-              </TableCell>
-              {/* action buttons */}
-              <TableCell className="text-right">
-                {booking.status === "pending" ? (
-                  <div className="flex flex-col items-center justify-center gap-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      className="w-full h-8 px-3 border-success text-success hover:bg-success hover:text-success-foreground"
-                      onClick={() => handleApprove(booking.id)}
-                    >
-                      <Check className="w-4 h-4 mr-1" />
-                      Approve
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      className="w-full h-8 px-3 border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                      onClick={() => handleReject(booking.id)}
-                    >
-                      <X className="w-4 h-4 mr-1" />
-                      Reject
-                    </Button>
-                  </div>
-                ) : (
-                  <span className="text-sm text-muted-foreground">
-                    Processed
-                  </span>
-                )}
-              </TableCell>
-            </TableRow>
-          ))}
+          {groupedBookings.map(
+            ({ id, resource, bookings: resourceBookings }) => [
+              resourceId === ALL_RESOURCES && (
+                <TableRow
+                  key={id}
+                  className="border-border bg-secondary/50 hover:bg-secondary/50"
+                >
+                  <TableCell colSpan={6} className="py-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <DoorOpen className="w-4 h-4 text-primary" />
+                      {resource?.name ?? "Other"}
+                      <span className="text-xs text-muted-foreground">
+                        ({resourceBookings.length})
+                      </span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ),
+              ...resourceBookings.map((booking, index) => (
+                <TableRow
+                  key={booking.id}
+                  className="border-border animate-fade-in"
+                  style={{ animationDelay: `${index * 30}ms` }}
+                >
+                  {/* Profile */}
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                        <User className="w-4 h-4 text-primary" />
+                      </div>
+                      <span className="font-medium">{booking.user_name}</span>
+                    </div>
+                  </TableCell>
+
+                  {/* Resource */}
+                  <TableCell className="text-sm">
+                    {getResource(booking.resource_id)?.name ?? "—"}
+                  </TableCell>
+
+                  {/* Dates */}
+                  <TableCell>
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1.5 text-sm">
+                        <Calendar className="w-3.5 h-3.5 text-muted-foreground hidden md:block" />
+                        {formatInStudio(booking.start_time, "MMM d, yyyy")}
+                      </div>
+                      <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                        <Clock className="w-3.5 h-3.5 hidden md:block" />
+                        {formatInStudio(booking.start_time, "h:mm a")} -{" "}
+                        {formatInStudio(booking.end_time, "h:mm a")}
+                      </div>
+                    </div>
+                  </TableCell>
+                  {/* Reason */}
+                  <TableCell className="max-w-[200px] truncate overflow-x-auto overflow-y-hidden">
+                    {booking.reason}
+                    {booking.series_id && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Repeat className="w-3 h-3" />
+                        Recurring
+                      </span>
+                    )}
+                  </TableCell>
+                  {/* status */}
+                  <TableCell>
+                    <StatusBadge status={booking.status} />
+                    {booking.status === "cancelled" &&
+                      booking.cancellation_reason && (
+                        <p
+                          className="flex items-start gap-1 mt-1 max-w-[200px] text-xs text-muted-foreground"
+                          title={booking.cancellation_reason}
+                        >
+                          <MessageSquare className="w-3 h-3 mt-0.5 shrink-0" />
+                          <span className="truncate">
+                            {booking.cancellation_reason}
+                          </span>
+                        </p>
+                      )}
+                    {booking.remarks && (
+                      <p
+                        className="flex items-start gap-1 mt-1 max-w-[200px] text-xs text-muted-foreground"
+                        title={booking.remarks}
+                      >
+                        <MessageSquare className="w-3 h-3 mt-0.5 shrink-0" />
+                        <span className="truncate">{booking.remarks}</span>
+                      </p>
+                    )}
+                  </TableCell>
+                  {/* action buttons */}
+                  <TableCell className="text-right">
+                    {booking.status === "pending" ? (
+                      <div className="flex flex-col items-center justify-center gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full h-8 px-3 border-success text-success hover:bg-success hover:text-success-foreground"
+                          onClick={() => handleDecide(booking, "approved")}
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full h-8 px-3 border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                          onClick={() => handleDecide(booking, "rejected")}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        Processed
+                      </span>
+                    )}
+                    <div className="flex justify-center gap-1 mt-2">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-muted-foreground hover:text-primary"
+                        onClick={() => setViewingBooking(booking)}
+                      >
+                        <History className="w-3.5 h-3.5" />
+                      </Button>
+                      {(booking.status === "pending" ||
+                        booking.status === "approved") && (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-muted-foreground hover:text-primary"
+                            onClick={() => setEditingBooking(booking)}
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => setCancellingBooking(booking)}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )),
+            ],
+          )}
         </TableBody>
       </Table>
+
+      <LoadMore
+        auto
+        hasMore={hasNextPage}
+        loading={isFetchingNextPage}
+        onLoadMore={fetchNextPage}
+      />
+
+      <EditBookingModal
+        open={!!editingBooking}
+        onOpenChange={(open) => !open && setEditingBooking(null)}
+        booking={editingBooking}
+      />
+
+      <CancelBookingDialog
+        booking={cancellingBooking}
+        onOpenChange={(open) => !open && setCancellingBooking(null)}
+      />
+
+      <BookingDetailDrawer
+        booking={viewingBooking}
+        onOpenChange={(open) => !open && setViewingBooking(null)}
+      />
+
+      <BookingDecisionDialog
+        booking={decidingBooking}
+        decision={decision}
+        onOpenChange={(open) => !open && setDecidingBooking(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from "react";
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  WaitlistEntry,
+  fetchWaitlist,
+  leaveWaitlist,
+  subscribeToWaitlist,
+} from "@/services/waitlistService";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Calendar, Clock, Hourglass, User, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { ALL_RESOURCES } from "./ResourcePicker";
+
+interface AdminWaitlistTableProps {
+  resourceId?: string;
+}
+
+export function AdminWaitlistTable({
+  resourceId = ALL_RESOURCES,
+}: AdminWaitlistTableProps) {
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  const loadEntries = useCallback(() => {
+    fetchWaitlist().then(({ data }) => setEntries(data || []));
+  }, []);
+
+  // Offers are made by the database, keep the list live
+  useEffect(() => {
+    loadEntries();
+    return subscribeToWaitlist(loadEntries);
+  }, [loadEntries]);
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    const { error } = await leaveWaitlist(entry.id);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Removed from Waitlist",
+      description: `${entry.user_name} is no longer waiting for this time`,
+    });
+  };
+
+  const visibleEntries =
+    resourceId === ALL_RESOURCES
+      ? entries
+      : entries.filter((e) => e.resource_id === resourceId);
+
+  if (visibleEntries.length === 0) {
+    return (
+      <div className="bg-card rounded-xl border border-border p-8 text-center">
+        <Hourglass className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">No one is on the waitlist</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-xl border border-border shadow-card overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border hover:bg-transparent">
+            <TableHead className="text-muted-foreground">User</TableHead>
+            <TableHead className="text-muted-foreground">Room</TableHead>
+            <TableHead className="text-muted-foreground">Date & Time</TableHead>
+            <TableHead className="text-muted-foreground">Reason</TableHead>
+            <TableHead className="text-muted-foreground">Status</TableHead>
+            <TableHead className="text-muted-foreground text-right">
+              Actions
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleEntries.map((entry) => (
+            <TableRow key={entry.id} className="border-border animate-fade-in">
+              {/* Profile */}
+              <TableCell>
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                    <User className="w-4 h-4 text-primary" />
+                  </div>
+                  <div>
+                    <span className="font-medium">{entry.user_name}</span>
+                    <p className="text-xs text-muted-foreground">
+                      Joined {formatInStudio(entry.created_at, "MMM d, h:mm a")}
+                    </p>
+                  </div>
+                </div>
+              </TableCell>
+
+              {/* Resource */}
+              <TableCell className="text-sm">
+                {getResource(entry.resource_id)?.name ?? "—"}
+              </TableCell>
+
+              {/* Dates */}
+              <TableCell>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-1.5 text-sm">
+                    <Calendar className="w-3.5 h-3.5 text-muted-foreground hidden md:block" />
+                    {formatInStudio(entry.start_time, "MMM d, yyyy")}
+                  </div>
+                  <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                    <Clock className="w-3.5 h-3.5 hidden md:block" />
+                    {formatInStudio(entry.start_time, "h:mm a")} -{" "}
+                    {formatInStudio(entry.end_time, "h:mm a")}
+                  </div>
+                </div>
+              </TableCell>
+
+              {/* Reason */}
+              <TableCell className="max-w-[200px] truncate">
+                {entry.reason}
+              </TableCell>
+
+              {/* Status */}
+              <TableCell>
+                {entry.status === "offered" ? (
+                  <>
+                    <Badge className="bg-success/20 text-success border-success/30">
+                      Offered
+                    </Badge>
+                    {entry.offer_expires_at && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Until {formatInStudio(entry.offer_expires_at, "h:mm a")}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <Badge variant="outline" className="text-muted-foreground">
+                    Waiting
+                  </Badge>
+                )}
+              </TableCell>
+
+              {/* Actions */}
+              <TableCell className="text-right">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  title="Remove from waitlist"
+                  onClick={() => handleRemove(entry)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
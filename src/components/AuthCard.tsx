@@ -0,0 +1,38 @@
+import { ReactNode } from "react";
+import logo from "@/assets/digital_gurkha.jpeg";
+
+interface AuthCardProps {
+  title: string;
+  description?: ReactNode;
+  children?: ReactNode;
+}
+
+// Centered card of the pages that finish auth flows outside the sign-in form
+export function AuthCard({ title, description, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black p-8">
+      <div className="w-full max-w-md animate-slide-up">
+        <div className="flex items-center gap-3 mb-8">
+          <div
+            style={{
+              backgroundImage: `url('${logo}')`,
+              backgroundPosition: "center",
+              backgroundSize: "cover",
+              backgroundRepeat: "no-repeat",
+            }}
+            className="w-10 h-10 rounded-xl bg-gradient-primary shadow-glow"
+          ></div>
+          <span className="font-display text-xl font-bold">
+            DG Studio<span className="text-gradient">Booker</span>
+          </span>
+        </div>
+
+        <h1 className="font-display text-3xl font-bold mb-2">{title}</h1>
+        {description && (
+          <p className="text-muted-foreground mb-8">{description}</p>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -1,42 +1,99 @@
 import { useState } from "react";
+import { endOfMonth, endOfWeek, startOfMonth, startOfWeek } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
-import { useBookings } from "@/context/BookingContext";
+import { useAvailabilityQuery } from "@/hooks/use-booking-queries";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  studioDateKey,
+  studioDayRange,
+  studioToday,
+  toDateKey,
+} from "@/lib/studioTime";
 import { cn } from "@/lib/utils";
+import { ResourcePicker, ALL_RESOURCES } from "./ResourcePicker";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 interface BookingCalendarProps {
   onDateSelect: (date: Date) => void;
   selectedDate?: Date;
+  resourceId?: string;
+  onResourceChange?: (resourceId: string) => void;
 }
 
 export function BookingCalendar({
   onDateSelect,
   selectedDate,
+  resourceId = ALL_RESOURCES,
+  onResourceChange,
 }: BookingCalendarProps) {
-  const { bookings } = useBookings();
-  const [month, setMonth] = useState<Date>(new Date());
+  const { timezone } = useSettings();
+  const [month, setMonth] = useState<Date>(() => studioToday(timezone));
+
+  // Only the busy time of the visible weeks, including the outside days
+  const { data: availability = [] } = useAvailabilityQuery({
+    from: studioDayRange(
+      startOfWeek(startOfMonth(month)),
+      timezone,
+    ).start.toISOString(),
+    to: studioDayRange(
+      endOfWeek(endOfMonth(month)),
+      timezone,
+    ).end.toISOString(),
+  });
 
-  const datesWithBookings = bookings.reduce(
+  // Only show the bookings of the picked resource, whoever made them
+  const resourceBookings =
+    resourceId === ALL_RESOURCES
+      ? availability
+      : availability.filter((b) => b.resource_id === resourceId);
+
+  const datesWithBookings = resourceBookings.reduce(
     (acc, booking) => {
-      const dateStr = booking.start_time.split("T")[0];
-      if (!acc[dateStr]) {
-        acc[dateStr] = { approved: 0, pending: 0 };
+      // Imported events can last several days, like a closure, and mark each
+      // of them. Bookings are marked on the day they start.
+      const dateStrs = [studioDateKey(booking.start_time, timezone)];
+      if (booking.status === "blocked") {
+        const end = new Date(booking.end_time).getTime();
+        let time = new Date(booking.start_time).getTime() + DAY_MS;
+        for (; time < end; time += DAY_MS) {
+          dateStrs.push(studioDateKey(new Date(time), timezone));
+        }
+        dateStrs.push(studioDateKey(new Date(end - 1), timezone));
       }
 
-      if (booking.status === "approved") acc[dateStr].approved++;
-      if (booking.status === "pending") acc[dateStr].pending++;
+      new Set(dateStrs).forEach((dateStr) => {
+        if (!acc[dateStr]) {
+          acc[dateStr] = { approved: 0, pending: 0, blocked: 0 };
+        }
+
+        acc[dateStr][booking.status]++;
+      });
       return acc;
     },
-    {} as Record<string, { approved: number; pending: number }>,
+    {} as Record<
+      string,
+      { approved: number; pending: number; blocked: number }
+    >,
   );
 
   return (
     <div className="bg-card rounded-xl border border-border p-4 shadow-card">
+      {onResourceChange && (
+        <ResourcePicker
+          value={resourceId}
+          onChange={onResourceChange}
+          allowAll
+          className="mb-4"
+        />
+      )}
       <Calendar
         mode="single"
         selected={selectedDate}
         onSelect={(date) => date && onDateSelect(date)}
         month={month}
         onMonthChange={setMonth}
+        today={studioToday(timezone)}
         className="pointer-events-auto"
         classNames={{
           months:
@@ -70,7 +127,7 @@ export function BookingCalendar({
         }}
         components={{
           DayContent: ({ date }) => {
-            const dateStr = date.toISOString().split("T")[0];
+            const dateStr = toDateKey(date);
             const counts = datesWithBookings[dateStr];
             return (
               <div className="relative w-full h-full flex items-center justify-center">
@@ -83,6 +140,9 @@ export function BookingCalendar({
                     {counts.pending > 0 && (
                       <span className="w-1 h-1 rounded-full bg-warning" />
                     )}
+                    {counts.blocked > 0 && (
+                      <span className="w-1 h-1 rounded-full bg-muted-foreground" />
+                    )}
                   </div>
                 )}
               </div>
@@ -100,6 +160,10 @@ export function BookingCalendar({
           <span className="w-2 h-2 rounded-full bg-warning" />
           <span>Pending</span>
         </div>
+        <div className="flex items-center gap-1.5">
+          <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+          <span>Blocked</span>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import type { Booking } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useUpdateBookingStatus } from "@/hooks/use-booking-queries";
+
+export type BookingDecision = "approved" | "rejected";
+
+interface BookingDecisionDialogProps {
+  booking: Booking | null;
+  decision: BookingDecision;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BookingDecisionDialog({
+  booking,
+  decision,
+  onOpenChange,
+}: BookingDecisionDialogProps) {
+  const updateBookingStatus = useUpdateBookingStatus();
+  const { formatInStudio } = useSettings();
+  const [remarks, setRemarks] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isReject = decision === "rejected";
+
+  useEffect(() => {
+    setRemarks("");
+  }, [booking, decision]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking) return;
+
+    if (isReject && !remarks.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please give a reason for the rejection",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await updateBookingStatus.mutateAsync({
+      booking,
+      status: decision,
+      remarks,
+    });
+    setIsSaving(false);
+
+    if (!error) {
+      toast({
+        title: isReject ? "Booking Rejected" : "Booking Approved",
+        description: isReject
+          ? "The booking has been rejected"
+          : "The booking has been approved successfully",
+        variant: isReject ? "destructive" : "default",
+      });
+      onOpenChange(false);
+    } else {
+      toast({
+        title: "Error",
+        description: "Failed to update booking status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-md animate-scale-in">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl flex items-center gap-2">
+            {isReject ? (
+              <X className="w-5 h-5 text-destructive" />
+            ) : (
+              <Check className="w-5 h-5 text-success" />
+            )}
+            {isReject ? "Reject Booking" : "Approve Booking"}
+          </DialogTitle>
+          {booking && (
+            <DialogDescription>
+              "{booking.reason}" by {booking.user_name} on{" "}
+              {formatInStudio(booking.start_time, "MMM d, yyyy")}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5 mt-2">
+          <div className="space-y-2">
+            <Label htmlFor="remarks">
+              {isReject ? "Reason for rejection" : "Notes (optional)"}
+            </Label>
+            <Textarea
+              id="remarks"
+              placeholder={
+                isReject
+                  ? "e.g., The studio is reserved for maintenance that day"
+                  : "e.g., Please pick up the key at the front desk"
+              }
+              value={remarks}
+              maxLength={500}
+              onChange={(e) => setRemarks(e.target.value)}
+              className="bg-secondary border-border resize-none h-24"
+            />
+            <p className="text-xs text-muted-foreground">
+              The user sees this note in their booking history and email.
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={isReject ? "destructive" : "default"}
+              className="flex-1"
+              disabled={isSaving || (isReject && !remarks.trim())}
+            >
+              {isReject ? "Reject" : "Approve"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useBookings, Booking } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  BookingEvent,
+  fetchBookingEvents,
+} from "@/services/bookingEventService";
+import { StatusBadge } from "./StatusBadge";
+import { BookingTimeline } from "./BookingTimeline";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Separator } from "@/components/ui/separator";
+import { Calendar, Clock, DoorOpen, History, User } from "lucide-react";
+
+interface BookingDetailDrawerProps {
+  booking: Booking | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BookingDetailDrawer({
+  booking,
+  onOpenChange,
+}: BookingDetailDrawerProps) {
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the timeline whenever another booking is opened or it changes
+  useEffect(() => {
+    if (!booking) return;
+    setIsLoading(true);
+    fetchBookingEvents(booking.id).then(({ data }) => {
+      setEvents(data || []);
+      setIsLoading(false);
+    });
+  }, [booking]);
+
+  return (
+    <Sheet open={!!booking} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border overflow-y-auto">
+        {booking && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-display text-xl">
+                {booking.reason}
+              </SheetTitle>
+              <SheetDescription asChild>
+                <div>
+                  <StatusBadge status={booking.status} />
+                </div>
+              </SheetDescription>
+            </SheetHeader>
+
+            {/* Booking details */}
+            <div className="mt-6 space-y-2 text-sm">
+              <p className="flex items-center gap-2">
+                <User className="w-4 h-4 text-muted-foreground" />
+                {booking.user_name}
+              </p>
+              <p className="flex items-center gap-2">
+                <DoorOpen className="w-4 h-4 text-muted-foreground" />
+                {getResource(booking.resource_id)?.name ?? "—"}
+              </p>
+              <p className="flex items-center gap-2">
+                <Calendar className="w-4 h-4 text-muted-foreground" />
+                {formatInStudio(booking.start_time, "EEEE, MMMM d, yyyy")}
+              </p>
+              <p className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                {formatInStudio(booking.start_time, "h:mm a")} –{" "}
+                {formatInStudio(booking.end_time, "h:mm a")}
+              </p>
+            </div>
+
+            <Separator className="my-6" />
+
+            {/* Timeline */}
+            <h3 className="font-display text-lg flex items-center gap-2 mb-4">
+              <History className="w-4 h-4 text-primary" />
+              History
+            </h3>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <BookingTimeline events={events} />
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,9 +1,16 @@
-import { useEffect, useState } from "react";
-import { format } from "date-fns";
+import { useState } from "react";
 import { useAuth } from "@/context/AuthContext";
-import { useBookings, Booking } from "@/context/BookingContext";
+import { useBookings, type Booking } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  evaluateCancel,
+  evaluateEdit,
+  PolicyDecision,
+} from "@/lib/bookingPolicy";
 import { StatusBadge } from "./StatusBadge";
 import { EditBookingModal } from "./EditBookingModal";
+import { CancelBookingDialog } from "./CancelBookingDialog";
+import { BookingDetailDrawer } from "./BookingDetailDrawer";
 import {
   Clock,
   Calendar,
@@ -11,105 +18,104 @@ import {
   Pencil,
   Trash2,
   CheckCircle,
+  Repeat,
+  MessageSquare,
+  History,
+  CalendarPlus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
-import { supabase } from "@/lib/supabase";
 import { toast } from "@/hooks/use-toast";
-import { updateBooking, updateBookingStatus } from "@/services/bookingService";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  useBookingPagesQuery,
+  useBookingsQuery,
+} from "@/hooks/use-booking-queries";
+import { studioDateKey, studioDayRange } from "@/lib/studioTime";
+import type { BookingSort } from "@/services/bookingService";
+import { cn } from "@/lib/utils";
+import { bookingToIcs, downloadIcs } from "@/lib/ical";
+import { LoadMore } from "./LoadMore";
+
+// Past bookings, most recent session first
+const PAST_SORT: BookingSort = { column: "start_time", ascending: false };
 
 export function BookingHistory() {
   const { user } = useAuth();
-  const { getUserBookings, getApprovedBookings, deleteBooking } = useBookings();
+  const { can } = usePermissions();
+  const { policy, timezone, formatInStudio } = useSettings();
+  const { getResource } = useBookings();
   const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
-  const [deletingBooking, setDeletingBooking] = useState<Booking | null>(null);
-  const [userBookings, setUserBookings] = useState<any[]>([]);
-  const [approvedBookings, setApprovedBookings] = useState<Booking[]>([]);
-  const [pendingBookings, setPendingBookings] = useState<Booking[]>([]);
-
-  if (!user) return null;
-
-  // Fetch booking data
-  useEffect(() => {
-    // display users bookings
-    setUserBookings(
-      getUserBookings(user.id).sort(
-        (a, b) =>
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
-      ),
-    );
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(
+    null,
+  );
+  const [viewingBooking, setViewingBooking] = useState<Booking | null>(null);
+  const [showPastOwn, setShowPastOwn] = useState(false);
+  const [showPastApproved, setShowPastApproved] = useState(false);
 
-    // displayes all approved bookings
-    setApprovedBookings(
-      getApprovedBookings().sort(
-        (a, b) =>
-          new Date(b.start_time).getTime() - new Date(a.start_time).getTime(),
-      ),
-    );
+  // Bookings from the start of the studio day on load right away, earlier
+  // ones a page at a time when asked for
+  const today = studioDayRange(
+    studioDateKey(new Date(), timezone),
+    timezone,
+  ).start.toISOString();
+  const { data: userBookings = [] } = useBookingsQuery(
+    { userId: user?.id, from: today },
+    { enabled: !!user },
+  );
+  const { data: pendingBookings = [] } = useBookingsQuery(
+    { userId: user?.id, status: "pending" },
+    { enabled: !!user },
+  );
+  const pastOwn = useBookingPagesQuery(
+    { userId: user?.id, to: today },
+    PAST_SORT,
+    { enabled: !!user && showPastOwn },
+  );
+  const { data: upcomingApprovedBookings = [] } = useBookingsQuery({
+    status: "approved",
+    from: today,
+  });
+  const pastApproved = useBookingPagesQuery(
+    { status: "approved", to: today },
+    PAST_SORT,
+    { enabled: showPastApproved },
+  );
 
-    // pendingBookings
-    if (typeof pendingBookings === null) {
-      toast({
-        title: "Not found",
-        description: "You do not have any pending lists to be displayed",
-      });
-    }
-    setPendingBookings(
-      getUserBookings(user.id).filter((b) => b.status === "pending"),
-    );
-  }, [updateBookingStatus, updateBooking, deleteBooking, getUserBookings]);
+  if (!user) return null;
 
-  // Fetch data at real time
-  useEffect(() => {
-    // Realtime data fetching.
-    const channel = supabase
-      .channel("bookings")
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT", // We only care about new ones
-          schema: "public",
-          table: "bookings",
-        },
-        (payload) => {
-          // Add the new booking to the top of your state list
-          const newArr = payload.new;
-          const oldArr = userBookings;
-          const filteredArr = newArr.filter((val) => !oldArr.includes(val));
-          setUserBookings((prev) => [filteredArr, ...prev]);
-        },
-      )
-      .subscribe();
+  // display users bookings, newest requests first
+  const pastUserBookings =
+    pastOwn.data?.pages.flatMap((page) => page.bookings) ?? [];
 
-    // Cleanup: Close the connection when the admin leaves the page
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [updateBookingStatus, updateBooking, deleteBooking, getUserBookings]);
+  // displays the approved bookings the user can read, all for admins
+  const approvedBookings = [...upcomingApprovedBookings].sort(
+    (a, b) =>
+      new Date(b.start_time).getTime() - new Date(a.start_time).getTime(),
+  );
+  const pastApprovedBookings =
+    pastApproved.data?.pages.flatMap((page) => page.bookings) ?? [];
 
-  // Handles delet functions
-  const handleDelete = () => {
-    if (deletingBooking) {
-      deleteBooking(deletingBooking.id);
+  // Run an action unless the booking policy blocks it, then explain why
+  const isAdmin = can("bookings:manage");
+  const withPolicy = (decision: PolicyDecision, action: () => void) => {
+    if (!isAdmin && !decision.allowed) {
       toast({
-        title: "Booking Deleted",
-        description: "Your booking request has been cancelled",
+        title: "Not Allowed",
+        description: decision.reason,
+        variant: "destructive",
       });
-      setDeletingBooking(null);
+      return;
     }
+    action();
   };
 
-  // const
+  // Save an approved session as an .ics file for calendar apps
+  const addToCalendar = (booking: Booking) =>
+    downloadIcs(
+      `booking-${formatInStudio(booking.start_time, "yyyy-MM-dd")}`,
+      bookingToIcs(booking, getResource(booking.resource_id)?.name),
+    );
 
   const BookingCard = ({
     booking,
@@ -117,73 +123,177 @@ export function BookingHistory() {
   }: {
     booking: Booking;
     showActions?: boolean;
-  }) => (
-    <div className="p-4 hover:bg-secondary/50 transition-colors animate-fade-in">
-      {/* Booking slot request details */}
-      <div className="flex items-start justify-between mb-2">
-        <div className="flex-1">
-          <h4 className="font-medium text-foreground overflow-y-auto overflow-x-hidden">
-            {booking.reason}
-          </h4>
-          <p className="text-xs text-muted-foreground mt-0.5 overflow-x-auto overflow-y-hidden">
-            by {booking.user_name}
-          </p>
-        </div>
-        <div className="flex items-center gap-2">
-          <StatusBadge status={booking.status} />
-          {showActions && booking.status === "pending" && (
-            <div className="flex gap-1">
+  }) => {
+    const editDecision = evaluateEdit(booking, policy, false);
+    const cancelDecision = evaluateCancel(booking, policy);
+
+    return (
+      <div className="p-4 hover:bg-secondary/50 transition-colors animate-fade-in">
+        {/* Booking slot request details */}
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex-1">
+            <h4 className="font-medium text-foreground overflow-y-auto overflow-x-hidden">
+              {booking.reason}
+            </h4>
+            <p className="text-xs text-muted-foreground mt-0.5 overflow-x-auto overflow-y-hidden">
+              by {booking.user_name}
+            </p>
+            {booking.series_id && (
+              <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
+                <Repeat className="w-3 h-3" />
+                Recurring booking
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <StatusBadge status={booking.status} />
+            {booking.status === "approved" && (
               <Button
                 size="icon"
                 variant="ghost"
                 className="h-7 w-7 text-muted-foreground hover:text-primary"
-                onClick={() => setEditingBooking(booking)}
+                title="Add to calendar"
+                onClick={() => addToCalendar(booking)}
               >
-                <Pencil className="w-3.5 h-3.5" />
+                <CalendarPlus className="w-3.5 h-3.5" />
               </Button>
+            )}
+            {showActions && (
               <Button
                 size="icon"
                 variant="ghost"
-                className="h-7 w-7 text-muted-foreground hover:text-destructive"
-                onClick={() => setDeletingBooking(booking)}
+                className="h-7 w-7 text-muted-foreground hover:text-primary"
+                onClick={() => setViewingBooking(booking)}
               >
-                <Trash2 className="w-3.5 h-3.5" />
+                <History className="w-3.5 h-3.5" />
               </Button>
-            </div>
-          )}
+            )}
+            {showActions &&
+              (booking.status === "pending" ||
+                booking.status === "approved") && (
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className={cn(
+                      "h-7 w-7 text-muted-foreground hover:text-primary",
+                      !isAdmin && !editDecision.allowed && "opacity-50",
+                    )}
+                    title={editDecision.reason ?? "Edit"}
+                    onClick={() =>
+                      withPolicy(editDecision, () => setEditingBooking(booking))
+                    }
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className={cn(
+                      "h-7 w-7 text-muted-foreground hover:text-destructive",
+                      !isAdmin && !cancelDecision.allowed && "opacity-50",
+                    )}
+                    title={cancelDecision.reason ?? "Cancel"}
+                    onClick={() =>
+                      withPolicy(cancelDecision, () =>
+                        setCancellingBooking(booking),
+                      )
+                    }
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+          </div>
+        </div>
+        {/* Booking slot request start and end times */}
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <Calendar className="w-3.5 h-3.5 hidden md:block" />
+            {formatInStudio(booking.start_time, "MMM d, yyyy")}
+          </span>
+          <span className="flex items-center gap-1.5">
+            <Clock className="w-3.5 h-3.5 hidden md:block" />
+            {formatInStudio(booking.start_time, "h:mm a")} -{" "}
+            {formatInStudio(booking.end_time, "h:mm a")}
+          </span>
         </div>
+        {/* Admin remarks on the decision */}
+        {booking.remarks && (
+          <div
+            className={cn(
+              "mt-3 flex items-start gap-2 rounded-md px-3 py-2 text-xs",
+              booking.status === "rejected"
+                ? "bg-destructive/10 text-destructive"
+                : "bg-secondary text-muted-foreground",
+            )}
+          >
+            <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>
+              <span className="font-medium">
+                {booking.status === "rejected"
+                  ? "Reason for rejection: "
+                  : "Admin note: "}
+              </span>
+              {booking.remarks}
+            </span>
+          </div>
+        )}
+        {/* Why the booking was cancelled */}
+        {booking.status === "cancelled" && booking.cancellation_reason && (
+          <div className="mt-3 flex items-start gap-2 rounded-md bg-secondary px-3 py-2 text-xs text-muted-foreground">
+            <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>
+              <span className="font-medium">Cancelled: </span>
+              {booking.cancellation_reason}
+            </span>
+          </div>
+        )}
       </div>
-      {/* Booking slot request start and end times */}
-      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-        <span className="flex items-center gap-1.5">
-          <Calendar className="w-3.5 h-3.5 hidden md:block" />
-          {format(new Date(booking.start_time), "MMM d, yyyy")}
-        </span>
-        <span className="flex items-center gap-1.5">
-          <Clock className="w-3.5 h-3.5 hidden md:block" />
-          {`${
-            new Date(booking.start_time).getHours() > 12
-              ? `0${new Date(booking.start_time).getHours() - 12}`
-              : `${new Date(booking.start_time).getHours()}`
-          }:${
-            new Date(booking.start_time).getMinutes() < 30
-              ? `00`
-              : `${new Date(booking.start_time).getMinutes()}`
-          }`}{" "}
-          -{" "}
-          {`${
-            new Date(booking.end_time).getHours() > 12
-              ? `0${new Date(booking.end_time).getHours() - 12}`
-              : `${new Date(booking.end_time).getHours()}`
-          }:${
-            new Date(booking.end_time).getMinutes() < 30
-              ? `00`
-              : `${new Date(booking.end_time).getMinutes()}`
-          }`}
-        </span>
+    );
+  };
+
+  // Past bookings below a list, loaded once asked for
+  const PastBookings = ({
+    shown,
+    onShow,
+    bookings,
+    query,
+    showActions = false,
+  }: {
+    shown: boolean;
+    onShow: () => void;
+    bookings: Booking[];
+    query: typeof pastOwn;
+    showActions?: boolean;
+  }) =>
+    shown ? (
+      <>
+        {bookings.map((booking) => (
+          <BookingCard
+            key={booking.id}
+            booking={booking}
+            showActions={showActions}
+          />
+        ))}
+        {!query.isLoading && bookings.length === 0 && (
+          <p className="p-4 text-center text-xs text-muted-foreground">
+            No past bookings
+          </p>
+        )}
+        <LoadMore
+          hasMore={query.hasNextPage}
+          loading={query.isFetchingNextPage}
+          onLoadMore={query.fetchNextPage}
+        />
+      </>
+    ) : (
+      <div className="flex justify-center py-4">
+        <Button variant="outline" size="sm" onClick={onShow}>
+          Show past bookings
+        </Button>
       </div>
-    </div>
-  );
+    );
 
   const EmptyState = ({
     message,
@@ -221,7 +331,7 @@ export function BookingHistory() {
             <div className="divide-y divide-border max-h-[400px] overflow-y-auto">
               {userBookings.length === 0 ? (
                 <EmptyState
-                  message="No bookings yet. Select a date to book!"
+                  message="No upcoming bookings. Select a date to book!"
                   icon={Music}
                 />
               ) : (
@@ -229,6 +339,13 @@ export function BookingHistory() {
                   <BookingCard key={booking.id} booking={booking} showActions />
                 ))
               )}
+              <PastBookings
+                shown={showPastOwn}
+                onShow={() => setShowPastOwn(true)}
+                bookings={pastUserBookings}
+                query={pastOwn}
+                showActions
+              />
             </div>
           </TabsContent>
 
@@ -250,7 +367,7 @@ export function BookingHistory() {
             <div className="divide-y divide-border max-h-[400px] overflow-y-auto">
               {approvedBookings.length === 0 ? (
                 <EmptyState
-                  message="No approved bookings yet"
+                  message="No upcoming approved bookings"
                   icon={CheckCircle}
                 />
               ) : (
@@ -258,6 +375,12 @@ export function BookingHistory() {
                   <BookingCard key={booking.id} booking={booking} />
                 ))
               )}
+              <PastBookings
+                shown={showPastApproved}
+                onShow={() => setShowPastApproved(true)}
+                bookings={pastApprovedBookings}
+                query={pastApproved}
+              />
             </div>
           </TabsContent>
         </Tabs>
@@ -269,29 +392,15 @@ export function BookingHistory() {
         booking={editingBooking}
       />
 
-      <AlertDialog
-        open={!!deletingBooking}
-        onOpenChange={(open) => !open && setDeletingBooking(null)}
-      >
-        <AlertDialogContent className="bg-card border-border">
-          <AlertDialogHeader>
-            <AlertDialogTitle>Cancel Booking Request?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This will permanently delete your booking request for "
-              {deletingBooking?.reason}". This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Keep It</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleDelete}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Cancel Booking
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <CancelBookingDialog
+        booking={cancellingBooking}
+        onOpenChange={(open) => !open && setCancellingBooking(null)}
+      />
+
+      <BookingDetailDrawer
+        booking={viewingBooking}
+        onOpenChange={(open) => !open && setViewingBooking(null)}
+      />
     </>
   );
 }
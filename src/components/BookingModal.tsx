@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { format } from "date-fns";
 import {
   Dialog,
@@ -10,59 +10,192 @@ import {
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { useBookings } from "@/context/BookingContext";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  useBookings,
+  BookingConflict,
+  OccurrenceCheck,
+} from "@/context/BookingContext";
 import { useAuth } from "@/context/AuthContext";
-import { timeSlots } from "@/data/mockData";
+import { useSettings } from "@/context/SettingsContext";
+import { ResourcePicker, ALL_RESOURCES } from "./ResourcePicker";
+import { RecurrenceOptions } from "./RecurrenceOptions";
+import { formatDuration, formatSlotLabel, validateDuration } from "@/lib/slots";
+import {
+  RecurrenceRule,
+  describeRecurrence,
+  expandRecurrence,
+} from "@/lib/recurrence";
+import {
+  BookingViolationKind,
+  validateTimeRange,
+} from "@/services/bookingService";
+import { joinWaitlist } from "@/services/waitlistService";
 import { cn } from "@/lib/utils";
-import { Clock, Calendar, Mic } from "lucide-react";
+import { Clock, Calendar, Mic, AlertTriangle, Hourglass } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import {
+  useCreateBooking,
+  useCreateBookingSeries,
+} from "@/hooks/use-booking-queries";
+
+// Toast title of a request the database refused, by what refused it
+const VIOLATION_TITLES: Record<BookingViolationKind, string> = {
+  booking_policy: "Not Allowed",
+  booking_quota: "Booking Limit Reached",
+  member_suspended: "Account Suspended",
+  calendar_block: "Time Unavailable",
+};
 
 interface BookingModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   selectedDate: Date;
+  resourceId?: string;
 }
 
 export function BookingModal({
   open,
   onOpenChange,
   selectedDate,
+  resourceId,
 }: BookingModalProps) {
   const { user } = useAuth();
-  const { addBooking, getTakenSlots } = useBookings();
+  const { checkAvailability, getTakenSlots, resources } = useBookings();
+  const createBooking = useCreateBooking();
+  const createBookingSeries = useCreateBookingSeries();
+  const {
+    getTimeSlots,
+    getScheduleSettings,
+    timezone,
+    formatInStudio,
+    toStudioDay,
+    fromStudioTime,
+  } = useSettings();
+  const [selectedResourceId, setSelectedResourceId] = useState<string>("");
   const [startTime, setStartTime] = useState<string>("");
   const [endTime, setEndTime] = useState<string>("");
   const [reason, setReason] = useState("");
   const [takenSlots, setTakenSlots] = useState<string[]>([]);
-  const [timeSlot, setTimeSlots] = useState<string[]>(timeSlots);
+  const [conflict, setConflict] = useState<BookingConflict | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [checks, setChecks] = useState<OccurrenceCheck[]>([]);
+  const [waitlistMode, setWaitlistMode] = useState(false);
+
+  // Slot grid of the selected day and resource
+  const timeSlots = getTimeSlots(selectedDate, selectedResourceId);
+  const scheduleSettings = getScheduleSettings(selectedResourceId);
 
-  // Fetch taken slots when date changes or modal opens
+  // The instant of a "HH:mm" slot of the selected studio day
+  const toDateTime = (slot: string) => fromStudioTime(selectedDate, slot);
+
+  // Every occurrence of the requested series, the first one included
+  const occurrences = useMemo(() => {
+    if (!recurrence || !startTime || !endTime) return [];
+    if (!recurrence.count && !recurrence.until) return [];
+    return expandRecurrence(
+      selectedDate,
+      startTime,
+      endTime,
+      recurrence,
+      timezone,
+    );
+  }, [recurrence, startTime, endTime, selectedDate, timezone]);
+
+  // Check the occurrences against existing bookings of the resource
   useEffect(() => {
-    if (open && selectedDate) {
-      getTakenSlots(selectedDate).then(setTakenSlots);
+    if (!selectedResourceId || occurrences.length === 0) {
+      setChecks([]);
+      return;
     }
-  }, [open, selectedDate, getTakenSlots]);
+    let cancelled = false;
+    checkAvailability(selectedResourceId, occurrences).then((result) => {
+      if (!cancelled) setChecks(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedResourceId, occurrences, checkAvailability]);
 
-  // display time on 12hrs format
+  // Occurrences on days the studio is closed at the chosen time
+  const isClosedOn = (start: string) => {
+    const slots = getTimeSlots(toStudioDay(start), selectedResourceId);
+    return !slots.includes(startTime) || !slots.includes(endTime);
+  };
+  const freeOccurrences = checks.filter(
+    (check) => !check.conflict && !isClosedOn(check.start_time),
+  );
+
+  // Preselect the resource chosen on the calendar, or the first one
   useEffect(() => {
-    const smallerTimes = timeSlots.filter((time) => time <= "12:30");
-    const greaterTimes = timeSlots.filter((time) => time > "12:30");
-    const atomRefinedTIme = greaterTimes
-      .map((time) => {
-        return time.split(":");
-      })
-      .map((timeArr) => {
-        const hrs = (Number(timeArr[0]) - 12).toString();
-        const min = timeArr[1];
-        return `${hrs}:${min}`;
-      });
-    setTimeSlots([...smallerTimes, ...atomRefinedTIme]);
-  }, []);
+    if (!open) return;
+    if (resourceId && resourceId !== ALL_RESOURCES) {
+      setSelectedResourceId(resourceId);
+    } else if (resources.length > 0) {
+      setSelectedResourceId((current) => current || resources[0].id);
+    }
+  }, [open, resourceId, resources]);
+
+  const loadTakenSlots = useCallback(() => {
+    if (!selectedDate || !selectedResourceId) return;
+    getTakenSlots(
+      selectedDate,
+      selectedResourceId,
+      scheduleSettings.slot_minutes,
+    ).then(setTakenSlots);
+  }, [
+    selectedDate,
+    selectedResourceId,
+    scheduleSettings.slot_minutes,
+    getTakenSlots,
+  ]);
+
+  // Fetch taken slots when date or resource changes or modal opens
+  useEffect(() => {
+    if (open) loadTakenSlots();
+  }, [open, loadTakenSlots]);
+
+  // Others may have booked meanwhile, their bookings don't arrive over realtime
+  useEffect(() => {
+    if (!open) return;
+    window.addEventListener("focus", loadTakenSlots);
+    return () => window.removeEventListener("focus", loadTakenSlots);
+  }, [open, loadTakenSlots]);
+
+  // Forget an old conflict once the selection changes
+  useEffect(() => {
+    setConflict(null);
+  }, [open, selectedDate, selectedResourceId]);
+
+  // Every new booking starts out as a regular request
+  useEffect(() => {
+    if (!open) setWaitlistMode(false);
+  }, [open]);
+
+  // Switch between booking a free time and waiting for a taken one
+  const toggleWaitlistMode = (enabled: boolean) => {
+    setWaitlistMode(enabled);
+    setConflict(null);
+    setRecurrence(null);
+    setStartTime("");
+    setEndTime("");
+  };
+
+  // Whether the selected range overlaps a taken slot
+  const isRangeTaken = takenSlots.some(
+    (slot) => slot >= startTime && slot < endTime,
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!user || !startTime || !endTime || !reason.trim()) {
+    if (
+      !user ||
+      !selectedResourceId ||
+      !startTime ||
+      !endTime ||
+      !reason.trim()
+    ) {
       toast({
         title: "Missing Information",
         description: "Please fill in all fields",
@@ -71,41 +204,101 @@ export function BookingModal({
       return;
     }
 
-    const startDateTime = new Date(selectedDate);
-    const [startHour, startMin] = startTime.split(":").map(Number);
-    startDateTime.setHours(startHour, startMin, 0, 0);
-
-    const endDateTime = new Date(selectedDate);
-    const [endHour, endMin] = endTime.split(":").map(Number);
-    endDateTime.setHours(endHour, endMin, 0, 0);
+    const startDateTime = toDateTime(startTime);
+    const endDateTime = toDateTime(endTime);
 
-    if (endDateTime <= startDateTime) {
+    const rangeError = validateTimeRange(startDateTime, endDateTime);
+    if (rangeError) {
       toast({
         title: "Invalid Time Range",
-        description: "End time must be after start time",
+        description: rangeError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const durationError = validateDuration(
+      startTime,
+      endTime,
+      scheduleSettings,
+    );
+    if (durationError) {
+      toast({
+        title: "Invalid Duration",
+        description: durationError,
         variant: "destructive",
       });
       return;
     }
 
-    const success = await addBooking({
+    if (waitlistMode) {
+      handleJoinWaitlist(startDateTime, endDateTime);
+      return;
+    }
+
+    if (recurrence && freeOccurrences.length === 0) {
+      toast({
+        title: "No Sessions Available",
+        description: "None of the repeating sessions can be booked",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const booking = {
       user_id: user.id,
       user_name: user.name,
+      resource_id: selectedResourceId,
       start_time: startDateTime.toISOString(),
       end_time: endDateTime.toISOString(),
       reason: reason.trim(),
-    });
+    };
+
+    // Only the free occurrences of a series are requested
+    const {
+      error,
+      conflict: overlap,
+      violation,
+      violationKind,
+    } = recurrence
+      ? await createBookingSeries.mutateAsync({
+          booking: { ...booking, recurrence },
+          occurrences: freeOccurrences.map(({ start_time, end_time }) => ({
+            start_time,
+            end_time,
+          })),
+        })
+      : await createBooking.mutateAsync(booking);
 
-    if (success) {
+    if (!error) {
+      const skipped = occurrences.length - freeOccurrences.length;
       toast({
         title: "Booking Submitted!",
-        description: "Your booking request is pending approval",
+        description: recurrence
+          ? `${freeOccurrences.length} sessions are pending approval` +
+            (skipped > 0 ? `, ${skipped} unavailable skipped` : "")
+          : "Your booking request is pending approval",
       });
 
       setStartTime("");
       setEndTime("");
       setReason("");
+      setRecurrence(null);
       onOpenChange(false);
+    } else if (overlap) {
+      // Someone else got the slot first: explain and refresh the grid
+      setConflict(overlap);
+      setStartTime("");
+      setEndTime("");
+      loadTakenSlots();
+    } else if (violation) {
+      toast({
+        title: violationKind
+          ? VIOLATION_TITLES[violationKind]
+          : "Booking Limit Reached",
+        description: violation,
+        variant: "destructive",
+      });
     } else {
       toast({
         title: "Error",
@@ -115,6 +308,44 @@ export function BookingModal({
     }
   };
 
+  // Wait for a taken time range instead of booking it
+  const handleJoinWaitlist = async (startDateTime: Date, endDateTime: Date) => {
+    if (!user) return;
+
+    if (!isRangeTaken) {
+      toast({
+        title: "Time Slot Available",
+        description: "This time is free, you can book it right away",
+      });
+      setWaitlistMode(false);
+      return;
+    }
+
+    const { error } = await joinWaitlist({
+      user_id: user.id,
+      user_name: user.name,
+      resource_id: selectedResourceId,
+      start_time: startDateTime.toISOString(),
+      end_time: endDateTime.toISOString(),
+      reason: reason.trim(),
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Added to Waitlist",
+      description:
+        "We'll let you know as soon as this time frees up, you can then claim it",
+    });
+    setStartTime("");
+    setEndTime("");
+    setReason("");
+    onOpenChange(false);
+  };
+
   const isSlotTaken = (slot: string) => takenSlots.includes(slot);
 
   return (
@@ -132,13 +363,64 @@ export function BookingModal({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-5 mt-4">
+          {/* Resource */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Room</Label>
+            <ResourcePicker
+              value={selectedResourceId}
+              onChange={(id) => {
+                setSelectedResourceId(id);
+                setStartTime("");
+                setEndTime("");
+              }}
+            />
+          </div>
+
+          {/* Conflict returned by the server */}
+          {conflict && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Time slot no longer available</AlertTitle>
+              <AlertDescription>
+                This room has just been booked from{" "}
+                {formatInStudio(conflict.start_time, "h:mm a")} to{" "}
+                {formatInStudio(conflict.end_time, "h:mm a")}. The available
+                slots have been refreshed, please pick another time or{" "}
+                <button
+                  type="button"
+                  className="underline font-medium"
+                  onClick={() => toggleWaitlistMode(true)}
+                >
+                  join the waitlist
+                </button>
+                .
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Time slot */}
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Select Time Slot</Label>
-            <div className="grid grid-cols-5 gap-2">
-              {timeSlot &&
-                timeSlots.map((slot, key) => {
-                  const taken = isSlotTaken(slot);
+            <Label className="text-sm font-medium">
+              {waitlistMode
+                ? "Select the Time to Wait For"
+                : "Select Time Slot"}
+            </Label>
+            {waitlistMode && (
+              <p className="text-xs text-muted-foreground">
+                Pick a taken time. When it frees up, you'll get an offer to
+                claim it before anyone else.
+              </p>
+            )}
+            {timeSlots.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                The studio is closed on this day. Please pick another date.
+              </p>
+            )}
+            <div className="grid grid-cols-4 gap-2">
+              {timeSlots.length > 0 &&
+                timeSlots.map((slot) => {
+                  // Taken slots can be picked when joining the waitlist
+                  const taken = isSlotTaken(slot) && !waitlistMode;
                   return (
                     <button
                       key={slot}
@@ -169,9 +451,14 @@ export function BookingModal({
                           slot !== startTime &&
                           slot !== endTime &&
                           "bg-secondary border-border hover:border-primary hover:bg-primary/10",
+                        waitlistMode &&
+                          isSlotTaken(slot) &&
+                          slot !== startTime &&
+                          slot !== endTime &&
+                          "border-dashed text-muted-foreground",
                       )}
                     >
-                      {timeSlot[key]}
+                      {formatSlotLabel(slot)}
                     </button>
                   );
                 })}
@@ -179,12 +466,74 @@ export function BookingModal({
             {startTime && (
               <p className="text-xs text-muted-foreground flex items-center gap-1">
                 <Clock className="w-3 h-3" />
-                {startTime} {endTime && `→ ${endTime}`}
+                {formatSlotLabel(startTime)}{" "}
+                {endTime && `→ ${formatSlotLabel(endTime)}`}
                 {!endTime && " (select end time)"}
               </p>
             )}
+            {timeSlots.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Sessions from{" "}
+                {formatDuration(scheduleSettings.min_duration_minutes)} to{" "}
+                {formatDuration(scheduleSettings.max_duration_minutes)}
+              </p>
+            )}
+            {(waitlistMode || takenSlots.length > 0) && (
+              <button
+                type="button"
+                onClick={() => toggleWaitlistMode(!waitlistMode)}
+                className="text-xs text-primary hover:underline flex items-center gap-1"
+              >
+                <Hourglass className="w-3 h-3" />
+                {waitlistMode
+                  ? "Back to booking a free time"
+                  : "Time you need is taken? Join the waitlist"}
+              </button>
+            )}
           </div>
 
+          {/* Recurrence */}
+          {!waitlistMode && (
+            <RecurrenceOptions value={recurrence} onChange={setRecurrence} />
+          )}
+          {recurrence && checks.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {describeRecurrence(recurrence)} · {freeOccurrences.length} of{" "}
+                {checks.length} sessions available
+              </p>
+              <ul className="max-h-36 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {checks.map((check) => {
+                  const closed = isClosedOn(check.start_time);
+                  return (
+                    <li
+                      key={check.start_time}
+                      className="flex items-center justify-between px-3 py-1.5 text-xs"
+                    >
+                      <span>
+                        {formatInStudio(check.start_time, "EEE, MMM d, yyyy")}
+                      </span>
+                      <span
+                        className={cn(
+                          "font-medium",
+                          check.conflict || closed
+                            ? "text-destructive"
+                            : "text-success",
+                        )}
+                      >
+                        {closed
+                          ? "Closed"
+                          : check.conflict
+                            ? "Taken"
+                            : "Available"}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           {/* Reason textarea */}
           <div className="space-y-2">
             <Label htmlFor="reason">Reason for Booking</Label>
@@ -210,9 +559,15 @@ export function BookingModal({
             <Button
               type="submit"
               className="flex-1 bg-gradient-primary hover:opacity-90 transition-opacity"
-              disabled={!startTime || !endTime || !reason.trim()}
+              disabled={
+                !selectedResourceId ||
+                !startTime ||
+                !endTime ||
+                !reason.trim() ||
+                (!!recurrence && occurrences.length === 0)
+              }
             >
-              Submit Request
+              {waitlistMode ? "Join Waitlist" : "Submit Request"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,117 @@
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  BookingEvent,
+  BookingEventChanges,
+  BookingEventType,
+} from "@/services/bookingEventService";
+import { cn } from "@/lib/utils";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+
+export const EVENT_LABELS: Record<BookingEventType, string> = {
+  created: "Requested",
+  edited: "Edited",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const EVENT_ICONS = {
+  created: { icon: Plus, className: "bg-primary/20 text-primary" },
+  edited: { icon: Pencil, className: "bg-secondary text-muted-foreground" },
+  approved: { icon: Check, className: "bg-success/20 text-success" },
+  rejected: { icon: X, className: "bg-destructive/20 text-destructive" },
+  cancelled: { icon: Trash2, className: "bg-muted text-muted-foreground" },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  resource_id: "Room",
+  start_time: "Start",
+  end_time: "End",
+  reason: "Reason",
+  status: "Status",
+  remarks: "Remarks",
+};
+
+export function EventChanges({ changes }: { changes: BookingEventChanges }) {
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+
+  // Show each value the way the rest of the app does
+  const formatValue = (field: string, value: string | null) => {
+    if (value === null || value === "") return "—";
+    if (field === "start_time" || field === "end_time") {
+      return formatInStudio(value, "MMM d, h:mm a");
+    }
+    if (field === "resource_id") return getResource(value)?.name ?? "Other";
+    return value;
+  };
+
+  return (
+    <ul className="space-y-0.5 text-xs text-muted-foreground">
+      {Object.entries(changes).map(([field, change]) => (
+        <li key={field}>
+          <span className="font-medium text-foreground">
+            {FIELD_LABELS[field] ?? field}:
+          </span>{" "}
+          <span className="line-through">{formatValue(field, change.old)}</span>{" "}
+          → {formatValue(field, change.new)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface BookingTimelineProps {
+  events: BookingEvent[];
+}
+
+export function BookingTimeline({ events }: BookingTimelineProps) {
+  const { formatInStudio } = useSettings();
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No history recorded yet.</p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-5 border-l border-border ml-3">
+      {events.map((event) => {
+        const { icon: Icon, className } = EVENT_ICONS[event.event_type];
+        return (
+          <li key={event.id} className="ml-6">
+            <span
+              className={cn(
+                "absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-card",
+                className,
+              )}
+            >
+              <Icon className="h-3 w-3" />
+            </span>
+            <p className="text-sm font-medium">
+              {EVENT_LABELS[event.event_type]}
+              <span className="font-normal text-muted-foreground">
+                {" "}
+                by {event.actor_name ?? "System"}
+              </span>
+            </p>
+            <time className="text-xs text-muted-foreground">
+              {formatInStudio(event.created_at, "MMM d, yyyy 'at' h:mm a")}
+            </time>
+            {event.event_type === "edited" && event.changes && (
+              <div className="mt-1">
+                <EventChanges changes={event.changes} />
+              </div>
+            )}
+            {event.remarks && (
+              <p className="mt-1 text-xs text-muted-foreground italic">
+                "{event.remarks}"
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useBookings } from "@/context/BookingContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  calendarFeedUrl,
+  fetchCalendarFeedToken,
+} from "@/services/calendarService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarDays, Copy, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const OWN = "own";
+const ALL = "all";
+
+export function CalendarFeedSettings() {
+  const { resources } = useBookings();
+  const { can } = usePermissions();
+  const [token, setToken] = useState<string | null>(null);
+  const [scope, setScope] = useState(OWN);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  useEffect(() => {
+    fetchCalendarFeedToken().then(({ data }) => setToken(data));
+  }, []);
+
+  const url =
+    token &&
+    calendarFeedUrl(
+      token,
+      scope === OWN || scope === ALL ? scope : { resourceId: scope },
+    );
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    toast({
+      title: "Link Copied",
+      description: "Add it to your calendar app as a subscription",
+    });
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    const { data, error } = await fetchCalendarFeedToken(true);
+    setIsRegenerating(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    setToken(data);
+    toast({
+      title: "New Link Created",
+      description: "Calendars subscribed with the old link no longer update",
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Calendar</h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Subscribe to this link in Google Calendar, Apple Calendar or Outlook to
+        see your approved sessions there. Approvals, changes and cancellations
+        show up on their own. Keep the link private, anyone who has it can see
+        your bookings.
+      </p>
+
+      {can("bookings:manage") && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Bookings</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={OWN}>My bookings</SelectItem>
+              <SelectItem value={ALL}>All bookings</SelectItem>
+              {resources.map((resource) => (
+                <SelectItem key={resource.id} value={resource.id}>
+                  All bookings of {resource.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          readOnly
+          value={url ?? ""}
+          onFocus={(e) => e.target.select()}
+          className="bg-secondary border-border font-mono text-xs"
+        />
+        <Button
+          size="icon"
+          variant="outline"
+          onClick={handleCopy}
+          disabled={!url}
+          title="Copy link"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRegenerate}
+          disabled={isRegenerating}
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          {isRegenerating ? "Creating..." : "Create New Link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
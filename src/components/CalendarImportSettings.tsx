@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import { bookingKeys } from "@/hooks/use-booking-queries";
+import {
+  CalendarImport,
+  createCalendarImport,
+  deleteCalendarImport,
+  fetchCalendarImports,
+  syncCalendarImport,
+} from "@/services/calendarImportService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarX2, RefreshCw, Trash2, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+type Source = "url" | "file";
+
+export function CalendarImportSettings() {
+  const { resources, getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const newFileInput = useRef<HTMLInputElement>(null);
+  const [imports, setImports] = useState<CalendarImport[]>([]);
+  const [resourceId, setResourceId] = useState("");
+  const [name, setName] = useState("");
+  const [source, setSource] = useState<Source>("url");
+  const [url, setUrl] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  // The import being synced, or receiving a new file
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploadTarget, setUploadTarget] = useState<string | null>(null);
+
+  const loadImports = () => {
+    fetchCalendarImports().then(({ data }) => setImports(data || []));
+  };
+
+  useEffect(() => {
+    loadImports();
+  }, []);
+
+  // Sync an import and report the outcome, the calendar shows the new blocks
+  const sync = async (calendarImport: CalendarImport, ics?: string) => {
+    const { data: blocked, error } = await syncCalendarImport(
+      calendarImport.id,
+      ics,
+    );
+    loadImports();
+    queryClient.invalidateQueries({ queryKey: bookingKeys.availability() });
+
+    if (error) {
+      toast({
+        title: "Calendar Not Synced",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const resource = getResource(calendarImport.resource_id);
+    toast({
+      title: "Calendar Synced",
+      description: `${blocked} ${blocked === 1 ? "event blocks" : "events block"} time in ${resource?.name ?? "the studio"}`,
+    });
+  };
+
+  const handleAdd = async () => {
+    if (!resourceId || !name.trim() || (source === "url" ? !url : !file)) {
+      toast({
+        title: "Missing Information",
+        description: "Please pick a resource, a name and a calendar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAdding(true);
+    const ics = source === "file" ? await file?.text() : undefined;
+    const { data: calendarImport, error } = await createCalendarImport({
+      resource_id: resourceId,
+      name: name.trim(),
+      url: source === "url" ? url.trim() : null,
+    });
+
+    if (error || !calendarImport) {
+      setIsAdding(false);
+      toast({
+        title: "Error",
+        description: error ?? "Failed to import the calendar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await sync(calendarImport, ics);
+    setIsAdding(false);
+    setName("");
+    setUrl("");
+    setFile(null);
+    if (newFileInput.current) newFileInput.current.value = "";
+  };
+
+  const handleSync = async (calendarImport: CalendarImport) => {
+    setBusyId(calendarImport.id);
+    await sync(calendarImport);
+    setBusyId(null);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    e.target.value = "";
+    const calendarImport = imports.find((i) => i.id === uploadTarget);
+    if (!upload || !calendarImport) return;
+
+    setBusyId(calendarImport.id);
+    await sync(calendarImport, await upload.text());
+    setBusyId(null);
+  };
+
+  const handleDelete = async (calendarImport: CalendarImport) => {
+    setBusyId(calendarImport.id);
+    const { error } = await deleteCalendarImport(calendarImport.id);
+    setBusyId(null);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Calendar Removed",
+      description: `The time blocked by ${calendarImport.name} is free again`,
+    });
+    loadImports();
+    queryClient.invalidateQueries({ queryKey: bookingKeys.availability() });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <CalendarX2 className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">
+          External Calendars
+        </h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Events of these calendars block their resource, so members can't book
+        over them. Calendars added by link are synced every hour, an uploaded
+        file stays as it is until you upload a new one.
+      </p>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={handleUpload}
+      />
+
+      {/* Imported calendars */}
+      {imports.length > 0 && (
+        <ul className="rounded-md border border-border divide-y divide-border">
+          {imports.map((calendarImport) => (
+            <li
+              key={calendarImport.id}
+              className="flex items-start justify-between gap-2 px-3 py-2"
+            >
+              <div className="min-w-0 text-sm">
+                <span className="font-medium">{calendarImport.name}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {getResource(calendarImport.resource_id)?.name}
+                </span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {calendarImport.url ?? "Uploaded file"}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {calendarImport.last_synced_at
+                    ? `Synced ${formatInStudio(
+                        calendarImport.last_synced_at,
+                        "MMM d, h:mm a",
+                      )}`
+                    : "Not synced yet"}
+                </span>
+                {calendarImport.last_error && (
+                  <span className="block text-xs text-destructive">
+                    {calendarImport.last_error}
+                  </span>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {calendarImport.url ? (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleSync(calendarImport)}
+                    disabled={busyId === calendarImport.id}
+                    title="Sync now"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => {
+                      setUploadTarget(calendarImport.id);
+                      fileInput.current?.click();
+                    }}
+                    disabled={busyId === calendarImport.id}
+                    title="Upload a new file"
+                  >
+                    <Upload className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleDelete(calendarImport)}
+                  disabled={busyId === calendarImport.id}
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New import */}
+      <div className="space-y-3">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Resource</Label>
+            <Select value={resourceId} onValueChange={setResourceId}>
+              <SelectTrigger className="bg-secondary border-border">
+                <SelectValue placeholder="Select a resource" />
+              </SelectTrigger>
+              <SelectContent>
+                {resources.map((resource) => (
+                  <SelectItem key={resource.id} value={resource.id}>
+                    {resource.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label
+              htmlFor="calendar-import-name"
+              className="text-xs text-muted-foreground"
+            >
+              Name
+            </Label>
+            <Input
+              id="calendar-import-name"
+              placeholder="e.g. Staff events"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Calendar</Label>
+          <div className="flex gap-2">
+            <Select
+              value={source}
+              onValueChange={(value) => setSource(value as Source)}
+            >
+              <SelectTrigger className="w-32 shrink-0 bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="url">ICS link</SelectItem>
+                <SelectItem value="file">.ics file</SelectItem>
+              </SelectContent>
+            </Select>
+            {source === "url" ? (
+              <Input
+                type="url"
+                placeholder="https://... or webcal://..."
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="bg-secondary border-border"
+              />
+            ) : (
+              <Input
+                ref={newFileInput}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="bg-secondary border-border"
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={isAdding}
+          >
+            {isAdding ? "Importing..." : "Import Calendar"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { ReactNode } from "react";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission } from "@/lib/permissions";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+// Renders its children only for users with the permission
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { can } = usePermissions();
+  return <>{can(permission) ? children : fallback}</>;
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import type { Booking, SeriesScope } from "@/context/BookingContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCancelBooking } from "@/hooks/use-booking-queries";
+import { useSettings } from "@/context/SettingsContext";
+import { evaluateCancel } from "@/lib/bookingPolicy";
+import { SeriesScopeOptions } from "./SeriesScopeOptions";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+
+interface CancelBookingDialogProps {
+  booking: Booking | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CancelBookingDialog({
+  booking,
+  onOpenChange,
+}: CancelBookingDialogProps) {
+  const { can } = usePermissions();
+  const cancelBooking = useCancelBooking();
+  const { policy } = useSettings();
+  const [scope, setScope] = useState<SeriesScope>("occurrence");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setScope("occurrence");
+    setReason("");
+  }, [booking]);
+
+  // Admins may cancel at any time, users only within the policy
+  const decision =
+    booking && !can("bookings:manage")
+      ? evaluateCancel(booking, policy)
+      : { allowed: true, reason: null };
+
+  // Cancels the booking, or more sessions of its series
+  const handleCancel = async () => {
+    if (!booking || !decision.allowed) return;
+
+    const { error, violation } = await cancelBooking.mutateAsync({
+      booking,
+      reason,
+      scope,
+    });
+    if (!error) {
+      toast({
+        title: "Booking Cancelled",
+        description:
+          scope === "occurrence"
+            ? "The booking request has been cancelled"
+            : "The selected sessions have been cancelled",
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: violation ?? "Failed to cancel booking. Please try again.",
+        variant: "destructive",
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="bg-card border-border">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel Booking?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will cancel the booking for "{booking?.reason}" and free up its
+            time slot. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {!decision.allowed && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{decision.reason}</AlertDescription>
+          </Alert>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="cancellation-reason">Reason (optional)</Label>
+          <Textarea
+            id="cancellation-reason"
+            placeholder="e.g., The band can't make it this week"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+            className="bg-secondary border-border resize-none h-20"
+          />
+        </div>
+        {booking?.series_id && (
+          <SeriesScopeOptions
+            value={scope}
+            onChange={setScope}
+            action="cancel"
+          />
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep It</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleCancel}
+            disabled={!decision.allowed}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Cancel Booking
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
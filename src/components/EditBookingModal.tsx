@@ -10,10 +10,17 @@ import {
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { useBookings, Booking } from "@/context/BookingContext";
-import { timeSlots } from "@/data/mockData";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useBookings, Booking, SeriesScope } from "@/context/BookingContext";
+import { SeriesScopeOptions } from "./SeriesScopeOptions";
+import { useSettings } from "@/context/SettingsContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useUpdateBooking } from "@/hooks/use-booking-queries";
+import { describeEditEffects, evaluateEdit } from "@/lib/bookingPolicy";
+import { formatSlotLabel, validateDuration } from "@/lib/slots";
+import { validateTimeRange } from "@/services/bookingService";
 import { cn } from "@/lib/utils";
-import { Clock, Calendar, Edit } from "lucide-react";
+import { Clock, Calendar, Edit, AlertTriangle, Info } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 
 interface EditBookingModalProps {
@@ -27,45 +34,90 @@ export function EditBookingModal({
   onOpenChange,
   booking,
 }: EditBookingModalProps) {
-  const { updateBooking, getTakenSlots } = useBookings();
+  const { getTakenSlots, getResource } = useBookings();
+  const updateBooking = useUpdateBooking();
+  const {
+    getTimeSlots,
+    getScheduleSettings,
+    policy,
+    formatInStudio,
+    toStudioDay,
+    fromStudioTime,
+  } = useSettings();
+  const { can } = usePermissions();
   const [startTime, setStartTime] = useState<string>("");
   const [endTime, setEndTime] = useState<string>("");
   const [reason, setReason] = useState("");
   const [takenSlots, setTakenSlots] = useState<string[]>([]);
+  const [slotsVersion, setSlotsVersion] = useState(0);
+  const [scope, setScope] = useState<SeriesScope>("occurrence");
 
   useEffect(() => {
     if (booking) {
-      const start = new Date(booking.start_time);
-      const end = new Date(booking.end_time);
-      setStartTime(format(start, "HH:mm"));
-      setEndTime(format(end, "HH:mm"));
+      setStartTime(formatInStudio(booking.start_time, "HH:mm"));
+      setEndTime(formatInStudio(booking.end_time, "HH:mm"));
       setReason(booking.reason);
+      setScope("occurrence");
     }
-  }, [booking]);
+  }, [booking, formatInStudio]);
+
+  // Others may have booked meanwhile, their bookings don't arrive over realtime
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => setSlotsVersion((version) => version + 1);
+    window.addEventListener("focus", refresh);
+    return () => window.removeEventListener("focus", refresh);
+  }, [open]);
 
   // Fetch taken slots when booking changes
   useEffect(() => {
     if (open && booking) {
-      const selectedDate = new Date(booking.start_time);
-      getTakenSlots(selectedDate).then((slots) => {
-        // Exclude current booking's slots from taken list
-        const bookingStart = format(new Date(booking.start_time), "HH:mm");
-        const bookingEnd = format(new Date(booking.end_time), "HH:mm");
-        const filteredSlots = slots.filter(
-          (slot) => slot < bookingStart || slot >= bookingEnd,
-        );
-        setTakenSlots(filteredSlots);
-      });
+      const selectedDate = toStudioDay(booking.start_time);
+      const { slot_minutes } = getScheduleSettings(booking.resource_id);
+      getTakenSlots(selectedDate, booking.resource_id, slot_minutes).then(
+        (slots) => {
+          // Exclude current booking's slots from taken list
+          const bookingStart = formatInStudio(booking.start_time, "HH:mm");
+          const bookingEnd = formatInStudio(booking.end_time, "HH:mm");
+          const filteredSlots = slots.filter(
+            (slot) => slot < bookingStart || slot >= bookingEnd,
+          );
+          setTakenSlots(filteredSlots);
+        },
+      );
     }
-  }, [open, booking, getTakenSlots]);
+  }, [
+    open,
+    booking,
+    getTakenSlots,
+    getScheduleSettings,
+    formatInStudio,
+    toStudioDay,
+    slotsVersion,
+  ]);
 
   if (!booking) return null;
 
-  const selectedDate = new Date(booking.start_time);
+  const selectedDate = toStudioDay(booking.start_time);
+  const timeSlots = getTimeSlots(selectedDate, booking.resource_id);
+  const scheduleSettings = getScheduleSettings(booking.resource_id);
+
+  // Moving the booking counts against the reschedule limit, admins are
+  // not bound by the policy
+  const isAdmin = can("bookings:manage");
+  const isRescheduling =
+    startTime !== formatInStudio(booking.start_time, "HH:mm") ||
+    endTime !== formatInStudio(booking.end_time, "HH:mm");
+  const decision = isAdmin
+    ? { allowed: true, reason: null }
+    : evaluateEdit(booking, policy, isRescheduling);
+  const notices = isAdmin ? [] : describeEditEffects(booking, policy);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!decision.allowed) return;
+
     if (!startTime || !endTime || !reason.trim()) {
       toast({
         title: "Missing Information",
@@ -75,35 +127,66 @@ export function EditBookingModal({
       return;
     }
 
-    const startDateTime = new Date(selectedDate);
-    const [startHour, startMin] = startTime.split(":").map(Number);
-    startDateTime.setHours(startHour, startMin, 0, 0);
-
-    const endDateTime = new Date(selectedDate);
-    const [endHour, endMin] = endTime.split(":").map(Number);
-    endDateTime.setHours(endHour, endMin, 0, 0);
+    const startDateTime = fromStudioTime(selectedDate, startTime);
+    const endDateTime = fromStudioTime(selectedDate, endTime);
 
-    if (endDateTime <= startDateTime) {
+    const rangeError = validateTimeRange(startDateTime, endDateTime);
+    if (rangeError) {
       toast({
         title: "Invalid Time Range",
-        description: "End time must be after start time",
+        description: rangeError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const durationError = validateDuration(
+      startTime,
+      endTime,
+      scheduleSettings,
+    );
+    if (durationError) {
+      toast({
+        title: "Invalid Duration",
+        description: durationError,
         variant: "destructive",
       });
       return;
     }
 
-    const success = await updateBooking(booking.id, {
-      start_time: startDateTime.toString(),
-      end_time: endDateTime.toString(),
-      reason: reason,
+    const { error, conflict, violation } = await updateBooking.mutateAsync({
+      booking,
+      updates: {
+        start_time: startDateTime.toISOString(),
+        end_time: endDateTime.toISOString(),
+        reason: reason,
+      },
+      scope,
     });
 
-    if (success) {
+    if (!error) {
       toast({
         title: "Booking Updated!",
         description: "Your booking has been updated successfully",
       });
       onOpenChange(false);
+    } else if (conflict) {
+      // Someone else got the slot first: explain and refresh the grid
+      toast({
+        title: "Time slot no longer available",
+        description: `This room is already booked from ${formatInStudio(
+          conflict.start_time,
+          "h:mm a",
+        )} to ${formatInStudio(conflict.end_time, "h:mm a")}.`,
+        variant: "destructive",
+      });
+      setSlotsVersion((version) => version + 1);
+    } else if (violation) {
+      toast({
+        title: "Not Allowed",
+        description: violation,
+        variant: "destructive",
+      });
     } else {
       toast({
         title: "Error",
@@ -126,13 +209,39 @@ export function EditBookingModal({
           <DialogDescription className="flex items-center gap-2 text-muted-foreground">
             <Calendar className="w-4 h-4" />
             {format(selectedDate, "EEEE, MMMM d, yyyy")}
+            {getResource(booking.resource_id) &&
+              ` · ${getResource(booking.resource_id).name}`}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-5 mt-4">
+          {/* Booking policy */}
+          {!decision.allowed ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{decision.reason}</AlertDescription>
+            </Alert>
+          ) : (
+            notices.length > 0 && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription className="space-y-1">
+                  {notices.map((notice) => (
+                    <p key={notice}>{notice}</p>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )
+          )}
+
           <div className="space-y-3">
             <Label className="text-sm font-medium">Select Time Slot</Label>
-            <div className="grid grid-cols-5 gap-2">
+            {timeSlots.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                The studio is closed on this day.
+              </p>
+            )}
+            <div className="grid grid-cols-4 gap-2">
               {timeSlots.map((slot) => {
                 const taken = isSlotTaken(slot);
                 return (
@@ -167,7 +276,7 @@ export function EditBookingModal({
                         "bg-secondary border-border hover:border-primary hover:bg-primary/10",
                     )}
                   >
-                    {slot}
+                    {formatSlotLabel(slot)}
                   </button>
                 );
               })}
@@ -175,7 +284,8 @@ export function EditBookingModal({
             {startTime && (
               <p className="text-xs text-muted-foreground flex items-center gap-1">
                 <Clock className="w-3 h-3" />
-                {startTime} {endTime && `→ ${endTime}`}
+                {formatSlotLabel(startTime)}{" "}
+                {endTime && `→ ${formatSlotLabel(endTime)}`}
                 {!endTime && " (select end time)"}
               </p>
             )}
@@ -192,6 +302,17 @@ export function EditBookingModal({
             />
           </div>
 
+          {booking.series_id && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Recurring booking</Label>
+              <SeriesScopeOptions
+                value={scope}
+                onChange={setScope}
+                action="edit"
+              />
+            </div>
+          )}
+
           <div className="flex gap-3 pt-2">
             <Button
               type="button"
@@ -204,7 +325,9 @@ export function EditBookingModal({
             <Button
               type="submit"
               className="flex-1 bg-gradient-primary hover:opacity-90 transition-opacity"
-              disabled={!startTime || !endTime || !reason.trim()}
+              disabled={
+                !decision.allowed || !startTime || !endTime || !reason.trim()
+              }
             >
               Save Changes
             </Button>
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  // Loads the next page as soon as the button scrolls into view
+  auto?: boolean;
+  label?: string;
+}
+
+export function LoadMore({
+  hasMore,
+  loading,
+  onLoadMore,
+  auto = false,
+  label = "Load more",
+}: LoadMoreProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!auto || !hasMore || loading || !element) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) onLoadMore();
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [auto, hasMore, loading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-4">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onLoadMore()}
+        disabled={loading}
+      >
+        {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {label}
+      </Button>
+    </div>
+  );
+}
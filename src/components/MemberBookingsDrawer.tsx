@@ -0,0 +1,94 @@
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import { useBookingsQuery } from "@/hooks/use-booking-queries";
+import { Member } from "@/services/memberService";
+import { StatusBadge } from "./StatusBadge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Separator } from "@/components/ui/separator";
+import { Calendar, Clock, DoorOpen, Music } from "lucide-react";
+
+interface MemberBookingsDrawerProps {
+  member: Member | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MemberBookingsDrawer({
+  member,
+  onOpenChange,
+}: MemberBookingsDrawerProps) {
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const { data: bookings = [] } = useBookingsQuery(
+    { userId: member?.id },
+    { enabled: !!member },
+  );
+
+  // The member's bookings, latest first
+  const memberBookings = member
+    ? [...bookings].sort((a, b) => b.start_time.localeCompare(a.start_time))
+    : [];
+
+  return (
+    <Sheet open={!!member} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border overflow-y-auto">
+        {member && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-display text-xl">
+                {member.name}
+              </SheetTitle>
+              <SheetDescription>{member.email}</SheetDescription>
+            </SheetHeader>
+
+            <Separator className="my-6" />
+
+            <h3 className="font-display text-lg flex items-center gap-2 mb-4">
+              <Music className="w-4 h-4 text-primary" />
+              Bookings ({memberBookings.length})
+            </h3>
+            {memberBookings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This member hasn't booked anything yet.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {memberBookings.map((booking) => (
+                  <li
+                    key={booking.id}
+                    className="rounded-lg border border-border p-3 space-y-2"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium">{booking.reason}</p>
+                      <StatusBadge status={booking.status} />
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1.5">
+                        <DoorOpen className="w-3.5 h-3.5" />
+                        {getResource(booking.resource_id)?.name ?? "—"}
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <Calendar className="w-3.5 h-3.5" />
+                        {formatInStudio(booking.start_time, "MMM d, yyyy")}
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <Clock className="w-3.5 h-3.5" />
+                        {formatInStudio(booking.start_time, "h:mm a")} –{" "}
+                        {formatInStudio(booking.end_time, "h:mm a")}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
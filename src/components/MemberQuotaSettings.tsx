@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Member, fetchMembers, setMemberGroup } from "@/services/memberService";
+import {
+  QuotaLimits,
+  QuotaOverride,
+  deleteQuotaOverride,
+  fetchQuotaOverrides,
+  fetchQuotaRules,
+  saveQuotaOverride,
+} from "@/services/quotaService";
+import { QuotaLimitFields } from "./QuotaSettings";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserCog } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const NO_GROUP = "none";
+
+const EMPTY_OVERRIDE: QuotaLimits & { note: string | null } = {
+  max_hours_per_week: null,
+  max_hours_per_month: null,
+  max_future_bookings: null,
+  max_pending_requests: null,
+  note: null,
+};
+
+export function MemberQuotaSettings() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [overrides, setOverrides] = useState<QuotaOverride[]>([]);
+  const [groups, setGroups] = useState<string[]>([]);
+  const [memberId, setMemberId] = useState("");
+  const [group, setGroup] = useState(NO_GROUP);
+  const [hasOverride, setHasOverride] = useState(false);
+  const [override, setOverride] = useState(EMPTY_OVERRIDE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadMembers = () => {
+    fetchMembers().then(({ data }) =>
+      setMembers((data || []).filter((m) => m.role !== "admin")),
+    );
+    fetchQuotaOverrides().then(({ data }) => setOverrides(data || []));
+  };
+
+  useEffect(() => {
+    loadMembers();
+    // Members can only join groups that have a quota
+    fetchQuotaRules().then(({ data }) =>
+      setGroups(
+        (data || [])
+          .map((rule) => rule.member_group)
+          .filter((name): name is string => !!name),
+      ),
+    );
+  }, []);
+
+  // Load the selected member's group and override into the form
+  const selectMember = (id: string) => {
+    const member = members.find((m) => m.id === id);
+    const existing = overrides.find((o) => o.user_id === id);
+    setMemberId(id);
+    setGroup(member?.member_group ?? NO_GROUP);
+    setHasOverride(!!existing);
+    setOverride(existing ?? EMPTY_OVERRIDE);
+  };
+
+  const handleSave = async () => {
+    const member = members.find((m) => m.id === memberId);
+    if (!member) return;
+
+    setIsSaving(true);
+    const nextGroup = group === NO_GROUP ? null : group;
+    const results = await Promise.all([
+      nextGroup !== member.member_group
+        ? setMemberGroup(member.id, nextGroup)
+        : null,
+      hasOverride
+        ? saveQuotaOverride({ ...override, user_id: member.id })
+        : overrides.some((o) => o.user_id === member.id)
+          ? deleteQuotaOverride(member.id)
+          : null,
+    ]);
+    setIsSaving(false);
+
+    const error = results.find((result) => result?.error)?.error;
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Member Updated",
+      description: `${member.name}'s quota applies to new bookings right away`,
+    });
+    loadMembers();
+  };
+
+  const memberName = (id: string) =>
+    members.find((m) => m.id === id)?.name ?? "Unknown member";
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <UserCog className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Member Quotas</h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Put members in a group, or give them their own limits instead of their
+        group's quota.
+      </p>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Member</Label>
+        <Select value={memberId} onValueChange={selectMember}>
+          <SelectTrigger className="bg-secondary border-border">
+            <SelectValue placeholder="Select a member" />
+          </SelectTrigger>
+          <SelectContent>
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name} ({member.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {memberId && (
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Group</Label>
+            <Select value={group} onValueChange={setGroup}>
+              <SelectTrigger className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_GROUP}>No group</SelectItem>
+                {groups.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="member-override" className="text-sm">
+              Custom limits for this member
+            </Label>
+            <Switch
+              id="member-override"
+              checked={hasOverride}
+              onCheckedChange={setHasOverride}
+            />
+          </div>
+
+          {hasOverride && (
+            <>
+              <QuotaLimitFields
+                id="member-override"
+                value={override}
+                onChange={(limits) => setOverride({ ...override, ...limits })}
+              />
+              <Input
+                placeholder="Note, e.g. resident artist until June"
+                value={override.note ?? ""}
+                maxLength={500}
+                onChange={(e) =>
+                  setOverride({ ...override, note: e.target.value || null })
+                }
+                className="bg-secondary border-border"
+              />
+            </>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Members with their own limits */}
+      {overrides.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium text-muted-foreground">
+            Members with custom limits
+          </h3>
+          <ul className="rounded-md border border-border divide-y divide-border">
+            {overrides.map((o) => (
+              <li key={o.user_id}>
+                <button
+                  type="button"
+                  onClick={() => selectMember(o.user_id)}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-secondary/50"
+                >
+                  {memberName(o.user_id)}
+                  {o.note && (
+                    <span className="block text-xs text-muted-foreground">
+                      {o.note}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import { useAuth } from "@/context/AuthContext";
+import { Can } from "@/components/Can";
+import { UserAvatar } from "@/components/UserAvatar";
+import { NotificationBell } from "@/components/NotificationBell";
 import { Button } from "@/components/ui/button";
 import { useNavigate, useLocation } from "react-router-dom";
 import { LogOut, LayoutDashboard, Shield, Music } from "lucide-react";
@@ -37,16 +40,18 @@ export function Navbar() {
 
         {isAuthenticated && user && (
           <div className="flex items-center gap-3">
-            {user.role === "admin" && location.pathname !== "/admin" && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => navigate("/admin")}
-                className="text-muted-foreground hover:text-foreground"
-              >
-                <Shield className="w-4 h-4 mr-2" />
-                Admin Panel
-              </Button>
+            {location.pathname !== "/admin" && (
+              <Can permission="bookings:approve">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate("/admin")}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <Shield className="w-4 h-4 mr-2" />
+                  Admin Panel
+                </Button>
+              </Can>
             )}
             {location.pathname !== "/dashboard" && (
               <Button
@@ -60,9 +65,16 @@ export function Navbar() {
               </Button>
             )}
             <div className="h-4 w-px bg-border mx-1" />
-            <span className="text-sm text-muted-foreground hidden sm:block">
-              {user.name}
-            </span>
+            <NotificationBell userId={user.id} />
+            <button
+              type="button"
+              onClick={() => navigate("/settings")}
+              title="Settings"
+              className="flex items-center gap-2 rounded-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <UserAvatar name={user.name} avatarUrl={user.avatar_url} />
+              <span className="hidden sm:block">{user.name}</span>
+            </button>
             <Button
               variant="ghost"
               size="icon"
@@ -0,0 +1,180 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  Bell,
+  CalendarClock,
+  CheckCircle,
+  Pencil,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  useMarkNotificationsRead,
+  useNotificationsQuery,
+  useNotificationsRealtime,
+  useUnreadNotificationCountQuery,
+} from "@/hooks/use-notifications";
+import type {
+  NotificationType,
+  UserNotification,
+} from "@/services/notificationService";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+const NOTIFICATION_DISPLAY: Record<
+  NotificationType,
+  { title: string; remarksLabel?: string; icon: typeof Bell; className: string }
+> = {
+  booking_approved: {
+    title: "Your booking was approved",
+    remarksLabel: "Admin note",
+    icon: CheckCircle,
+    className: "text-success",
+  },
+  booking_rejected: {
+    title: "Your booking was rejected",
+    remarksLabel: "Reason for rejection",
+    icon: XCircle,
+    className: "text-destructive",
+  },
+  booking_edited: {
+    title: "An admin changed your booking",
+    icon: Pencil,
+    className: "text-primary",
+  },
+  booking_cancelled: {
+    title: "An admin cancelled your booking",
+    remarksLabel: "Reason for cancellation",
+    icon: Trash2,
+    className: "text-destructive",
+  },
+  booking_reminder: {
+    title: "Your session is coming up",
+    icon: CalendarClock,
+    className: "text-primary",
+  },
+};
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const { data: notifications = [] } = useNotificationsQuery(userId);
+  const { data: unreadCount = 0 } = useUnreadNotificationCountQuery(userId);
+  const markRead = useMarkNotificationsRead(userId);
+  useNotificationsRealtime(userId);
+
+  // When and where the booking takes place
+  const describeBooking = ({ data }: UserNotification) =>
+    [
+      data.start_time &&
+        `${formatInStudio(data.start_time, "MMM d, h:mm a")} - ${formatInStudio(data.end_time, "h:mm a")}`,
+      data.resource_id && getResource(data.resource_id)?.name,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Notifications"
+          className="relative text-muted-foreground hover:text-foreground"
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] font-medium leading-4 text-primary-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h4 className="font-medium text-sm">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-muted-foreground"
+              onClick={() => markRead.mutate(undefined)}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto divide-y divide-border">
+          {notifications.length === 0 ? (
+            <div className="p-6 text-center text-sm text-muted-foreground">
+              <Bell className="w-8 h-8 mx-auto mb-2" />
+              No notifications yet
+            </div>
+          ) : (
+            notifications.map((notification) => {
+              const display = NOTIFICATION_DISPLAY[notification.type];
+              const Icon = display.icon;
+              const { remarks } = notification.data;
+
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() =>
+                    !notification.read_at && markRead.mutate([notification.id])
+                  }
+                  className={cn(
+                    "w-full flex gap-3 px-4 py-3 text-left hover:bg-secondary/50 transition-colors",
+                    !notification.read_at && "bg-primary/5",
+                  )}
+                >
+                  <Icon
+                    className={cn("w-4 h-4 mt-0.5 shrink-0", display.className)}
+                  />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className="text-sm font-medium text-foreground">
+                      {display.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {notification.data.reason}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeBooking(notification)}
+                    </p>
+                    {remarks && display.remarksLabel && (
+                      <p className="text-xs text-muted-foreground">
+                        <span className="font-medium">
+                          {display.remarksLabel}:
+                        </span>{" "}
+                        {remarks}
+                      </p>
+                    )}
+                    <p className="text-[11px] text-muted-foreground/70">
+                      {formatDistanceToNow(new Date(notification.created_at), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />
+                  )}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
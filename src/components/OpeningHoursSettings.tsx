@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useSettings, OpeningHours } from "@/context/SettingsContext";
+import {
+  saveOpeningHours,
+  saveStudioTimezone,
+} from "@/services/scheduleService";
+import { listTimeZones } from "@/lib/studioTime";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Clock } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const TIME_ZONES = listTimeZones();
+
+export function OpeningHoursSettings() {
+  const { schedule, refreshSettings } = useSettings();
+  const [hours, setHours] = useState<OpeningHours[]>([]);
+  const [timezone, setTimezone] = useState(schedule.timezone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Editable copy of the opening hours, Monday first
+  useEffect(() => {
+    setHours(
+      [...schedule.hours]
+        .sort((a, b) => ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7))
+        .map((day) => ({
+          ...day,
+          open_time: day.open_time.slice(0, 5),
+          close_time: day.close_time.slice(0, 5),
+        })),
+    );
+    setTimezone(schedule.timezone);
+  }, [schedule]);
+
+  const updateDay = (weekday: number, changes: Partial<OpeningHours>) => {
+    setHours((prev) =>
+      prev.map((day) =>
+        day.weekday === weekday ? { ...day, ...changes } : day,
+      ),
+    );
+  };
+
+  const handleSave = async () => {
+    const invalidDay = hours.find(
+      (day) => day.is_open && day.close_time <= day.open_time,
+    );
+    if (invalidDay) {
+      toast({
+        title: "Invalid Opening Hours",
+        description: `${WEEKDAYS[invalidDay.weekday]} must close after it opens`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const results = await Promise.all([
+      saveOpeningHours(hours),
+      timezone !== schedule.timezone ? saveStudioTimezone(timezone) : null,
+    ]);
+    setIsSaving(false);
+
+    const error = results.find((result) => result?.error)?.error;
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    await refreshSettings();
+    toast({
+      title: "Opening Hours Saved",
+      description: "The booking grid has been updated",
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <Clock className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Opening Hours</h2>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Studio timezone</Label>
+        <Select value={timezone} onValueChange={setTimezone}>
+          <SelectTrigger className="bg-secondary border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(TIME_ZONES.includes(timezone)
+              ? TIME_ZONES
+              : [timezone, ...TIME_ZONES]
+            ).map((zone) => (
+              <SelectItem key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Opening hours, bookings and emails use this timezone, wherever members
+          book from.
+        </p>
+      </div>
+
+      <div className="divide-y divide-border">
+        {hours.map((day) => (
+          <div
+            key={day.weekday}
+            className="flex flex-wrap items-center gap-3 py-2"
+          >
+            <Switch
+              checked={day.is_open}
+              onCheckedChange={(checked) =>
+                updateDay(day.weekday, { is_open: checked })
+              }
+            />
+            <span
+              className={cn(
+                "w-24 text-sm font-medium",
+                !day.is_open && "text-muted-foreground",
+              )}
+            >
+              {WEEKDAYS[day.weekday]}
+            </span>
+            {day.is_open ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={day.open_time}
+                  onChange={(e) =>
+                    updateDay(day.weekday, { open_time: e.target.value })
+                  }
+                  className="w-32 bg-secondary border-border"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  value={day.close_time}
+                  onChange={(e) =>
+                    updateDay(day.weekday, { close_time: e.target.value })
+                  }
+                  className="w-32 bg-secondary border-border"
+                />
+              </div>
+            ) : (
+              <span className="text-sm text-muted-foreground">Closed</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          {isSaving ? "Saving..." : "Save Opening Hours"}
+        </Button>
+      </div>
+    </div>
+  );
+}
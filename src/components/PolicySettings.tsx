@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useSettings, BookingPolicy } from "@/context/SettingsContext";
+import { saveBookingPolicy } from "@/services/policyService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export function PolicySettings() {
+  const { policy, refreshSettings } = useSettings();
+  const [draft, setDraft] = useState<BookingPolicy>(policy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await saveBookingPolicy(draft);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Policy Saved",
+      description: "The new rules apply to all bookings right away",
+    });
+    refreshSettings();
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">
+          Cancellation & Changes
+        </h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        These rules apply to users, admins can always change or cancel bookings.
+        Use 0 hours to allow an action at any time.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label
+            htmlFor="cancel-cutoff"
+            className="text-xs text-muted-foreground"
+          >
+            Cancel approved bookings until (hours before)
+          </Label>
+          <Input
+            id="cancel-cutoff"
+            type="number"
+            min={0}
+            value={draft.cancel_cutoff_hours}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                cancel_cutoff_hours: Math.max(Number(e.target.value), 0),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label
+            htmlFor="edit-cutoff"
+            className="text-xs text-muted-foreground"
+          >
+            Edit bookings until (hours before)
+          </Label>
+          <Input
+            id="edit-cutoff"
+            type="number"
+            min={0}
+            value={draft.edit_cutoff_hours}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                edit_cutoff_hours: Math.max(Number(e.target.value), 0),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label
+            htmlFor="max-reschedules"
+            className="text-xs text-muted-foreground"
+          >
+            Reschedules per booking (empty = unlimited)
+          </Label>
+          <Input
+            id="max-reschedules"
+            type="number"
+            min={0}
+            value={draft.max_reschedules ?? ""}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                max_reschedules:
+                  e.target.value === ""
+                    ? null
+                    : Math.max(Number(e.target.value), 0),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="reapprove" className="text-sm">
+          Edits to approved bookings need approval again
+        </Label>
+        <Switch
+          id="reapprove"
+          checked={draft.reapprove_after_edit}
+          onCheckedChange={(checked) =>
+            setDraft({ ...draft, reapprove_after_edit: checked })
+          }
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
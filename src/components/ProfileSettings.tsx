@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  fetchProfile,
+  updateProfile,
+  uploadAvatar,
+} from "@/services/profileService";
+import { UserAvatar } from "./UserAvatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Camera, UserRound } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const NOTIFICATION_OPTIONS: {
+  key: keyof NotificationPreferences;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "booking_updates",
+    label: "Booking updates",
+    description: "When your requests are approved, rejected or cancelled",
+  },
+  {
+    key: "waitlist_offers",
+    label: "Waitlist offers",
+    description: "When a slot you are waiting for becomes available",
+  },
+  {
+    key: "reminder_email",
+    label: "Session reminders by email",
+    description: "Before your approved sessions start",
+  },
+  {
+    key: "reminder_in_app",
+    label: "Session reminders in the app",
+    description: "Shown under the bell in the navigation bar",
+  },
+];
+
+export function ProfileSettings() {
+  const { user, refreshUser } = useAuth();
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState(
+    DEFAULT_NOTIFICATION_PREFERENCES,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    fetchProfile(userId).then(({ data }) => {
+      if (!data) return;
+      setName(data.name);
+      setPhone(data.phone ?? "");
+      setAvatarUrl(data.avatar_url);
+      setNotifications(data.notification_preferences);
+    });
+  }, [userId]);
+
+  if (!user) return null;
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    const { data: url, error } = await uploadAvatar(user.id, file);
+    const saved = url
+      ? await updateProfile(user.id, { avatar_url: url })
+      : { error };
+    setIsUploading(false);
+
+    if (saved.error || !url) {
+      toast({
+        title: "Error",
+        description: saved.error ?? "Failed to upload your avatar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAvatarUrl(url);
+    refreshUser();
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await updateProfile(user.id, {
+      name: name.trim(),
+      phone: phone.trim() || null,
+      notification_preferences: notifications,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Profile Saved",
+      description: "Your bookings show your new details",
+    });
+    refreshUser();
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <UserRound className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Profile</h2>
+      </div>
+
+      {/* Avatar */}
+      <div className="flex items-center gap-4">
+        <UserAvatar
+          name={user.name}
+          avatarUrl={avatarUrl}
+          className="h-16 w-16 text-lg"
+        />
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleAvatarChange}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={isUploading}
+          >
+            <Camera className="w-4 h-4 mr-1" />
+            {isUploading ? "Uploading..." : "Change Avatar"}
+          </Button>
+          <p className="text-xs text-muted-foreground mt-1">
+            JPG, PNG or GIF, at most 2 MB
+          </p>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label
+            htmlFor="profile-name"
+            className="text-xs text-muted-foreground"
+          >
+            Name
+          </Label>
+          <Input
+            id="profile-name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label
+            htmlFor="profile-phone"
+            className="text-xs text-muted-foreground"
+          >
+            Phone
+          </Label>
+          <Input
+            id="profile-phone"
+            type="tel"
+            placeholder="Optional"
+            value={phone}
+            maxLength={32}
+            onChange={(e) => setPhone(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* Notifications */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Notifications</h3>
+        {NOTIFICATION_OPTIONS.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <Label htmlFor={`notify-${key}`} className="space-y-0.5">
+              <span className="block text-sm">{label}</span>
+              <span className="block text-xs font-normal text-muted-foreground">
+                {description}
+              </span>
+            </Label>
+            <Switch
+              id={`notify-${key}`}
+              checked={notifications[key]}
+              onCheckedChange={(checked) =>
+                setNotifications({ ...notifications, [key]: checked })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          {isSaving ? "Saving..." : "Save Profile"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { ReactNode } from "react";
+import { Location, Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { hasPermission, homePath, Permission } from "@/lib/permissions";
+import { Loader2 } from "lucide-react";
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  permission?: Permission;
+}
+
+// Shown while the session is restored, instead of redirecting too early
+function AuthLoading() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <Loader2 className="w-8 h-8 animate-spin text-primary" />
+    </div>
+  );
+}
+
+/**
+ * Renders its children for signed in users with the permission
+ *
+ * Signed out users go to the sign-in page, which sends them back here
+ * afterwards. Users without the permission go to their home page.
+ */
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) return <AuthLoading />;
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (permission && !hasPermission(user, permission)) {
+    return <Navigate to={homePath(user)} replace />;
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Renders its children for signed out users only
+ *
+ * Signed in users go back to the page that sent them to sign in, or to
+ * their home page.
+ */
+export function GuestRoute({ children }: { children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) return <AuthLoading />;
+
+  if (user) {
+    const from = (location.state as { from?: Location } | null)?.from;
+    return (
+      <Navigate
+        to={from ? `${from.pathname}${from.search}` : homePath(user)}
+        replace
+      />
+    );
+  }
+
+  return <>{children}</>;
+}
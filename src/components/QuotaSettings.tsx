@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import {
+  QuotaLimits,
+  QuotaRule,
+  deleteQuotaRule,
+  fetchQuotaRules,
+  saveQuotaRule,
+} from "@/services/quotaService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gauge, Plus, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const LIMIT_FIELDS: { key: keyof QuotaLimits; label: string }[] = [
+  { key: "max_hours_per_week", label: "Hours per week" },
+  { key: "max_hours_per_month", label: "Hours per month" },
+  { key: "max_future_bookings", label: "Upcoming bookings" },
+  { key: "max_pending_requests", label: "Pending requests" },
+];
+
+const UNLIMITED: QuotaLimits = {
+  max_hours_per_week: null,
+  max_hours_per_month: null,
+  max_future_bookings: null,
+  max_pending_requests: null,
+};
+
+interface QuotaLimitFieldsProps {
+  id: string;
+  value: QuotaLimits;
+  onChange: (value: QuotaLimits) => void;
+}
+
+export function QuotaLimitFields({
+  id,
+  value,
+  onChange,
+}: QuotaLimitFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {LIMIT_FIELDS.map(({ key, label }) => (
+        <div key={key} className="space-y-1">
+          <Label
+            htmlFor={`${id}-${key}`}
+            className="text-xs text-muted-foreground"
+          >
+            {label}
+          </Label>
+          <Input
+            id={`${id}-${key}`}
+            type="number"
+            min={0}
+            placeholder="Unlimited"
+            value={value[key] ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                [key]:
+                  e.target.value === ""
+                    ? null
+                    : Math.max(Number(e.target.value), 0),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Heading of a quota, e.g. "All users" or "Group: students"
+const describeRule = (rule: QuotaRule) => {
+  if (rule.role === "user") return "All users";
+  if (rule.role === "admin") return "Admins";
+  return `Group: ${rule.member_group}`;
+};
+
+export function QuotaSettings() {
+  const [rules, setRules] = useState<QuotaRule[]>([]);
+  const [newGroup, setNewGroup] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadRules = () => {
+    fetchQuotaRules().then(({ data }) => setRules(data || []));
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const updateDraft = (id: string, limits: QuotaLimits) => {
+    setRules((current) =>
+      current.map((rule) => (rule.id === id ? { ...rule, ...limits } : rule)),
+    );
+  };
+
+  const handleSave = async (rule: QuotaRule) => {
+    setSavingId(rule.id);
+    const { error } = await saveQuotaRule(rule);
+    setSavingId(null);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Quota Saved",
+      description: `${describeRule(rule)} applies to new bookings right away`,
+    });
+  };
+
+  const handleDelete = async (rule: QuotaRule) => {
+    const { error } = await deleteQuotaRule(rule.id);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Quota Removed",
+      description: `${describeRule(rule)} no longer has limits`,
+    });
+    loadRules();
+  };
+
+  const handleAdd = async (
+    target: Pick<QuotaRule, "role" | "member_group">,
+  ) => {
+    const { error } = await saveQuotaRule({ ...UNLIMITED, ...target });
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    setNewGroup("");
+    loadRules();
+  };
+
+  const hasUserQuota = rules.some((rule) => rule.role === "user");
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">Booking Quotas</h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Fair-use limits for pending and approved bookings. Group quotas replace
+        the quota of all users for members of the group, admins are not limited.
+        Leave a field empty for no limit.
+      </p>
+
+      <div className="divide-y divide-border">
+        {rules.map((rule) => (
+          <div key={rule.id} className="py-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-medium">{describeRule(rule)}</h3>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleSave(rule)}
+                  disabled={savingId === rule.id}
+                >
+                  {savingId === rule.id ? "Saving..." : "Save"}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  title="Remove quota"
+                  onClick={() => handleDelete(rule)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <QuotaLimitFields
+              id={rule.id}
+              value={rule}
+              onChange={(limits) => updateDraft(rule.id, limits)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Input
+          placeholder="New group, e.g. students"
+          value={newGroup}
+          onChange={(e) => setNewGroup(e.target.value)}
+          className="bg-secondary border-border flex-1 min-w-[160px]"
+        />
+        <Button
+          variant="outline"
+          disabled={!newGroup.trim()}
+          onClick={() =>
+            handleAdd({ role: null, member_group: newGroup.trim() })
+          }
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Group
+        </Button>
+        {!hasUserQuota && (
+          <Button
+            variant="outline"
+            onClick={() => handleAdd({ role: "user", member_group: null })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Quota for All Users
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
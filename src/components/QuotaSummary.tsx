@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useBookingsQuery } from "@/hooks/use-booking-queries";
+import { QuotaStatus, fetchMyQuota } from "@/services/quotaService";
+import { Progress } from "@/components/ui/progress";
+import { Gauge } from "lucide-react";
+
+// Hours are shown with at most one decimal
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+export function QuotaSummary() {
+  const { user } = useAuth();
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  const isAdmin = user?.role === "admin";
+  const { dataUpdatedAt } = useBookingsQuery(
+    { userId: user?.id },
+    { enabled: !!user && !isAdmin },
+  );
+
+  // Usage changes with every booking, reload when the bookings do
+  useEffect(() => {
+    if (!user || isAdmin) return;
+    fetchMyQuota().then(({ data }) => setQuota(data));
+  }, [user, isAdmin, dataUpdatedAt]);
+
+  // Admins have no limits, and neither do users without a quota
+  if (isAdmin || !quota || !quota.source) return null;
+
+  const rows = [
+    {
+      label: "Hours this week",
+      used: quota.hours_this_week,
+      limit: quota.max_hours_per_week,
+      format: formatHours,
+    },
+    {
+      label: "Hours this month",
+      used: quota.hours_this_month,
+      limit: quota.max_hours_per_month,
+      format: formatHours,
+    },
+    {
+      label: "Upcoming bookings",
+      used: quota.future_bookings,
+      limit: quota.max_future_bookings,
+      format: String,
+    },
+    {
+      label: "Requests awaiting approval",
+      used: quota.pending_requests,
+      limit: quota.max_pending_requests,
+      format: String,
+    },
+  ];
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">
+          Your Booking Allowance
+        </h2>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-4">
+        {rows.map(({ label, used, limit, format }) => (
+          <div key={label} className="space-y-1.5">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="font-medium">
+                {limit === null
+                  ? `${format(used)} · Unlimited`
+                  : `${format(Math.max(limit - used, 0))} left of ${format(limit)}`}
+              </span>
+            </div>
+            {limit !== null && (
+              <Progress
+                value={limit > 0 ? Math.min((used / limit) * 100, 100) : 100}
+                className="h-2"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { RecurrenceRule, MAX_OCCURRENCES } from "@/lib/recurrence";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Repeat options offered to users, mapped to recurrence rules
+const PRESETS: Record<string, Omit<RecurrenceRule, "until" | "count">> = {
+  weekly: { frequency: "weekly", interval: 1 },
+  biweekly: { frequency: "weekly", interval: 2 },
+  monthly: { frequency: "monthly", interval: 1 },
+};
+
+const NO_REPEAT = "none";
+const DEFAULT_COUNT = 8;
+
+interface RecurrenceOptionsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+export function RecurrenceOptions({ value, onChange }: RecurrenceOptionsProps) {
+  const preset = value
+    ? Object.keys(PRESETS).find(
+        (key) =>
+          PRESETS[key].frequency === value.frequency &&
+          PRESETS[key].interval === value.interval,
+      )
+    : NO_REPEAT;
+  const endsOn = value?.until ? "until" : "count";
+
+  const handlePresetChange = (key: string) => {
+    if (key === NO_REPEAT) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      ...PRESETS[key],
+      count: value?.until ? null : value?.count || DEFAULT_COUNT,
+      until: value?.until || null,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Repeat</Label>
+        <Select value={preset} onValueChange={handlePresetChange}>
+          <SelectTrigger className="bg-secondary border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+            <SelectItem value="weekly">Every week</SelectItem>
+            <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+            <SelectItem value="monthly">Every month</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            value={endsOn}
+            onValueChange={(ends) =>
+              onChange(
+                ends === "until"
+                  ? { ...value, count: null, until: value.until || "" }
+                  : { ...value, until: null, count: DEFAULT_COUNT },
+              )
+            }
+          >
+            <SelectTrigger className="bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">Ends after</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+            </SelectContent>
+          </Select>
+          {endsOn === "count" ? (
+            <div className="relative">
+              <Input
+                type="number"
+                min={2}
+                max={MAX_OCCURRENCES}
+                value={value.count ?? ""}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: Math.min(Number(e.target.value), MAX_OCCURRENCES),
+                  })
+                }
+                className="bg-secondary border-border pr-20"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                sessions
+              </span>
+            </div>
+          ) : (
+            <Input
+              type="date"
+              value={value.until ?? ""}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              className="bg-secondary border-border"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import {
+  fetchReminderOffsets,
+  saveReminderOffsets,
+} from "@/services/scheduleService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BellRing, Plus, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+// Minutes per unit the offsets can be entered in
+const UNITS = { hours: 60, minutes: 1 };
+
+// 1440 -> "24 hours before", 90 -> "90 minutes before"
+const describeOffset = (minutes: number) =>
+  minutes % 60 === 0
+    ? `${minutes / 60} ${minutes === 60 ? "hour" : "hours"} before`
+    : `${minutes} ${minutes === 1 ? "minute" : "minutes"} before`;
+
+export function ReminderSettings() {
+  const [offsets, setOffsets] = useState<number[]>([]);
+  const [amount, setAmount] = useState("");
+  const [unit, setUnit] = useState<keyof typeof UNITS>("hours");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchReminderOffsets().then(({ data }) => setOffsets(data || []));
+  }, []);
+
+  const handleAdd = () => {
+    const minutes = Math.round(Number(amount) * UNITS[unit]);
+    if (!(minutes > 0) || offsets.includes(minutes)) return;
+
+    setOffsets([...offsets, minutes].sort((a, b) => b - a));
+    setAmount("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await saveReminderOffsets(offsets);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Reminders Saved",
+      description: offsets.length
+        ? "Upcoming sessions are reminded at the new times"
+        : "Members no longer get reminders",
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-4">
+      <div className="flex items-center gap-2">
+        <BellRing className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">
+          Session Reminders
+        </h2>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Members are reminded of their approved sessions by email and in the app,
+        unless they turned reminders off in their settings.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {offsets.length === 0 && (
+          <span className="text-sm text-muted-foreground">No reminders</span>
+        )}
+        {offsets.map((minutes) => (
+          <span
+            key={minutes}
+            className="flex items-center gap-1 rounded-full bg-secondary px-3 py-1 text-sm"
+          >
+            {describeOffset(minutes)}
+            <button
+              type="button"
+              title="Remove"
+              onClick={() => setOffsets(offsets.filter((m) => m !== minutes))}
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label
+            htmlFor="reminder-amount"
+            className="text-xs text-muted-foreground"
+          >
+            Remind before the session starts
+          </Label>
+          <Input
+            id="reminder-amount"
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+        <Select
+          value={unit}
+          onValueChange={(value) => setUnit(value as keyof typeof UNITS)}
+        >
+          <SelectTrigger className="w-28 bg-secondary border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hours">Hours</SelectItem>
+            <SelectItem value="minutes">Minutes</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="icon" variant="outline" onClick={handleAdd} title="Add">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
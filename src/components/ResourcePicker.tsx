@@ -0,0 +1,46 @@
+import { useBookings } from "@/context/BookingContext";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+// Value used by the picker for "no resource filter"
+export const ALL_RESOURCES = "all";
+
+interface ResourcePickerProps {
+  value: string;
+  onChange: (resourceId: string) => void;
+  allowAll?: boolean;
+  className?: string;
+}
+
+export function ResourcePicker({
+  value,
+  onChange,
+  allowAll = false,
+  className,
+}: ResourcePickerProps) {
+  const { resources } = useBookings();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={cn("bg-secondary border-border", className)}>
+        <SelectValue placeholder="Select a room" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && (
+          <SelectItem value={ALL_RESOURCES}>All resources</SelectItem>
+        )}
+        {resources.map((resource) => (
+          <SelectItem key={resource.id} value={resource.id}>
+            {resource.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,42 @@
+import { SeriesScope } from "@/context/BookingContext";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+
+interface SeriesScopeOptionsProps {
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+  action: "edit" | "cancel";
+}
+
+export function SeriesScopeOptions({
+  value,
+  onChange,
+  action,
+}: SeriesScopeOptionsProps) {
+  const verb = action === "edit" ? "Change" : "Cancel";
+  const options: { scope: SeriesScope; label: string }[] = [
+    { scope: "occurrence", label: `${verb} this session only` },
+    { scope: "following", label: `${verb} this and following sessions` },
+    { scope: "series", label: `${verb} all sessions of the series` },
+  ];
+
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(scope) => onChange(scope as SeriesScope)}
+      className="gap-2"
+    >
+      {options.map(({ scope, label }) => (
+        <div key={scope} className="flex items-center gap-2">
+          <RadioGroupItem value={scope} id={`scope-${action}-${scope}`} />
+          <Label
+            htmlFor={`scope-${action}-${scope}`}
+            className="text-sm font-normal"
+          >
+            {label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useSettings, ScheduleSettings } from "@/context/SettingsContext";
+import { useBookings } from "@/context/BookingContext";
+import {
+  saveScheduleSettings,
+  deleteScheduleSettings,
+} from "@/services/scheduleService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Timer, Plus, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const SLOT_LENGTHS = [15, 30, 60];
+
+interface SlotSettingsRowProps {
+  title: string;
+  settings: ScheduleSettings;
+  onSaved: () => void;
+}
+
+function SlotSettingsRow({ title, settings, onSaved }: SlotSettingsRowProps) {
+  const [draft, setDraft] = useState<ScheduleSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = async () => {
+    if (draft.min_duration_minutes > draft.max_duration_minutes) {
+      toast({
+        title: "Invalid Durations",
+        description: "The minimum duration cannot exceed the maximum",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (draft.min_duration_minutes % draft.slot_minutes !== 0) {
+      toast({
+        title: "Invalid Durations",
+        description:
+          "The minimum duration must be a multiple of the slot length",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await saveScheduleSettings(draft);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Slot Settings Saved", description: title });
+    onSaved();
+  };
+
+  const handleRemove = async () => {
+    const { error } = await deleteScheduleSettings(settings.id);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        {settings.resource_id && settings.id && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+            onClick={handleRemove}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Slot length</Label>
+          <Select
+            value={String(draft.slot_minutes)}
+            onValueChange={(value) =>
+              setDraft({ ...draft, slot_minutes: Number(value) })
+            }
+          >
+            <SelectTrigger className="bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOT_LENGTHS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} min
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Min (min)</Label>
+          <Input
+            type="number"
+            min={draft.slot_minutes}
+            step={draft.slot_minutes}
+            value={draft.min_duration_minutes}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                min_duration_minutes: Number(e.target.value),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Max (min)</Label>
+          <Input
+            type="number"
+            min={draft.slot_minutes}
+            step={draft.slot_minutes}
+            value={draft.max_duration_minutes}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                max_duration_minutes: Number(e.target.value),
+              })
+            }
+            className="bg-secondary border-border"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function SlotSettings() {
+  const { schedule, getScheduleSettings, refreshSettings } = useSettings();
+  const { resources, getResource } = useBookings();
+  const [newResourceId, setNewResourceId] = useState<string>("");
+
+  const defaultSettings = getScheduleSettings(null);
+  const overrides = schedule.settings.filter((s) => s.resource_id !== null);
+  const availableResources = resources.filter(
+    (r) => !overrides.some((s) => s.resource_id === r.id),
+  );
+
+  // Start a resource override from the studio default
+  const handleAddOverride = async () => {
+    if (!newResourceId) return;
+    const { error } = await saveScheduleSettings({
+      resource_id: newResourceId,
+      slot_minutes: defaultSettings.slot_minutes,
+      min_duration_minutes: defaultSettings.min_duration_minutes,
+      max_duration_minutes: defaultSettings.max_duration_minutes,
+    });
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    setNewResourceId("");
+    refreshSettings();
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-2">
+      <div className="flex items-center gap-2">
+        <Timer className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">
+          Slots & Durations
+        </h2>
+      </div>
+
+      <div className="divide-y divide-border">
+        <SlotSettingsRow
+          title="Studio default"
+          settings={defaultSettings}
+          onSaved={refreshSettings}
+        />
+        {overrides.map((settings) => (
+          <SlotSettingsRow
+            key={settings.id}
+            title={getResource(settings.resource_id)?.name ?? "Resource"}
+            settings={settings}
+            onSaved={refreshSettings}
+          />
+        ))}
+      </div>
+
+      {availableResources.length > 0 && (
+        <div className="flex items-center gap-2 pt-2">
+          <Select value={newResourceId} onValueChange={setNewResourceId}>
+            <SelectTrigger className="bg-secondary border-border">
+              <SelectValue placeholder="Override for a room..." />
+            </SelectTrigger>
+            <SelectContent>
+              {availableResources.map((resource) => (
+                <SelectItem key={resource.id} value={resource.id}>
+                  {resource.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleAddOverride}
+            disabled={!newResourceId}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
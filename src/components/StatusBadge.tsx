@@ -14,12 +14,14 @@ export function StatusBadge({ status, className }: StatusBadgeProps) {
       "bg-success/20 text-success border-success/30 hover:bg-success/30",
     rejected:
       "bg-destructive/20 text-destructive border-destructive/30 hover:bg-destructive/30",
+    cancelled: "bg-muted text-muted-foreground border-border hover:bg-muted/80",
   };
 
   const labels = {
     pending: "Pending",
     approved: "Approved",
     rejected: "Rejected",
+    cancelled: "Cancelled",
   };
 
   return (
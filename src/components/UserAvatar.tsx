@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  name: string;
+  avatarUrl: string | null;
+  className?: string;
+}
+
+// Initials shown while there's no avatar, e.g. "JD" for John Doe
+const initialsOf = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+export function UserAvatar({ name, avatarUrl, className }: UserAvatarProps) {
+  return (
+    <Avatar className={cn("h-8 w-8", className)}>
+      {avatarUrl && <AvatarImage src={avatarUrl} alt={name} />}
+      <AvatarFallback className="bg-secondary text-xs">
+        {initialsOf(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
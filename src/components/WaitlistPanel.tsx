@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/context/AuthContext";
+import { useBookings } from "@/context/BookingContext";
+import { useSettings } from "@/context/SettingsContext";
+import {
+  WaitlistEntry,
+  claimWaitlistOffer,
+  fetchUserWaitlist,
+  leaveWaitlist,
+  subscribeToWaitlist,
+} from "@/services/waitlistService";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, Clock, Hourglass } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export function WaitlistPanel() {
+  const { user } = useAuth();
+  const { getResource } = useBookings();
+  const { formatInStudio } = useSettings();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(() => {
+    if (!user) return;
+    fetchUserWaitlist(user.id).then(({ data }) => setEntries(data || []));
+  }, [user]);
+
+  // Offers are made by the database, keep the list live
+  useEffect(() => {
+    loadEntries();
+    return subscribeToWaitlist(loadEntries);
+  }, [loadEntries]);
+
+  // Nothing to show until the user joins a waitlist
+  if (entries.length === 0) return null;
+
+  const handleClaim = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    const { error } = await claimWaitlistOffer(entry.id);
+    setBusyId(null);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      loadEntries();
+      return;
+    }
+
+    toast({
+      title: "Time Slot Claimed!",
+      description: "Your booking request is pending approval",
+    });
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    const { error } = await leaveWaitlist(entry.id);
+    setBusyId(null);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: entry.status === "offered" ? "Offer Declined" : "Left Waitlist",
+      description: "The time slot goes to the next person in line",
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border shadow-card overflow-hidden">
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <Hourglass className="w-5 h-5 text-primary" />
+        <h2 className="font-display text-lg font-semibold">My Waitlist</h2>
+      </div>
+      <div className="divide-y divide-border">
+        {entries.map((entry) => (
+          <div key={entry.id} className="p-4 animate-fade-in">
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div className="flex-1">
+                <h4 className="font-medium text-foreground">{entry.reason}</h4>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {getResource(entry.resource_id)?.name ?? "—"}
+                </p>
+              </div>
+              {entry.status === "offered" ? (
+                <Badge className="bg-success/20 text-success border-success/30">
+                  Available
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-muted-foreground">
+                  Waiting
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1.5">
+                <Calendar className="w-3.5 h-3.5" />
+                {formatInStudio(entry.start_time, "MMM d, yyyy")}
+              </span>
+              <span className="flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5" />
+                {formatInStudio(entry.start_time, "h:mm a")} -{" "}
+                {formatInStudio(entry.end_time, "h:mm a")}
+              </span>
+            </div>
+            {entry.status === "offered" && entry.offer_expires_at && (
+              <p className="mt-2 text-xs text-success">
+                This time is free again and held for you for{" "}
+                {formatDistanceToNow(new Date(entry.offer_expires_at))}.
+              </p>
+            )}
+            <div className="mt-3 flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busyId === entry.id}
+                onClick={() => handleLeave(entry)}
+              >
+                {entry.status === "offered" ? "Decline" : "Leave Waitlist"}
+              </Button>
+              {entry.status === "offered" && (
+                <Button
+                  size="sm"
+                  className="bg-gradient-primary hover:opacity-90"
+                  disabled={busyId === entry.id}
+                  onClick={() => handleClaim(entry)}
+                >
+                  Claim
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
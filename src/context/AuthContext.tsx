@@ -2,7 +2,9 @@
  * Authentication Context
  * 
  * This context provides authentication state and methods throughout the app.
- * It connects to Supabase Auth for real authentication.
+ * It connects to Supabase Auth for real authentication, including the
+ * flows that come back from email links (verification, magic link and
+ * password reset).
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
@@ -13,17 +15,21 @@ import {
   getUserProfile, 
   onAuthStateChange,
   getCurrentSession,
+  completeAuthRedirect,
+  Registration,
   UserProfile,
   UserRole
 } from '@/services/authService';
 
 // Re-export types for convenience
-export type { UserRole, UserProfile };
+export type { Registration, UserRole, UserProfile };
 
 interface AuthContextType {
   user: UserProfile | null;
   login: (email: string, password: string) => Promise<boolean>;
-  register: (email: string, password: string, name: string, role: UserRole) => Promise<boolean>;
+  register: (email: string, password: string, name: string) => Promise<Registration | null>;
+  completeRedirect: (url: string) => Promise<string | null>;
+  refreshUser: () => Promise<void>;
   logout: () => Promise<void>;
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -69,13 +75,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return false;
   };
 
-  const register = async (email: string, password: string, name: string, role: UserRole): Promise<boolean> => {
-    const { data, error } = await registerUser(email, password, name, role);
-    if (data && !error) {
-      setUser(data);
-      return true;
-    }
-    return false;
+  // Signs the new user in, unless their email has to be verified first
+  const register = async (email: string, password: string, name: string): Promise<Registration | null> => {
+    const { data, error } = await registerUser(email, password, name);
+    if (!data || error) return null;
+    if (data.user) setUser(data.user);
+    return data;
+  };
+
+  // Signs in with the session an email link set up, returns the error if any
+  const completeRedirect = async (url: string): Promise<string | null> => {
+    const { data, error } = await completeAuthRedirect(url);
+    setUser(data);
+    return error;
+  };
+
+  // Reloads the profile after the user edited it
+  const refreshUser = async () => {
+    const authUser = await getCurrentSession();
+    if (!authUser) return;
+    const { data } = await getUserProfile(authUser.id);
+    setUser(data);
   };
 
   const logout = async () => {
@@ -88,6 +108,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       user, 
       login, 
       register, 
+      completeRedirect,
+      refreshUser,
       logout, 
       isAuthenticated: !!user,
       isLoading
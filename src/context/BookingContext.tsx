@@ -1,8 +1,12 @@
 /**
  * Booking Context
  *
- * This context provides booking state and methods throughout the app.
- * It connects to Supabase for real-time data with automatic updates.
+ * This context provides the bookable resources and the slot helpers
+ * throughout the app, and keeps the cached booking queries up to date from
+ * realtime changes. The bookings themselves are read and changed through
+ * the hooks in use-booking-queries.
+ * Dates are days of the studio's timezone, so it must be used within a
+ * SettingsProvider.
  */
 
 import React, {
@@ -10,152 +14,130 @@ import React, {
   useContext,
   useState,
   useEffect,
-  ReactNode,
   useCallback,
+  useMemo,
+  ReactNode,
 } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
-  fetchAllBookings,
-  createBooking as createBookingService,
-  updateBooking as updateBookingService,
-  updateBookingStatus as updateBookingStatusService,
-  deleteBooking as deleteBookingService,
+  checkAvailability as checkAvailabilityService,
   getTakenSlots as getTakenSlotsService,
-  subscribeToBookings,
   Booking,
+  BookingAvailability,
   BookingStatus,
   NewBooking,
   BookingUpdate,
   BookingRemarks,
+  BookingConflict,
+  SeriesScope,
+  OccurrenceCheck,
 } from "@/services/bookingService";
+import type { Occurrence } from "@/lib/recurrence";
+import { fetchResources, Resource } from "@/services/resourceService";
+import { toDateKey } from "@/lib/studioTime";
+import { useSettings } from "@/context/SettingsContext";
+import { useAuth } from "@/context/AuthContext";
+import { bookingKeys } from "@/hooks/use-booking-queries";
+import { useBookingsRealtime } from "@/hooks/use-bookings-realtime";
 
 // Re-export types
-export type { Booking, BookingStatus, NewBooking, BookingUpdate };
+export type {
+  Booking,
+  BookingAvailability,
+  BookingStatus,
+  NewBooking,
+  BookingUpdate,
+  BookingRemarks,
+  BookingConflict,
+  SeriesScope,
+  OccurrenceCheck,
+  Resource,
+};
 
 interface BookingContextType {
-  bookings: Booking[];
-  isLoading: boolean;
-  addBooking: (booking: NewBooking) => Promise<boolean>;
-  updateBooking: (id: string, updates: BookingUpdate) => Promise<boolean>;
-  deleteBooking: (id: string) => Promise<boolean>;
-  updateBookingStatus: (id: string, status: BookingStatus) => Promise<boolean>;
-  getBookingsForDate: (date: Date) => Booking[];
-  getUserBookings: (userId: string) => Booking[];
-  getApprovedBookings: () => Booking[];
-  getTakenSlots: (date: Date) => Promise<string[]>;
-  refreshBookings: () => Promise<void>;
+  resources: Resource[];
+  checkAvailability: (
+    resourceId: string,
+    occurrences: Occurrence[],
+  ) => Promise<OccurrenceCheck[]>;
+  getResource: (id: string) => Resource | undefined;
+  getTakenSlots: (
+    date: Date,
+    resourceId: string,
+    slotMinutes?: number,
+  ) => Promise<string[]>;
 }
 
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
 
 export function BookingProvider({ children }: { children: ReactNode }) {
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const { timezone } = useSettings();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
 
-  // Load bookings on mount
-  const refreshBookings = useCallback(async () => {
-    const { data } = await fetchAllBookings();
-    if (data) setBookings(data);
-    setIsLoading(false);
+  // Load the bookable resources once, they rarely change
+  useEffect(() => {
+    fetchResources().then(({ data }) => {
+      if (data) setResources(data);
+    });
   }, []);
 
+  // Another user may read other bookings, drop what the last one loaded
+  const userId = user?.id;
   useEffect(() => {
-    refreshBookings();
-    // Subscribe to real-time updates
-    const unsubscribe = subscribeToBookings(setBookings);
-    return unsubscribe;
-  }, [refreshBookings]);
-
-  // Request new bookings.
-  const addBooking = async (booking: NewBooking): Promise<boolean> => {
-    const { error } = await createBookingService(booking);
-    if (!error) {
-      await refreshBookings();
-      return true;
-    }
-    refreshBookings();
-    return false;
-  };
-
-  // Update made before the approval.
-  const updateBooking = async (
-    id: string,
-    updates: BookingUpdate,
-  ): Promise<boolean> => {
-    const { error } = await updateBookingService(id, updates);
-    if (!error) {
-      await refreshBookings();
-      return true;
-    }
-    return false;
-  };
-
-  // Delete request by the user.
-  const deleteBooking = async (id: string): Promise<boolean> => {
-    const resp = await deleteBookingService(id);
-    if (!resp.error) {
-      await refreshBookings();
-      return true;
-    }
-    refreshBookings();
-    return false;
-  };
-
-  // Update made by the admins.
-  const updateBookingStatus = async (
-    id: string,
-    status: BookingStatus,
-  ): Promise<boolean> => {
-    const { error } = await updateBookingStatusService(id, status);
-    if (!error) {
-      await refreshBookings();
-      return true;
-    }
-    refreshBookings();
-    return false;
-  };
-
-  // Gets the booking date for the day.
-  const getBookingsForDate = (date: Date): Booking[] => {
-    const dateStr = date.toISOString().split("T")[0];
-    return bookings.filter((b) => b.start_time.startsWith(dateStr));
-  };
+    queryClient.resetQueries({ queryKey: bookingKeys.all });
+  }, [userId, queryClient]);
+
+  useBookingsRealtime(!!userId);
+
+  // Checks each occurrence of a series against the existing bookings.
+  // The helpers keep their identity between renders, components use them as
+  // effect dependencies.
+  const checkAvailability = useCallback(
+    async (
+      resourceId: string,
+      occurrences: Occurrence[],
+    ): Promise<OccurrenceCheck[]> => {
+      const { data } = await checkAvailabilityService(resourceId, occurrences);
+      return data || [];
+    },
+    [],
+  );
 
-  // Gets all the user's bookings.
-  const getUserBookings = (userId: string): Booking[] => {
-    return bookings.filter((b) => b.user_id === userId);
-  };
+  // Gets a resource by its id.
+  const getResource = useCallback(
+    (id: string): Resource | undefined => {
+      return resources.find((r) => r.id === id);
+    },
+    [resources],
+  );
 
-  // Get all approved bookings.
-  const getApprovedBookings = (): Booking[] => {
-    return bookings.filter((b) => b.status === "approved");
-  };
-  console.log(bookings);
+  // Returns the booked slots of a resource.
+  const getTakenSlots = useCallback(
+    async (
+      date: Date,
+      resourceId: string,
+      slotMinutes?: number,
+    ): Promise<string[]> => {
+      const { data } = await getTakenSlotsService(
+        toDateKey(date),
+        resourceId,
+        timezone,
+        slotMinutes,
+      );
+      return data || [];
+    },
+    [timezone],
+  );
 
-  // deems the booked slots.
-  const getTakenSlots = async (date: Date): Promise<string[]> => {
-    const dateStr = date.toISOString().split("T")[0];
-    const { data } = await getTakenSlotsService(dateStr);
-    return data || [];
-  };
+  const value = useMemo(
+    () => ({ resources, checkAvailability, getResource, getTakenSlots }),
+    [resources, checkAvailability, getResource, getTakenSlots],
+  );
 
   return (
-    <BookingContext.Provider
-      value={{
-        bookings,
-        isLoading,
-        addBooking,
-        updateBooking,
-        deleteBooking,
-        updateBookingStatus,
-        getBookingsForDate,
-        getUserBookings,
-        getApprovedBookings,
-        getTakenSlots,
-        refreshBookings,
-      }}
-    >
-      {children}
-    </BookingContext.Provider>
+    <BookingContext.Provider value={value}>{children}</BookingContext.Provider>
   );
 }
 
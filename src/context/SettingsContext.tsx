@@ -0,0 +1,140 @@
+/**
+ * Settings Context
+ *
+ * This context provides the studio settings (opening hours, slot
+ * settings, timezone and booking policy) throughout the app, and the slot
+ * grid derived from them. Dates and times are converted to and shown in
+ * the studio's timezone through the helpers below.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+  useCallback,
+} from "react";
+import {
+  fetchSchedule,
+  Schedule,
+  ScheduleSettings,
+  OpeningHours,
+} from "@/services/scheduleService";
+import { fetchBookingPolicy, BookingPolicy } from "@/services/policyService";
+import {
+  DEFAULT_SCHEDULE,
+  generateTimeSlots,
+  getScheduleSettings as getScheduleSettingsForResource,
+} from "@/lib/slots";
+import { DEFAULT_POLICY } from "@/lib/bookingPolicy";
+import {
+  formatInStudio as formatInTimeZone,
+  fromStudioTime as fromTimeZone,
+  toStudioDay as toTimeZoneDay,
+} from "@/lib/studioTime";
+
+// Re-export types
+export type { Schedule, ScheduleSettings, OpeningHours, BookingPolicy };
+
+interface SettingsContextType {
+  schedule: Schedule;
+  policy: BookingPolicy;
+  timezone: string;
+  isLoading: boolean;
+  getTimeSlots: (date: Date, resourceId?: string | null) => string[];
+  getScheduleSettings: (resourceId?: string | null) => ScheduleSettings;
+  formatInStudio: (value: Date | string, pattern: string) => string;
+  toStudioDay: (value: Date | string) => Date;
+  fromStudioTime: (day: Date | string, time: string) => Date;
+  refreshSettings: () => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined,
+);
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const [schedule, setSchedule] = useState<Schedule>(DEFAULT_SCHEDULE);
+  const [policy, setPolicy] = useState<BookingPolicy>(DEFAULT_POLICY);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load the schedule and policy on mount
+  const refreshSettings = useCallback(async () => {
+    const [scheduleResult, policyResult] = await Promise.all([
+      fetchSchedule(),
+      fetchBookingPolicy(),
+    ]);
+    const { data } = scheduleResult;
+    if (data && data.hours.length > 0) setSchedule(data);
+    if (policyResult.data) setPolicy(policyResult.data);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refreshSettings();
+  }, [refreshSettings]);
+
+  // Gets the slot grid of the day for a resource.
+  const getTimeSlots = useCallback(
+    (date: Date, resourceId?: string | null): string[] =>
+      generateTimeSlots(date, schedule, resourceId),
+    [schedule],
+  );
+
+  // Gets the slot length and durations of a resource.
+  const getScheduleSettings = useCallback(
+    (resourceId?: string | null): ScheduleSettings =>
+      getScheduleSettingsForResource(schedule, resourceId),
+    [schedule],
+  );
+
+  const { timezone } = schedule;
+
+  // Formats an instant as studio time, e.g. "MMM d, h:mm a".
+  const formatInStudio = useCallback(
+    (value: Date | string, pattern: string): string =>
+      formatInTimeZone(value, pattern, timezone),
+    [timezone],
+  );
+
+  // Gets the studio's calendar day of an instant.
+  const toStudioDay = useCallback(
+    (value: Date | string): Date => toTimeZoneDay(value, timezone),
+    [timezone],
+  );
+
+  // Gets the instant of a studio wall clock time ("HH:mm") on a day.
+  const fromStudioTime = useCallback(
+    (day: Date | string, time: string): Date =>
+      fromTimeZone(day, time, timezone),
+    [timezone],
+  );
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        schedule,
+        policy,
+        timezone,
+        isLoading,
+        getTimeSlots,
+        getScheduleSettings,
+        formatInStudio,
+        toStudioDay,
+        fromStudioTime,
+        refreshSettings,
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+}
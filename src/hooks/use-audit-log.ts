@@ -0,0 +1,36 @@
+/**
+ * Audit Log Queries
+ *
+ * TanStack Query hooks for the studio wide audit log on the admin audit
+ * page. The log is cached per filter and loaded a page at a time, like the
+ * paginated booking lists.
+ */
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import type { BookingCursor } from "@/services/bookingService";
+import {
+  BookingEventFilters,
+  fetchAuditLog,
+} from "@/services/bookingEventService";
+
+export const auditLogKeys = {
+  all: ["audit-log"] as const,
+  pages: (filters: BookingEventFilters) =>
+    [...auditLogKeys.all, "pages", filters] as const,
+};
+
+/**
+ * The events matching the filters, newest first, a page at a time
+ */
+export function useAuditLogQuery(filters: BookingEventFilters) {
+  return useInfiniteQuery({
+    queryKey: auditLogKeys.pages(filters),
+    initialPageParam: null as BookingCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await fetchAuditLog(filters, pageParam);
+      if (error) throw new Error(error);
+      return data;
+    },
+    getNextPageParam: (page) => page.nextCursor,
+  });
+}
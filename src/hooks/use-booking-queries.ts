@@ -0,0 +1,493 @@
+/**
+ * Booking Queries
+ *
+ * TanStack Query hooks for reading and changing bookings.
+ * - Lists are cached per filter (user, status, resource, date range) under
+ *   bookingKeys, paginated lists per filter and order, the counts per
+ *   status and the busy time of everyone under their own keys
+ * - Status changes, edits and cancellations are applied to the cached
+ *   lists right away and rolled back when the database refuses them
+ * - Every change invalidates only the lists the booking was or now is in,
+ *   useBookingsRealtime does the same for changes made elsewhere
+ */
+
+import {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  Booking,
+  BookingCursor,
+  BookingFilters,
+  BookingPage,
+  BookingRemarks,
+  BookingResponse,
+  BookingSort,
+  BookingStatus,
+  BookingUpdate,
+  NewBooking,
+  SeriesScope,
+  TimeRange,
+  cancelBooking,
+  cancelSeriesBookings,
+  createBooking,
+  createBookingSeries,
+  fetchAvailability,
+  fetchBookingCounts,
+  fetchBookingIds,
+  fetchBookings,
+  fetchBookingsChangedSince,
+  fetchBookingsPage,
+  updateBooking,
+  updateBookingStatus,
+  updateSeriesBookings,
+} from "@/services/bookingService";
+import type { Occurrence } from "@/lib/recurrence";
+
+export const bookingKeys = {
+  all: ["bookings"] as const,
+  lists: () => [...bookingKeys.all, "list"] as const,
+  list: (filters: BookingFilters) => [...bookingKeys.lists(), filters] as const,
+  pages: (filters: BookingFilters, sort: BookingSort) =>
+    [...bookingKeys.all, "pages", filters, sort] as const,
+  counts: (filters: BookingFilters) =>
+    [...bookingKeys.all, "counts", filters] as const,
+  availability: () => [...bookingKeys.all, "availability"] as const,
+  availabilityIn: (range?: TimeRange) =>
+    [...bookingKeys.availability(), range ?? {}] as const,
+};
+
+// Realtime changes invalidate what they affect, no need to refetch on mount
+const STALE_TIME = 5 * 60 * 1000;
+
+// Realtime only delivers the bookings the user may read, so changes to
+// other members' bookings are picked up by refetching the busy time
+const AVAILABILITY_REFETCH_INTERVAL = 60 * 1000;
+
+type BookingPages = InfiniteData<BookingPage, BookingCursor | null>;
+
+// Cached lists and their data, used to roll back optimistic changes
+type ListSnapshot = [QueryKey, Booking[] | BookingPages | undefined][];
+
+interface OptimisticContext {
+  previous: ListSnapshot;
+  // Cached versions of the changed bookings, before and after the change
+  before: Booking[];
+  after: Booking[];
+}
+
+const isActive = (booking: Booking) =>
+  booking.status === "pending" || booking.status === "approved";
+
+const byNewest = (a: Booking, b: Booking) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+const filtersOf = (queryKey: QueryKey) => (queryKey[2] ?? {}) as BookingFilters;
+
+// Lists and paginated lists hold whole bookings, the other keys don't
+const holdsBookings = (queryKey: QueryKey) =>
+  queryKey[1] === "list" || queryKey[1] === "pages";
+
+const bookingsOf = (data: Booking[] | BookingPages | undefined): Booking[] =>
+  Array.isArray(data) ? data : (data?.pages.flatMap((p) => p.bookings) ?? []);
+
+const bookingLists = (queryClient: QueryClient): ListSnapshot =>
+  queryClient.getQueriesData<Booking[] | BookingPages>({
+    queryKey: bookingKeys.all,
+    predicate: (query) => holdsBookings(query.queryKey),
+  });
+
+/**
+ * Whether a booking belongs in the list with these filters
+ */
+export function matchesBookingFilters(
+  booking: Booking,
+  filters: BookingFilters,
+): boolean {
+  const start = new Date(booking.start_time).getTime();
+  return (
+    (!filters.ids || filters.ids.includes(booking.id)) &&
+    (!filters.userId || booking.user_id === filters.userId) &&
+    (!filters.resourceId || booking.resource_id === filters.resourceId) &&
+    (!filters.status || booking.status === filters.status) &&
+    (!filters.from || start >= new Date(filters.from).getTime()) &&
+    (!filters.to || start < new Date(filters.to).getTime())
+  );
+}
+
+// The cached version of each booking the filter selects, once per booking
+function cachedBookings(
+  queryClient: QueryClient,
+  select: (booking: Booking) => boolean,
+): Booking[] {
+  const found = new Map<string, Booking>();
+  bookingLists(queryClient).forEach(([, data]) =>
+    bookingsOf(data).forEach((b) => {
+      if (select(b) && !found.has(b.id)) found.set(b.id, b);
+    }),
+  );
+  return [...found.values()];
+}
+
+/**
+ * The cached version of a booking, if any list holds it
+ */
+export function findCachedBooking(
+  queryClient: QueryClient,
+  id: string,
+): Booking | undefined {
+  return cachedBookings(queryClient, (b) => b.id === id)[0];
+}
+
+/**
+ * Invalidate the queries affected by changed or deleted bookings
+ *
+ * A list or count is affected when one of the bookings matches its filters
+ * or it holds one of them. The busy time is refetched when an active
+ * booking changed or a booking was deleted.
+ *
+ * @param bookings - Versions of the changed bookings, old and new
+ * @param deletedIds - Ids of deleted bookings
+ */
+export function invalidateBookings(
+  queryClient: QueryClient,
+  bookings: Booking[],
+  deletedIds: string[] = [],
+): Promise<void> {
+  const ids = new Set([...bookings.map((b) => b.id), ...deletedIds]);
+
+  return queryClient.invalidateQueries({
+    queryKey: bookingKeys.all,
+    predicate: ({ queryKey, state }) => {
+      if (queryKey[1] === "availability") {
+        return bookings.some(isActive) || deletedIds.length > 0;
+      }
+      if (queryKey[1] === "counts" && deletedIds.length > 0) return true;
+      return (
+        bookings.some((b) => matchesBookingFilters(b, filtersOf(queryKey))) ||
+        (holdsBookings(queryKey) &&
+          bookingsOf(state.data as Booking[] | BookingPages).some((b) =>
+            ids.has(b.id),
+          ))
+      );
+    },
+  });
+}
+
+/**
+ * Invalidate the lists changed while realtime was disconnected
+ *
+ * Fetches the bookings changed since the latest updated_at in the cache and
+ * the ids of all bookings, to find the deleted ones.
+ */
+export async function catchUpBookings(queryClient: QueryClient) {
+  const cached = cachedBookings(queryClient, () => true);
+  if (cached.length === 0) {
+    return queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+  }
+
+  const since = cached.reduce((latest, b) =>
+    new Date(b.updated_at) > new Date(latest.updated_at) ? b : latest,
+  ).updated_at;
+  const [changed, ids] = await Promise.all([
+    fetchBookingsChangedSince(since),
+    fetchBookingIds(),
+  ]);
+  if (!changed.data || !ids.data) {
+    return queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+  }
+
+  const changedIds = new Set(changed.data.map((b) => b.id));
+  const existing = new Set(ids.data);
+  return invalidateBookings(
+    queryClient,
+    [...changed.data, ...cached.filter((b) => changedIds.has(b.id))],
+    cached.filter((b) => !existing.has(b.id)).map((b) => b.id),
+  );
+}
+
+// Apply a change to every cached list, moving bookings between lists.
+// Paginated lists keep their order, a booking stays on its page or leaves.
+async function patchBookings(
+  queryClient: QueryClient,
+  select: (booking: Booking) => boolean,
+  patch: (booking: Booking) => Booking,
+): Promise<OptimisticContext> {
+  await queryClient.cancelQueries({
+    queryKey: bookingKeys.all,
+    predicate: (query) => holdsBookings(query.queryKey),
+  });
+
+  const previous = bookingLists(queryClient);
+  const before = cachedBookings(queryClient, select);
+  const after = new Map(before.map((b) => [b.id, patch(b)]));
+
+  previous.forEach(([queryKey, data]) => {
+    if (!data) return;
+    const filters = filtersOf(queryKey);
+    const matches = (b: Booking) => matchesBookingFilters(b, filters);
+
+    if (Array.isArray(data)) {
+      queryClient.setQueryData<Booking[]>(
+        queryKey,
+        [
+          ...[...after.values()].filter(matches),
+          ...data.filter((b) => !after.has(b.id)),
+        ].sort(byNewest),
+      );
+      return;
+    }
+
+    queryClient.setQueryData<BookingPages>(queryKey, {
+      ...data,
+      pages: data.pages.map((page) => ({
+        ...page,
+        bookings: page.bookings
+          .map((b) => after.get(b.id) ?? b)
+          .filter(matches),
+      })),
+    });
+  });
+
+  return { previous, before, after: [...after.values()] };
+}
+
+// Roll back a refused change, then refetch what it touched
+function settle(
+  queryClient: QueryClient,
+  response: BookingResponse<unknown> | undefined,
+  error: Error | null,
+  context: OptimisticContext | undefined,
+) {
+  if (!context) return;
+  if (error || response?.error) {
+    context.previous.forEach(([queryKey, data]) =>
+      queryClient.setQueryData(queryKey, data),
+    );
+  }
+  return invalidateBookings(queryClient, [...context.before, ...context.after]);
+}
+
+/**
+ * The bookings matching the filters, all the user may read by default
+ *
+ * Loads the whole list at once, use useBookingPagesQuery for lists that
+ * grow with the history.
+ */
+export function useBookingsQuery(
+  filters: BookingFilters = {},
+  { enabled = true }: { enabled?: boolean } = {},
+) {
+  return useQuery({
+    queryKey: bookingKeys.list(filters),
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await fetchBookings(filters);
+      if (error) throw new Error(error);
+      return data;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+/**
+ * The bookings matching the filters, a page at a time
+ */
+export function useBookingPagesQuery(
+  filters: BookingFilters,
+  sort: BookingSort,
+  { enabled = true }: { enabled?: boolean } = {},
+) {
+  return useInfiniteQuery({
+    queryKey: bookingKeys.pages(filters, sort),
+    enabled,
+    initialPageParam: null as BookingCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await fetchBookingsPage(filters, sort, pageParam);
+      if (error) throw new Error(error);
+      return data;
+    },
+    getNextPageParam: (page) => page.nextCursor,
+    staleTime: STALE_TIME,
+  });
+}
+
+/**
+ * The number of bookings with each status
+ */
+export function useBookingCountsQuery(filters: BookingFilters = {}) {
+  return useQuery({
+    queryKey: bookingKeys.counts(filters),
+    queryFn: async () => {
+      const { data, error } = await fetchBookingCounts(filters);
+      if (error) throw new Error(error);
+      return data;
+    },
+    staleTime: STALE_TIME,
+  });
+}
+
+/**
+ * The busy time of every resource, within the range if one is given
+ *
+ * Keeps showing the previous range while the next one loads. Refetched every
+ * minute and whenever the window regains focus, as other members' changes
+ * don't arrive over realtime.
+ */
+export function useAvailabilityQuery(range?: TimeRange) {
+  return useQuery({
+    queryKey: bookingKeys.availabilityIn(range),
+    queryFn: async () => {
+      const { data, error } = await fetchAvailability(range);
+      if (error) throw new Error(error);
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    staleTime: STALE_TIME,
+    refetchInterval: AVAILABILITY_REFETCH_INTERVAL,
+    refetchOnWindowFocus: "always",
+  });
+}
+
+/**
+ * Request a booking
+ */
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (booking: NewBooking) => createBooking(booking),
+    // A refused request may have met a booking the busy time didn't show
+    onSettled: (response) =>
+      response?.data
+        ? invalidateBookings(queryClient, [response.data])
+        : queryClient.invalidateQueries({
+            queryKey: bookingKeys.availability(),
+          }),
+  });
+}
+
+/**
+ * Request a recurring series of bookings
+ */
+export function useCreateBookingSeries() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      booking,
+      occurrences,
+    }: {
+      booking: NewBooking;
+      occurrences: Occurrence[];
+    }) => createBookingSeries(booking, occurrences),
+    onSettled: (response) =>
+      response?.data
+        ? invalidateBookings(queryClient, response.data)
+        : queryClient.invalidateQueries({
+            queryKey: bookingKeys.availability(),
+          }),
+  });
+}
+
+/**
+ * Approve or reject a booking, by the admins
+ */
+export function useUpdateBookingStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      booking,
+      status,
+      remarks,
+    }: {
+      booking: Booking;
+      status: BookingStatus;
+      remarks?: BookingRemarks;
+    }) => updateBookingStatus(booking.id, status, remarks),
+    onMutate: ({ booking, status, remarks }) =>
+      patchBookings(
+        queryClient,
+        (b) => b.id === booking.id,
+        (b) => ({ ...b, status, remarks: remarks?.trim() || null }),
+      ),
+    onSettled: (response, error, _variables, context) =>
+      settle(queryClient, response, error, context),
+  });
+}
+
+/**
+ * Edit a booking, optionally more occurrences of its series
+ *
+ * Only the edited occurrence changes right away, the others follow when
+ * the lists are refetched.
+ */
+export function useUpdateBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      booking,
+      updates,
+      scope = "occurrence",
+    }: {
+      booking: Booking;
+      updates: BookingUpdate;
+      scope?: SeriesScope;
+    }): Promise<BookingResponse<unknown>> =>
+      scope !== "occurrence" && booking.series_id
+        ? updateSeriesBookings(booking, scope, updates)
+        : updateBooking(booking.id, updates),
+    onMutate: ({ booking, updates }) =>
+      patchBookings(
+        queryClient,
+        (b) => b.id === booking.id,
+        (b) => ({ ...b, ...updates }),
+      ),
+    onSettled: (response, error, _variables, context) =>
+      settle(queryClient, response, error, context),
+  });
+}
+
+/**
+ * Cancel a booking, optionally more occurrences of its series
+ */
+export function useCancelBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      booking,
+      reason = null,
+      scope = "occurrence",
+    }: {
+      booking: Booking;
+      reason?: string | null;
+      scope?: SeriesScope;
+    }) =>
+      scope !== "occurrence" && booking.series_id
+        ? cancelSeriesBookings(booking, scope, reason)
+        : cancelBooking(booking.id, reason),
+    onMutate: ({ booking, reason = null, scope = "occurrence" }) =>
+      patchBookings(
+        queryClient,
+        (b) =>
+          scope === "occurrence" || !booking.series_id
+            ? b.id === booking.id
+            : b.series_id === booking.series_id &&
+              isActive(b) &&
+              (scope === "series" ||
+                new Date(b.start_time) >= new Date(booking.start_time)),
+        (b) => ({
+          ...b,
+          status: "cancelled",
+          cancellation_reason: reason?.trim() || null,
+          cancelled_at: new Date().toISOString(),
+        }),
+      ),
+    onSettled: (response, error, _variables, context) =>
+      settle(queryClient, response, error, context),
+  });
+}
@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { subscribeToBookings } from "@/services/bookingService";
+import {
+  catchUpBookings,
+  findCachedBooking,
+  invalidateBookings,
+} from "@/hooks/use-booking-queries";
+
+/**
+ * Keeps the cached booking queries up to date from realtime changes
+ *
+ * Opens one channel for the whole app, so it is used once, by the
+ * BookingProvider. Each change invalidates the lists the booking was or now
+ * is in, and after a reconnect the changes missed meanwhile do the same.
+ *
+ * @param enabled - Whether a user is signed in
+ */
+export function useBookingsRealtime(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let joined = false;
+    return subscribeToBookings(
+      (change) => {
+        if (change.type === "delete") {
+          invalidateBookings(queryClient, [], [change.id]);
+          return;
+        }
+        // The cached version tells which lists the booking was in
+        const cached = findCachedBooking(queryClient, change.booking.id);
+        invalidateBookings(
+          queryClient,
+          cached ? [change.booking, cached] : [change.booking],
+        );
+      },
+      () => {
+        if (joined) catchUpBookings(queryClient);
+        joined = true;
+      },
+    );
+  }, [enabled, queryClient]);
+}
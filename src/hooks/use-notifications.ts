@@ -0,0 +1,123 @@
+/**
+ * Notification Queries
+ *
+ * TanStack Query hooks for the signed in user's in-app notifications.
+ * Marking as read shows right away and is rolled back when it fails, and
+ * realtime changes refetch the list and the unread count.
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  UserNotification,
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from "@/services/notificationService";
+
+// Cached per user, so a different user signing in never sees them
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  user: (userId: string) => [...notificationKeys.all, userId] as const,
+  list: (userId: string) => [...notificationKeys.user(userId), "list"] as const,
+  unreadCount: (userId: string) =>
+    [...notificationKeys.user(userId), "unread"] as const,
+};
+
+/**
+ * The user's latest notifications, newest first
+ */
+export function useNotificationsQuery(userId: string) {
+  return useQuery({
+    queryKey: notificationKeys.list(userId),
+    queryFn: async () => {
+      const { data, error } = await fetchNotifications();
+      if (error) throw new Error(error);
+      return data;
+    },
+  });
+}
+
+/**
+ * The number of unread notifications, including older ones not loaded
+ */
+export function useUnreadNotificationCountQuery(userId: string) {
+  return useQuery({
+    queryKey: notificationKeys.unreadCount(userId),
+    queryFn: async () => {
+      const { data, error } = await fetchUnreadNotificationCount();
+      if (error) throw new Error(error);
+      return data;
+    },
+  });
+}
+
+/**
+ * Mark notifications as read, every unread one when no ids are given
+ */
+export function useMarkNotificationsRead(userId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const { error } = await markNotificationsRead(ids);
+      if (error) throw new Error(error);
+    },
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({
+        queryKey: notificationKeys.user(userId),
+      });
+      const list = queryClient.getQueryData<UserNotification[]>(
+        notificationKeys.list(userId),
+      );
+      const unreadCount = queryClient.getQueryData<number>(
+        notificationKeys.unreadCount(userId),
+      );
+
+      const readAt = new Date().toISOString();
+      const marked = (list ?? []).filter(
+        (n) => !n.read_at && (!ids || ids.includes(n.id)),
+      );
+      queryClient.setQueryData<UserNotification[]>(
+        notificationKeys.list(userId),
+        list?.map((n) => (marked.includes(n) ? { ...n, read_at: readAt } : n)),
+      );
+      queryClient.setQueryData<number>(
+        notificationKeys.unreadCount(userId),
+        ids ? Math.max((unreadCount ?? 0) - marked.length, 0) : 0,
+      );
+
+      return { list, unreadCount };
+    },
+    onError: (_error, _ids, context) => {
+      queryClient.setQueryData(notificationKeys.list(userId), context?.list);
+      queryClient.setQueryData(
+        notificationKeys.unreadCount(userId),
+        context?.unreadCount,
+      );
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({
+        queryKey: notificationKeys.user(userId),
+      }),
+  });
+}
+
+/**
+ * Keeps the notifications up to date while the user is signed in
+ *
+ * Notifications marked as read in another tab arrive here too.
+ *
+ * @param userId - The signed in user's UUID
+ */
+export function useNotificationsRealtime(userId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return subscribeToNotifications(userId, () =>
+      queryClient.invalidateQueries({
+        queryKey: notificationKeys.user(userId),
+      }),
+    );
+  }, [userId, queryClient]);
+}
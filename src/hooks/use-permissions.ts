@@ -0,0 +1,14 @@
+import { useCallback } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user, permission),
+    [user],
+  );
+
+  return { can };
+}
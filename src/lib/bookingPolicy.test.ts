@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_POLICY,
+  describeEditEffects,
+  evaluateCancel,
+  evaluateEdit,
+} from "@/lib/bookingPolicy";
+import type { Booking } from "@/services/bookingService";
+
+const now = new Date("2026-03-10T12:00:00Z");
+
+// An approved booking starting the given number of hours after now
+function booking(hoursAhead: number, changes: Partial<Booking> = {}): Booking {
+  const start = new Date(now.getTime() + hoursAhead * 3_600_000);
+  return {
+    id: "booking",
+    user_id: "user",
+    user_name: "Alice",
+    resource_id: "room",
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + 3_600_000).toISOString(),
+    status: "approved",
+    reason: "Rehearsal",
+    remarks: null,
+    series_id: null,
+    cancelled_by: null,
+    cancelled_at: null,
+    cancellation_reason: null,
+    reschedule_count: 0,
+    ical_sequence: 0,
+    created_at: "2026-03-01T12:00:00Z",
+    updated_at: "2026-03-01T12:00:00Z",
+    ...changes,
+  };
+}
+
+describe("evaluateCancel", () => {
+  it("blocks approved bookings inside the notice period", () => {
+    const decision = evaluateCancel(booking(23), DEFAULT_POLICY, now);
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain("less than 24 hours");
+  });
+
+  it("allows approved bookings outside the notice period", () => {
+    expect(evaluateCancel(booking(24), DEFAULT_POLICY, now).allowed).toBe(true);
+  });
+
+  it("lets pending requests be withdrawn at any time", () => {
+    expect(
+      evaluateCancel(booking(1, { status: "pending" }), DEFAULT_POLICY, now)
+        .allowed
+    ).toBe(true);
+  });
+
+  it("has no notice period when the cutoff is 0", () => {
+    const policy = { ...DEFAULT_POLICY, cancel_cutoff_hours: 0 };
+    expect(evaluateCancel(booking(1), policy, now).allowed).toBe(true);
+  });
+
+  it("only cancels active bookings", () => {
+    expect(
+      evaluateCancel(booking(48, { status: "rejected" }), DEFAULT_POLICY, now)
+        .allowed
+    ).toBe(false);
+  });
+});
+
+describe("evaluateEdit", () => {
+  it("blocks edits inside the notice period, also of pending requests", () => {
+    const decision = evaluateEdit(
+      booking(12, { status: "pending" }),
+      DEFAULT_POLICY,
+      true,
+      now
+    );
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain("less than 24 hours");
+  });
+
+  it("blocks rescheduling once the maximum is reached", () => {
+    const decision = evaluateEdit(
+      booking(48, { reschedule_count: 2 }),
+      DEFAULT_POLICY,
+      true,
+      now
+    );
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain("rescheduled 2 times");
+  });
+
+  it("allows reason-only edits after the maximum of reschedules", () => {
+    expect(
+      evaluateEdit(
+        booking(48, { reschedule_count: 2 }),
+        DEFAULT_POLICY,
+        false,
+        now
+      ).allowed
+    ).toBe(true);
+  });
+
+  it("has no reschedule limit without a maximum", () => {
+    const policy = { ...DEFAULT_POLICY, max_reschedules: null };
+    expect(
+      evaluateEdit(booking(48, { reschedule_count: 10 }), policy, true, now)
+        .allowed
+    ).toBe(true);
+  });
+});
+
+describe("describeEditEffects", () => {
+  it("warns that an approved booking goes back to pending", () => {
+    expect(describeEditEffects(booking(48), DEFAULT_POLICY)).toEqual([
+      "This booking is approved. Saving changes sends it back for approval.",
+      "You can change the time of this booking 2 more times.",
+    ]);
+  });
+
+  it("counts the reschedules left", () => {
+    expect(
+      describeEditEffects(
+        booking(48, { status: "pending", reschedule_count: 1 }),
+        DEFAULT_POLICY
+      )
+    ).toEqual(["You can change the time of this booking 1 more time."]);
+  });
+});
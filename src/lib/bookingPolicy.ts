@@ -0,0 +1,131 @@
+/**
+ * Booking Policy
+ *
+ * Evaluates the studio's cancellation and modification policy for a
+ * booking, so the UI can block an action and explain why before the
+ * database trigger enforcing the same rules would reject it.
+ * Admins are not bound by the policy.
+ */
+
+import type { Booking } from "@/services/bookingService";
+import type { BookingPolicy } from "@/services/policyService";
+
+// Policy used until the studio's policy is loaded
+export const DEFAULT_POLICY: BookingPolicy = {
+  cancel_cutoff_hours: 24,
+  edit_cutoff_hours: 24,
+  max_reschedules: 2,
+  reapprove_after_edit: true,
+};
+
+/**
+ * Outcome of a policy check
+ * - reason: Explanation shown to the user when the action is not allowed
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string | null;
+}
+
+const ALLOWED: PolicyDecision = { allowed: true, reason: null };
+
+const blocked = (reason: string): PolicyDecision => ({
+  allowed: false,
+  reason,
+});
+
+// Hours left until the booking starts
+function hoursUntilStart(booking: Booking, now: Date): number {
+  return (new Date(booking.start_time).getTime() - now.getTime()) / 3_600_000;
+}
+
+/**
+ * Check whether a booking may be cancelled
+ */
+export function evaluateCancel(
+  booking: Booking,
+  policy: BookingPolicy,
+  now: Date = new Date()
+): PolicyDecision {
+  if (booking.status !== "pending" && booking.status !== "approved") {
+    return blocked("Only pending and approved bookings can be cancelled.");
+  }
+
+  if (
+    booking.status === "approved" &&
+    policy.cancel_cutoff_hours > 0 &&
+    hoursUntilStart(booking, now) < policy.cancel_cutoff_hours
+  ) {
+    return blocked(
+      `Approved bookings cannot be cancelled less than ${policy.cancel_cutoff_hours} hours before they start. Please contact the studio.`
+    );
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Check whether a booking may be edited
+ *
+ * @param reschedule - Whether the time or room changes, which counts
+ *   against the reschedule limit (reason-only edits don't)
+ */
+export function evaluateEdit(
+  booking: Booking,
+  policy: BookingPolicy,
+  reschedule = true,
+  now: Date = new Date()
+): PolicyDecision {
+  if (booking.status !== "pending" && booking.status !== "approved") {
+    return blocked("Only pending and approved bookings can be changed.");
+  }
+
+  if (
+    policy.edit_cutoff_hours > 0 &&
+    hoursUntilStart(booking, now) < policy.edit_cutoff_hours
+  ) {
+    return blocked(
+      `Bookings cannot be changed less than ${policy.edit_cutoff_hours} hours before they start.`
+    );
+  }
+
+  if (
+    reschedule &&
+    policy.max_reschedules !== null &&
+    booking.reschedule_count >= policy.max_reschedules
+  ) {
+    return blocked(
+      `This booking has already been rescheduled ${booking.reschedule_count} times, the maximum allowed.`
+    );
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Describe what an edit will do to a booking, e.g. that it goes back to
+ * pending or how many reschedules are left
+ *
+ * @returns Notices to show before the user saves, empty when none apply
+ */
+export function describeEditEffects(
+  booking: Booking,
+  policy: BookingPolicy
+): string[] {
+  const notices: string[] = [];
+
+  if (booking.status === "approved" && policy.reapprove_after_edit) {
+    notices.push(
+      "This booking is approved. Saving changes sends it back for approval."
+    );
+  }
+
+  if (policy.max_reschedules !== null) {
+    const left = Math.max(policy.max_reschedules - booking.reschedule_count, 0);
+    notices.push(
+      `You can change the time of this booking ${left} more ${left === 1 ? "time" : "times"}.`
+    );
+  }
+
+  return notices;
+}
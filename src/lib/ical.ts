@@ -0,0 +1,102 @@
+/**
+ * iCalendar Export
+ *
+ * Builds .ics files (RFC 5545) of bookings for the "Add to calendar"
+ * downloads. The calendar feeds and the approval email are built by the
+ * edge functions with the same UIDs, so a calendar app that has a booking
+ * from several of them shows it once and keeps the latest version.
+ */
+
+import type { Booking } from "@/services/bookingService";
+
+// 2026-03-07T18:00:00.000Z -> 20260307T180000Z
+const formatDate = (value: string) =>
+  new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+const fold = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  return [...parts, current].join("\r\n ");
+};
+
+/**
+ * The iCalendar UID of a booking, the same in every file and feed
+ */
+export const bookingUid = (booking: Pick<Booking, "id">) =>
+  `${booking.id}@studio-booking`;
+
+/**
+ * An .ics file with the booking as its only event
+ *
+ * @param booking - The booking
+ * @param location - The name of the booked resource
+ * @returns The text of the file
+ */
+export function bookingToIcs(booking: Booking, location?: string): string {
+  const status =
+    booking.status === "approved"
+      ? "CONFIRMED"
+      : booking.status === "pending"
+        ? "TENTATIVE"
+        : "CANCELLED";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Studio Booking//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${bookingUid(booking)}`,
+    `SEQUENCE:${booking.ical_sequence}`,
+    `DTSTAMP:${formatDate(booking.updated_at)}`,
+    `LAST-MODIFIED:${formatDate(booking.updated_at)}`,
+    `DTSTART:${formatDate(booking.start_time)}`,
+    `DTEND:${formatDate(booking.end_time)}`,
+    `SUMMARY:${escapeText(booking.reason)}`,
+    ...(booking.remarks ? [`DESCRIPTION:${escapeText(booking.remarks)}`] : []),
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `STATUS:${status}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * Save an .ics file through the browser
+ *
+ * @param filename - Name of the file, without the extension
+ * @param content - Text of the file
+ */
+export function downloadIcs(filename: string, content: string) {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: "text/calendar;charset=utf-8" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${filename}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,63 @@
+/**
+ * Permissions
+ *
+ * Maps roles to what they may do in the app. Routes, navigation and
+ * conditional UI ask for a permission instead of checking the role, so
+ * a new role or a moved capability only needs a change here.
+ * The database enforces the same rules through RLS and is_admin().
+ */
+
+import type { UserProfile, UserRole } from "@/services/authService";
+
+/**
+ * Things a user can be allowed to do
+ * - bookings:create: Request studio sessions and join the waitlist
+ * - bookings:approve: Approve and reject booking requests
+ * - bookings:manage: Edit and cancel any booking, regardless of the policy
+ * - resources:manage: Configure resources, opening hours, slots and policies
+ * - members:manage: Change roles, groups, quotas and suspend members
+ * - audit:view: Read the audit trail of every booking
+ */
+export type Permission =
+  | "bookings:create"
+  | "bookings:approve"
+  | "bookings:manage"
+  | "resources:manage"
+  | "members:manage"
+  | "audit:view";
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: ["bookings:create"],
+  admin: [
+    "bookings:create",
+    "bookings:approve",
+    "bookings:manage",
+    "resources:manage",
+    "members:manage",
+    "audit:view",
+  ],
+};
+
+/**
+ * Check whether a user has a permission
+ *
+ * @param user - The signed in user, or null when signed out
+ * @param permission - The permission to check
+ * @returns true if the user's role grants the permission
+ */
+export function hasPermission(
+  user: Pick<UserProfile, "role"> | null,
+  permission: Permission
+): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+/**
+ * The page a user lands on after signing in
+ *
+ * @param user - The signed in user
+ * @returns The admin panel for those who approve bookings, else the dashboard
+ */
+export function homePath(user: Pick<UserProfile, "role">): string {
+  return hasPermission(user, "bookings:approve") ? "/admin" : "/dashboard";
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRecurrence,
+  expandRecurrence,
+  MAX_OCCURRENCES,
+} from "@/lib/recurrence";
+import { parseDateKey } from "@/lib/studioTime";
+
+describe("expandRecurrence", () => {
+  const timeZone = "Europe/Berlin";
+
+  it("keeps the wall clock times across the start of daylight saving time", () => {
+    // Berlin moves from UTC+1 to UTC+2 on 2026-03-29
+    const occurrences = expandRecurrence(
+      parseDateKey("2026-03-22"),
+      "10:00",
+      "11:00",
+      { frequency: "weekly", interval: 1, count: 2 },
+      timeZone
+    );
+    expect(occurrences).toEqual([
+      {
+        start_time: "2026-03-22T09:00:00.000Z",
+        end_time: "2026-03-22T10:00:00.000Z",
+      },
+      {
+        start_time: "2026-03-29T08:00:00.000Z",
+        end_time: "2026-03-29T09:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("keeps the wall clock times across the end of daylight saving time", () => {
+    // Berlin moves from UTC+2 to UTC+1 on 2026-10-25
+    const occurrences = expandRecurrence(
+      parseDateKey("2026-10-24"),
+      "18:00",
+      "20:00",
+      { frequency: "daily", interval: 1, count: 2 },
+      timeZone
+    );
+    expect(occurrences.map((o) => o.start_time)).toEqual([
+      "2026-10-24T16:00:00.000Z",
+      "2026-10-25T17:00:00.000Z",
+    ]);
+  });
+
+  it("moves monthly occurrences to the last day of shorter months", () => {
+    const occurrences = expandRecurrence(
+      parseDateKey("2026-01-31"),
+      "10:00",
+      "11:00",
+      { frequency: "monthly", interval: 1, count: 3 },
+      timeZone
+    );
+    expect(occurrences.map((o) => o.start_time)).toEqual([
+      "2026-01-31T09:00:00.000Z",
+      "2026-02-28T09:00:00.000Z",
+      "2026-03-31T08:00:00.000Z",
+    ]);
+  });
+
+  it("stops after the until date, which is inclusive", () => {
+    const occurrences = expandRecurrence(
+      parseDateKey("2026-03-02"),
+      "10:00",
+      "11:00",
+      { frequency: "weekly", interval: 2, until: "2026-03-30" },
+      timeZone
+    );
+    expect(occurrences.map((o) => o.start_time)).toEqual([
+      "2026-03-02T09:00:00.000Z",
+      "2026-03-16T09:00:00.000Z",
+      "2026-03-30T08:00:00.000Z",
+    ]);
+  });
+
+  it("never expands more than the maximum number of occurrences", () => {
+    const rule = { frequency: "daily" as const, interval: 1 };
+    const day = parseDateKey("2026-03-02");
+
+    expect(
+      expandRecurrence(day, "10:00", "11:00", { ...rule, count: 500 }, timeZone)
+    ).toHaveLength(MAX_OCCURRENCES);
+    expect(
+      expandRecurrence(day, "10:00", "11:00", rule, timeZone)
+    ).toHaveLength(MAX_OCCURRENCES);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes the interval and the end of a rule", () => {
+    expect(
+      describeRecurrence({ frequency: "weekly", interval: 2, count: 10 })
+    ).toBe("Every 2 weeks, 10 times");
+    expect(
+      describeRecurrence({
+        frequency: "daily",
+        interval: 1,
+        until: "2026-04-01",
+      })
+    ).toBe("Every day until 2026-04-01");
+    expect(describeRecurrence({ frequency: "monthly", interval: 1 })).toBe(
+      "Every month"
+    );
+  });
+});
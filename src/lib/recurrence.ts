@@ -0,0 +1,103 @@
+/**
+ * Recurrence Rules
+ *
+ * Expands an RRULE-style recurrence (frequency, interval, until/count) into
+ * the individual occurrences of a booking series.
+ */
+
+import { addDays, addMonths, addWeeks } from "date-fns";
+import { fromStudioTime, toDateKey } from "@/lib/studioTime";
+
+/**
+ * Recurrence frequency matching database constraint
+ */
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * Recurrence rule of a booking series
+ * - interval: Repeat every N days/weeks/months (2 + weekly = biweekly)
+ * - until: Last date an occurrence may fall on (YYYY-MM-DD), inclusive
+ * - count: Number of occurrences, including the first one
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string | null;
+  count?: number | null;
+}
+
+/**
+ * Start and end of one occurrence (ISO timestamps)
+ */
+export interface Occurrence {
+  start_time: string;
+  end_time: string;
+}
+
+// Upper bound for a single series, whatever the rule says
+export const MAX_OCCURRENCES = 52;
+
+// Move a calendar day by n periods of the frequency
+function step(date: Date, frequency: RecurrenceFrequency, n: number): Date {
+  if (frequency === "daily") return addDays(date, n);
+  if (frequency === "weekly") return addWeeks(date, n);
+  return addMonths(date, n);
+}
+
+/**
+ * Expand a recurrence rule into occurrences
+ *
+ * The first occurrence is on the given day. Every occurrence keeps the
+ * studio wall clock times, also across daylight saving time changes.
+ * Monthly occurrences on days a month does not have (e.g. the 31st) fall
+ * on the month's last day.
+ *
+ * @param day - Calendar day of the first occurrence
+ * @param startTime - Studio wall clock start time (HH:MM)
+ * @param endTime - Studio wall clock end time (HH:MM)
+ * @param rule - The recurrence rule
+ * @param timeZone - The studio's timezone
+ * @returns Array of occurrences in chronological order
+ */
+export function expandRecurrence(
+  day: Date,
+  startTime: string,
+  endTime: string,
+  rule: RecurrenceRule,
+  timeZone: string
+): Occurrence[] {
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const occurrences: Occurrence[] = [];
+
+  for (let i = 0; occurrences.length < limit; i++) {
+    const occurrenceDay = step(day, rule.frequency, i * rule.interval);
+    if (rule.until && toDateKey(occurrenceDay) > rule.until) {
+      break;
+    }
+
+    occurrences.push({
+      start_time: fromStudioTime(
+        occurrenceDay,
+        startTime,
+        timeZone
+      ).toISOString(),
+      end_time: fromStudioTime(occurrenceDay, endTime, timeZone).toISOString(),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Describe a recurrence rule, e.g. "Every 2 weeks, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units = { daily: "day", weekly: "week", monthly: "month" };
+  const unit = units[rule.frequency];
+  const every =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.count) return `${every}, ${rule.count} times`;
+  if (rule.until) return `${every} until ${rule.until}`;
+  return every;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getTakenSlotTimes } from "@/lib/slots";
+import { studioDayRange } from "@/lib/studioTime";
+
+describe("getTakenSlotTimes", () => {
+  const timeZone = "Europe/Berlin";
+  const day = studioDayRange("2026-03-10", timeZone);
+
+  it("takes the slots of a booking on the grid", () => {
+    const taken = getTakenSlotTimes(
+      [
+        {
+          start_time: "2026-03-10T09:00:00Z",
+          end_time: "2026-03-10T10:00:00Z",
+        },
+      ],
+      day,
+      timeZone,
+      30
+    );
+    expect(taken).toEqual(["10:00", "10:30"]);
+  });
+
+  it("takes every slot an off-grid event overlaps", () => {
+    // 10:15 to 10:45 in Berlin
+    const taken = getTakenSlotTimes(
+      [
+        {
+          start_time: "2026-03-10T09:15:00Z",
+          end_time: "2026-03-10T09:45:00Z",
+        },
+      ],
+      day,
+      timeZone,
+      30
+    );
+    expect(taken).toEqual(["10:00", "10:30"]);
+  });
+
+  it("only takes the slots that fall on the day", () => {
+    // 23:00 to 01:00 the next day in Berlin
+    const taken = getTakenSlotTimes(
+      [
+        {
+          start_time: "2026-03-10T22:00:00Z",
+          end_time: "2026-03-11T00:00:00Z",
+        },
+      ],
+      day,
+      timeZone,
+      60
+    );
+    expect(taken).toEqual(["23:00"]);
+  });
+});
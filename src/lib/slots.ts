@@ -0,0 +1,181 @@
+/**
+ * Slot Generator
+ *
+ * Builds the bookable time slot grid of a date from the studio schedule.
+ * Slots are wall clock times of the studio in HH:MM (24-hour) format. The last slot of a
+ * day is the closing time, so it can be picked as an end time only.
+ */
+
+import type {
+  OpeningHours,
+  Schedule,
+  ScheduleSettings,
+} from "@/services/scheduleService";
+import { DEFAULT_TIMEZONE, studioTimeOfDay } from "@/lib/studioTime";
+
+/**
+ * Schedule used until the database schedule has been loaded
+ * (open every day from 10:00 to 16:00 in 30 minute steps, UTC)
+ */
+export const DEFAULT_SCHEDULE: Schedule = {
+  hours: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+    weekday,
+    is_open: true,
+    open_time: "10:00",
+    close_time: "16:00",
+  })),
+  settings: [
+    {
+      resource_id: null,
+      slot_minutes: 30,
+      min_duration_minutes: 30,
+      max_duration_minutes: 360,
+    },
+  ],
+  timezone: DEFAULT_TIMEZONE,
+};
+
+// Convert HH:MM (or HH:MM:SS) to minutes since midnight
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Convert minutes since midnight to HH:MM
+export function fromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}`;
+}
+
+// Display a slot in 12-hour format, e.g. "1:30 PM"
+export function formatSlotLabel(slot: string): string {
+  const minutes = toMinutes(slot);
+  const hours = Math.floor(minutes / 60) % 24;
+  const period = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, "0")} ${period}`;
+}
+
+/**
+ * Get the slot settings of a resource, falling back to the studio default
+ */
+export function getScheduleSettings(
+  schedule: Schedule,
+  resourceId?: string | null
+): ScheduleSettings {
+  return (
+    schedule.settings.find((s) => resourceId && s.resource_id === resourceId) ||
+    schedule.settings.find((s) => s.resource_id === null) ||
+    DEFAULT_SCHEDULE.settings[0]
+  );
+}
+
+/**
+ * Get the opening hours of the weekday of a calendar day
+ */
+export function getOpeningHours(
+  schedule: Schedule,
+  date: Date
+): OpeningHours | undefined {
+  return schedule.hours.find((h) => h.weekday === date.getDay());
+}
+
+/**
+ * Generate the slot grid of a date for a resource
+ *
+ * @param date - The calendar day to generate the grid for (see studioTime)
+ * @param schedule - The studio schedule
+ * @param resourceId - The resource's UUID (for its slot length)
+ * @returns Array of slot times (HH:MM), empty when the studio is closed
+ */
+export function generateTimeSlots(
+  date: Date,
+  schedule: Schedule,
+  resourceId?: string | null
+): string[] {
+  const hours = getOpeningHours(schedule, date);
+  if (!hours || !hours.is_open) return [];
+
+  const { slot_minutes } = getScheduleSettings(schedule, resourceId);
+  const open = toMinutes(hours.open_time);
+  const close = toMinutes(hours.close_time);
+
+  const slots: string[] = [];
+  for (let minutes = open; minutes <= close; minutes += slot_minutes) {
+    slots.push(fromMinutes(minutes));
+  }
+  return slots;
+}
+
+/**
+ * Get the slots of a day that busy time takes
+ *
+ * Busy time that is off the grid, like an imported event from 10:15 to
+ * 10:45 on a 30 minute grid, takes every slot it overlaps (10:00 and 10:30).
+ *
+ * @param intervals - Start and end of the bookings and blocked time
+ * @param day - Start and end of the studio day (see studioDayRange)
+ * @param timeZone - The studio's timezone
+ * @param slotMinutes - Length of a slot
+ * @returns Slot times (HH:MM) of the day that are taken
+ */
+export function getTakenSlotTimes(
+  intervals: Array<{ start_time: string; end_time: string }>,
+  day: { start: Date; end: Date },
+  timeZone: string,
+  slotMinutes: number
+): string[] {
+  const slotMs = slotMinutes * 60 * 1000;
+  const dayStart = day.start.getTime();
+  const dayEnd = day.end.getTime();
+  const taken = new Set<string>();
+
+  for (const interval of intervals) {
+    // Widen the interval to the grid, counted from the start of the day
+    const start = new Date(interval.start_time).getTime();
+    const end = new Date(interval.end_time).getTime();
+    const first = dayStart + Math.floor((start - dayStart) / slotMs) * slotMs;
+    const last = dayStart + Math.ceil((end - dayStart) / slotMs) * slotMs;
+
+    // Only the slots that fall on the day
+    for (
+      let slot = Math.max(first, dayStart);
+      slot < Math.min(last, dayEnd);
+      slot += slotMs
+    ) {
+      taken.add(studioTimeOfDay(new Date(slot), timeZone));
+    }
+  }
+
+  return [...taken];
+}
+
+/**
+ * Check a booking duration against the min/max duration of the settings
+ *
+ * @returns An error message, or null when the duration is allowed
+ */
+export function validateDuration(
+  startTime: string,
+  endTime: string,
+  settings: ScheduleSettings
+): string | null {
+  const duration = toMinutes(endTime) - toMinutes(startTime);
+
+  if (duration < settings.min_duration_minutes) {
+    return `Bookings must be at least ${formatDuration(settings.min_duration_minutes)}`;
+  }
+  if (duration > settings.max_duration_minutes) {
+    return `Bookings can be at most ${formatDuration(settings.max_duration_minutes)}`;
+  }
+  return null;
+}
+
+// Display a duration in minutes, e.g. "1h 30min"
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}min`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}min`;
+}
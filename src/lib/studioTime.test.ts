@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatInStudio,
+  fromStudioTime,
+  isValidTimeZone,
+  parseDateKey,
+  studioDateKey,
+  studioDayRange,
+  studioTimeOfDay,
+  toDateKey,
+} from "@/lib/studioTime";
+
+const timeZone = "Europe/Berlin";
+const HOUR_MS = 3_600_000;
+
+describe("fromStudioTime", () => {
+  it("converts wall clock times on either side of daylight saving time", () => {
+    expect(fromStudioTime("2026-03-28", "10:00", timeZone).toISOString()).toBe(
+      "2026-03-28T09:00:00.000Z"
+    );
+    expect(fromStudioTime("2026-03-29", "10:00", timeZone).toISOString()).toBe(
+      "2026-03-29T08:00:00.000Z"
+    );
+    expect(fromStudioTime("2026-10-25", "10:00", timeZone).toISOString()).toBe(
+      "2026-10-25T09:00:00.000Z"
+    );
+  });
+
+  it("accepts a calendar Date as the day", () => {
+    expect(
+      fromStudioTime(
+        parseDateKey("2026-03-29"),
+        "10:00",
+        timeZone
+      ).toISOString()
+    ).toBe("2026-03-29T08:00:00.000Z");
+  });
+
+  it("moves a time the clocks skip forward by the skipped hour", () => {
+    // 02:00 to 03:00 does not exist in Berlin on 2026-03-29
+    expect(fromStudioTime("2026-03-29", "02:30", timeZone).toISOString()).toBe(
+      "2026-03-29T01:30:00.000Z"
+    );
+  });
+
+  it("picks one of the two instants of a repeated time", () => {
+    // 02:00 to 03:00 happens twice in Berlin on 2026-10-25
+    const instant = fromStudioTime("2026-10-25", "02:30", timeZone);
+    expect(studioTimeOfDay(instant, timeZone)).toBe("02:30");
+  });
+});
+
+describe("studioDayRange", () => {
+  it("spans 24 hours on a normal day", () => {
+    const { start, end } = studioDayRange("2026-03-10", timeZone);
+    expect(start.toISOString()).toBe("2026-03-09T23:00:00.000Z");
+    expect(end.getTime() - start.getTime()).toBe(24 * HOUR_MS);
+  });
+
+  it("spans 23 hours when the clocks go forward", () => {
+    const { start, end } = studioDayRange("2026-03-29", timeZone);
+    expect(start.toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-03-29T22:00:00.000Z");
+  });
+
+  it("spans 25 hours when the clocks go back", () => {
+    const { start, end } = studioDayRange("2026-10-25", timeZone);
+    expect(start.toISOString()).toBe("2026-10-24T22:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-10-25T23:00:00.000Z");
+  });
+});
+
+describe("studio wall clock of an instant", () => {
+  it("puts an instant on the studio's day, not the UTC day", () => {
+    // 23:30 UTC is already the next day in Berlin
+    expect(studioDateKey("2026-03-10T23:30:00Z", timeZone)).toBe("2026-03-11");
+    expect(studioTimeOfDay("2026-03-10T23:30:00Z", timeZone)).toBe("00:30");
+    expect(studioDateKey("2026-03-10T23:30:00Z", "UTC")).toBe("2026-03-10");
+  });
+
+  it("follows the offset change of daylight saving time", () => {
+    expect(studioTimeOfDay("2026-03-29T00:30:00Z", timeZone)).toBe("01:30");
+    expect(studioTimeOfDay("2026-03-29T01:30:00Z", timeZone)).toBe("03:30");
+  });
+
+  it("formats an instant in the studio's timezone", () => {
+    expect(
+      formatInStudio("2026-07-01T16:15:00Z", "MMM d, HH:mm", timeZone)
+    ).toBe("Jul 1, 18:15");
+  });
+});
+
+describe("date keys", () => {
+  it("round-trips a calendar day", () => {
+    expect(toDateKey(parseDateKey("2026-02-28"))).toBe("2026-02-28");
+  });
+
+  it("knows valid timezone names", () => {
+    expect(isValidTimeZone(timeZone)).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
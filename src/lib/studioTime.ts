@@ -0,0 +1,215 @@
+/**
+ * Studio Time
+ *
+ * Converts between the studio's wall clock time and the UTC timestamps
+ * stored in the database. Bookings are made, grouped by day and shown in
+ * the studio's timezone, whatever timezone the viewer's browser is in.
+ *
+ * Calendar days are passed around as date keys (YYYY-MM-DD) or as the
+ * local Dates the calendar hands out, of which only the year, month and
+ * day count. Wall clock times are HH:MM (24-hour), like the slot grid.
+ */
+
+import { addDays, format } from "date-fns";
+
+// Timezone used until the studio's timezone is loaded
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Wall clock date and time in a timezone
+ */
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Formatters are expensive to create, keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall clock time of an instant in a timezone
+function toWallTime(instant: Date, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset of a timezone from UTC at an instant, in milliseconds
+function offsetAt(instant: Date, timeZone: string): number {
+  const wall = toWallTime(instant, timeZone);
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second
+  );
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/**
+ * Check whether a timezone name is known to the browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timezones the studio can be set to, e.g. "Europe/Berlin"
+ */
+export function listTimeZones(): string[] {
+  // Not part of the ES2020 typings, but supported by current browsers
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: "timeZone") => string[];
+  };
+  return intl.supportedValuesOf?.("timeZone") ?? [DEFAULT_TIMEZONE];
+}
+
+/**
+ * Date key (YYYY-MM-DD) of a calendar day
+ */
+export function toDateKey(day: Date): string {
+  return format(day, "yyyy-MM-dd");
+}
+
+/**
+ * Calendar day of a date key, as a local Date at midnight
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Date key of the studio day an instant falls on
+ */
+export function studioDateKey(value: Date | string, timeZone: string): string {
+  const wall = toWallTime(new Date(value), timeZone);
+  return `${wall.year}-${String(wall.month).padStart(2, "0")}-${String(wall.day).padStart(2, "0")}`;
+}
+
+/**
+ * Studio wall clock time (HH:MM) of an instant
+ */
+export function studioTimeOfDay(
+  value: Date | string,
+  timeZone: string
+): string {
+  const wall = toWallTime(new Date(value), timeZone);
+  return `${String(wall.hour).padStart(2, "0")}:${String(wall.minute).padStart(2, "0")}`;
+}
+
+/**
+ * Calendar day of the studio an instant falls on
+ */
+export function toStudioDay(value: Date | string, timeZone: string): Date {
+  return parseDateKey(studioDateKey(value, timeZone));
+}
+
+/**
+ * Today in the studio, as a calendar day
+ */
+export function studioToday(timeZone: string): Date {
+  return toStudioDay(new Date(), timeZone);
+}
+
+/**
+ * The instant a studio wall clock time happens
+ *
+ * @param day - Calendar day, as a date key or a calendar Date
+ * @param time - Wall clock time (HH:MM)
+ * @param timeZone - The studio's timezone
+ * @returns The instant as a Date (call toISOString() to store it)
+ */
+export function fromStudioTime(
+  day: Date | string,
+  time: string,
+  timeZone: string
+): Date {
+  const [year, month, date] = (typeof day === "string" ? day : toDateKey(day))
+    .split("-")
+    .map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, date, hour, minute);
+
+  // The offset at the first guess is off by the DST change when one lies
+  // in between, the offset at the corrected instant is right
+  const guess = wallAsUtc - offsetAt(new Date(wallAsUtc), timeZone);
+  return new Date(wallAsUtc - offsetAt(new Date(guess), timeZone));
+}
+
+/**
+ * Start and end (exclusive) of a studio day
+ */
+export function studioDayRange(
+  day: Date | string,
+  timeZone: string
+): { start: Date; end: Date } {
+  const calendarDay = typeof day === "string" ? parseDateKey(day) : day;
+  return {
+    start: fromStudioTime(calendarDay, "00:00", timeZone),
+    end: fromStudioTime(addDays(calendarDay, 1), "00:00", timeZone),
+  };
+}
+
+/**
+ * Format an instant as studio wall clock time
+ *
+ * @param value - The instant (Date or ISO timestamp)
+ * @param pattern - A date-fns format pattern, e.g. "MMM d, h:mm a"
+ * @param timeZone - The studio's timezone
+ */
+export function formatInStudio(
+  value: Date | string,
+  pattern: string,
+  timeZone: string
+): string {
+  const wall = toWallTime(new Date(value), timeZone);
+  return format(
+    new Date(
+      wall.year,
+      wall.month - 1,
+      wall.day,
+      wall.hour,
+      wall.minute,
+      wall.second
+    ),
+    pattern
+  );
+}
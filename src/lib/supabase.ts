@@ -13,10 +13,11 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database";
 
 // Get environment variables
 // These are set in the project secrets and exposed via Vite
-const supabaseUrl =
+export const supabaseUrl =
   import.meta.env.VITE_SUPABASE_URL ??
   "https://teidtdunbcgkqtzmtzqj.supabase.co";
 const supabaseAnonKey =
@@ -38,12 +39,14 @@ if (!supabaseUrl || !supabaseAnonKey) {
  * This client is configured with:
  * - Auto-refresh of auth tokens
  * - Persistent sessions using localStorage
+ * - The Database types generated from the migrations (npm run types:db),
+ *   so queries are checked against the real tables and functions
  *
  * Usage:
  * - Import this client wherever you need to interact with Supabase
  * - Example: import { supabase } from '@/lib/supabase'
  */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     // Automatically refresh the session when it expires
     autoRefreshToken: true,
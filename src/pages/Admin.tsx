@@ -1,36 +1,46 @@
 import { useState } from "react";
-import { Navigate } from "react-router-dom";
-import { useAuth } from "@/context/AuthContext";
-import { useBookings } from "@/context/BookingContext";
+import { useNavigate } from "react-router-dom";
+import { useBookingCountsQuery } from "@/hooks/use-booking-queries";
+import { useSettings } from "@/context/SettingsContext";
 import { Navbar } from "@/components/Navbar";
 import { BookingCalendar } from "@/components/BookingCalendar";
 import { AdminBookingTable } from "@/components/AdminBookingTable";
+import { AdminWaitlistTable } from "@/components/AdminWaitlistTable";
+import { Can } from "@/components/Can";
+import { ResourcePicker, ALL_RESOURCES } from "@/components/ResourcePicker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
 import {
   Clock,
   CheckCircle,
   XCircle,
+  Ban,
   LayoutList,
   CalendarDays,
+  Settings,
+  History,
+  Hourglass,
+  Users,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 export default function Admin() {
-  const { isAuthenticated, user } = useAuth();
-  const { bookings } = useBookings();
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-
-  if (!isAuthenticated) {
-    return <Navigate to="/auth" replace />;
-  }
+  const { toStudioDay } = useSettings();
+  const navigate = useNavigate();
+  const [selectedDate, setSelectedDate] = useState<Date>(() =>
+    toStudioDay(new Date()),
+  );
+  const [resourceId, setResourceId] = useState<string>(ALL_RESOURCES);
 
-  if (user?.role !== "admin") {
-    return <Navigate to="/dashboard" replace />;
-  }
+  // Counted by the database, the lists below only load a page at a time
+  const { data: counts } = useBookingCountsQuery(
+    resourceId === ALL_RESOURCES ? {} : { resourceId },
+  );
 
-  const pendingCount = bookings.filter((b) => b.status === "pending").length;
-  const approvedCount = bookings.filter((b) => b.status === "approved").length;
-  const rejectedCount = bookings.filter((b) => b.status === "rejected").length;
+  const pendingCount = counts?.pending ?? 0;
+  const approvedCount = counts?.approved ?? 0;
+  const rejectedCount = counts?.rejected ?? 0;
+  const cancelledCount = counts?.cancelled ?? 0;
 
   const stats = [
     {
@@ -51,6 +61,12 @@ export default function Admin() {
       icon: XCircle,
       color: "text-destructive",
     },
+    {
+      label: "Cancelled",
+      count: cancelledCount,
+      icon: Ban,
+      color: "text-muted-foreground",
+    },
   ];
 
   return (
@@ -59,17 +75,48 @@ export default function Admin() {
 
       <main className="container mx-auto px-4 pt-24 pb-12">
         {/* Welcome message */}
-        <div className="mb-8 animate-fade-in">
-          <h1 className="font-display text-3xl font-bold mb-2">
-            Admin <span className="text-gradient">Panel</span>
-          </h1>
-          <p className="text-muted-foreground">
-            Manage booking requests and monitor studio availability
-          </p>
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4 animate-fade-in">
+          <div>
+            <h1 className="font-display text-3xl font-bold mb-2">
+              Admin <span className="text-gradient">Panel</span>
+            </h1>
+            <p className="text-muted-foreground">
+              Manage booking requests and monitor studio availability
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Can permission="members:manage">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/admin/members")}
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Members
+              </Button>
+            </Can>
+            <Can permission="audit:view">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/admin/audit")}
+              >
+                <History className="w-4 h-4 mr-2" />
+                Audit Log
+              </Button>
+            </Can>
+            <Can permission="resources:manage">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/admin/settings")}
+              >
+                <Settings className="w-4 h-4 mr-2" />
+                Settings
+              </Button>
+            </Can>
+          </div>
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-3 gap-4 mb-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
           {stats.map(({ label, count, icon: Icon, color }, index) => (
             <div
               key={label}
@@ -93,11 +140,19 @@ export default function Admin() {
             className="lg:col-span-2 space-y-4 animate-slide-up"
             style={{ animationDelay: "300ms" }}
           >
-            <div className="flex items-center gap-2 mb-2">
-              <LayoutList className="w-5 h-5 text-primary" />
-              <h2 className="font-display text-lg font-semibold">
-                Booking Requests
-              </h2>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-2">
+                <LayoutList className="w-5 h-5 text-primary" />
+                <h2 className="font-display text-lg font-semibold">
+                  Booking Requests
+                </h2>
+              </div>
+              <ResourcePicker
+                value={resourceId}
+                onChange={setResourceId}
+                allowAll
+                className="w-48"
+              />
             </div>
 
             <Tabs defaultValue="pending" className="w-full">
@@ -135,20 +190,40 @@ export default function Admin() {
                   <XCircle className="w-4 h-4 mr-1.5 text-destructive" />
                   Rejected
                 </TabsTrigger>
+                <TabsTrigger
+                  value="cancelled"
+                  className="data-[state=active]:bg-card"
+                >
+                  <Ban className="w-4 h-4 mr-1.5 text-muted-foreground" />
+                  Cancelled
+                </TabsTrigger>
+                <TabsTrigger
+                  value="waitlist"
+                  className="data-[state=active]:bg-card"
+                >
+                  <Hourglass className="w-4 h-4 mr-1.5 text-primary" />
+                  Waitlist
+                </TabsTrigger>
               </TabsList>
 
               {/* Bookeing list */}
               <TabsContent value="today">
-                <AdminBookingTable filter="today" />
+                <AdminBookingTable filter="today" resourceId={resourceId} />
               </TabsContent>
               <TabsContent value="pending">
-                <AdminBookingTable filter="pending" />
+                <AdminBookingTable filter="pending" resourceId={resourceId} />
               </TabsContent>
               <TabsContent value="approved">
-                <AdminBookingTable filter="approved" />
+                <AdminBookingTable filter="approved" resourceId={resourceId} />
               </TabsContent>
               <TabsContent value="rejected">
-                <AdminBookingTable filter="rejected" />
+                <AdminBookingTable filter="rejected" resourceId={resourceId} />
+              </TabsContent>
+              <TabsContent value="cancelled">
+                <AdminBookingTable filter="cancelled" resourceId={resourceId} />
+              </TabsContent>
+              <TabsContent value="waitlist">
+                <AdminWaitlistTable resourceId={resourceId} />
               </TabsContent>
             </Tabs>
           </div>
@@ -167,6 +242,7 @@ export default function Admin() {
             <BookingCalendar
               onDateSelect={setSelectedDate}
               selectedDate={selectedDate}
+              resourceId={resourceId}
             />
           </div>
         </div>
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { Booking } from "@/context/BookingContext";
+import { useBookingsQuery } from "@/hooks/use-booking-queries";
+import { useAuditLogQuery } from "@/hooks/use-audit-log";
+import { useSettings } from "@/context/SettingsContext";
+import { Navbar } from "@/components/Navbar";
+import { BookingDetailDrawer } from "@/components/BookingDetailDrawer";
+import { LoadMore } from "@/components/LoadMore";
+import { EventChanges, EVENT_LABELS } from "@/components/BookingTimeline";
+import {
+  BookingEventActor,
+  BookingEventType,
+  fetchEventActors,
+} from "@/services/bookingEventService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, History } from "lucide-react";
+
+const ALL = "all";
+
+export default function AdminAudit() {
+  const { timezone, formatInStudio } = useSettings();
+  const navigate = useNavigate();
+  const [actors, setActors] = useState<BookingEventActor[]>([]);
+  const [actorId, setActorId] = useState<string>(ALL);
+  const [eventType, setEventType] = useState<string>(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [viewingBooking, setViewingBooking] = useState<Booking | null>(null);
+
+  // Reloaded from the first page whenever a filter changes
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useAuditLogQuery({
+      actorId: actorId === ALL ? undefined : actorId,
+      eventType:
+        eventType === ALL ? undefined : (eventType as BookingEventType),
+      from: from || undefined,
+      to: to || undefined,
+      timeZone: timezone,
+    });
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  // Only the bookings the listed events are about
+  const bookingIds = [...new Set(events.map((e) => e.booking_id))];
+  const { data: bookings = [] } = useBookingsQuery(
+    { ids: bookingIds },
+    { enabled: bookingIds.length > 0 },
+  );
+
+  // Everyone who changed bookings, for the actor filter
+  useEffect(() => {
+    fetchEventActors().then(({ data }) => setActors(data || []));
+  }, []);
+
+  const openBooking = (bookingId: string) => {
+    const booking = bookings.find((b) => b.id === bookingId);
+    if (booking) setViewingBooking(booking);
+  };
+
+  const resetFilters = () => {
+    setActorId(ALL);
+    setEventType(ALL);
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        {/* Heading */}
+        <div className="mb-8 animate-fade-in">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/admin")}
+            className="mb-2 -ml-3 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Admin Panel
+          </Button>
+          <h1 className="font-display text-3xl font-bold mb-2">
+            Audit <span className="text-gradient">Log</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Every request, edit and decision made on studio bookings
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-card rounded-xl border border-border p-4 shadow-card mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end animate-slide-up">
+          <div className="space-y-2">
+            <Label>Actor</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everyone</SelectItem>
+                {actors.map((actor) => (
+                  <SelectItem key={actor.id} value={actor.id}>
+                    {actor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Event</Label>
+            <Select value={eventType} onValueChange={setEventType}>
+              <SelectTrigger className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All events</SelectItem>
+                {Object.entries(EVENT_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <Button variant="outline" onClick={resetFilters}>
+            Reset Filters
+          </Button>
+        </div>
+
+        {/* Events */}
+        <div className="bg-card rounded-xl border border-border shadow-card overflow-hidden animate-slide-up">
+          {isLoading ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              Loading...
+            </p>
+          ) : events.length === 0 ? (
+            <div className="p-8 text-center">
+              <History className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">
+                No events match these filters
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">When</TableHead>
+                  <TableHead className="text-muted-foreground">Actor</TableHead>
+                  <TableHead className="text-muted-foreground">Event</TableHead>
+                  <TableHead className="text-muted-foreground">
+                    Booking
+                  </TableHead>
+                  <TableHead className="text-muted-foreground">
+                    Details
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id} className="border-border">
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatInStudio(event.created_at, "MMM d, yyyy h:mm a")}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {event.actor_name ?? "System"}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {EVENT_LABELS[event.event_type]}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-sm">
+                      {bookings.some((b) => b.id === event.booking_id) ? (
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => openBooking(event.booking_id)}
+                        >
+                          {event.booking_reason}
+                        </button>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {event.booking_reason}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {event.event_type === "edited" && event.changes && (
+                        <EventChanges changes={event.changes} />
+                      )}
+                      {event.remarks && (
+                        <p className="text-xs text-muted-foreground italic">
+                          "{event.remarks}"
+                        </p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <LoadMore
+            hasMore={hasNextPage}
+            loading={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
+            label="Load older events"
+          />
+        </div>
+      </main>
+
+      <BookingDetailDrawer
+        booking={viewingBooking}
+        onOpenChange={(open) => !open && setViewingBooking(null)}
+      />
+    </div>
+  );
+}
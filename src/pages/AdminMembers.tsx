@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { useSettings } from "@/context/SettingsContext";
+import { Navbar } from "@/components/Navbar";
+import { MemberBookingsDrawer } from "@/components/MemberBookingsDrawer";
+import {
+  Member,
+  fetchMembers,
+  setMemberRole,
+  setMemberSuspended,
+} from "@/services/memberService";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  Ban,
+  CalendarDays,
+  Shield,
+  ShieldOff,
+  UserCheck,
+  Users,
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const ALL = "all";
+
+type MemberAction = "promote" | "demote" | "suspend" | "reactivate";
+
+const ACTION_COPY: Record<
+  MemberAction,
+  { title: string; description: string; confirm: string; done: string }
+> = {
+  promote: {
+    title: "Make Admin?",
+    description:
+      "will be able to approve and reject bookings, change studio settings and manage members.",
+    confirm: "Make Admin",
+    done: "is now an admin",
+  },
+  demote: {
+    title: "Remove Admin Role?",
+    description:
+      "will become a regular member again and be bound by the booking policy and quotas.",
+    confirm: "Remove Admin",
+    done: "is no longer an admin",
+  },
+  suspend: {
+    title: "Suspend Member?",
+    description:
+      "won't be able to sign in, book or join the waitlist. Their existing bookings are kept.",
+    confirm: "Suspend",
+    done: "has been suspended",
+  },
+  reactivate: {
+    title: "Lift Suspension?",
+    description: "will be able to sign in and book again.",
+    confirm: "Lift Suspension",
+    done: "can book again",
+  },
+};
+
+export default function AdminMembers() {
+  const { user } = useAuth();
+  const { formatInStudio } = useSettings();
+  const navigate = useNavigate();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<string>(ALL);
+  const [viewingMember, setViewingMember] = useState<Member | null>(null);
+  const [pending, setPending] = useState<{
+    member: Member;
+    action: MemberAction;
+  } | null>(null);
+
+  const loadMembers = () => {
+    fetchMembers().then(({ data }) => {
+      setMembers(data || []);
+      setIsLoading(false);
+    });
+  };
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  const query = search.trim().toLowerCase();
+  const filteredMembers = members.filter(
+    (member) =>
+      (roleFilter === ALL || member.role === roleFilter) &&
+      (!query ||
+        member.name.toLowerCase().includes(query) ||
+        member.email.toLowerCase().includes(query)),
+  );
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { member, action } = pending;
+    setPending(null);
+
+    const { error } =
+      action === "promote" || action === "demote"
+        ? await setMemberRole(
+            member.id,
+            action === "promote" ? "admin" : "user",
+          )
+        : await setMemberSuspended(member.id, action === "suspend");
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Member Updated",
+      description: `${member.name} ${ACTION_COPY[action].done}`,
+    });
+    loadMembers();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        {/* Heading */}
+        <div className="mb-8 animate-fade-in">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/admin")}
+            className="mb-2 -ml-3 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Admin Panel
+          </Button>
+          <h1 className="font-display text-3xl font-bold mb-2">
+            Studio <span className="text-gradient">Members</span>
+          </h1>
+          <p className="text-muted-foreground">
+            See who books the studio, choose who can manage it and suspend
+            accounts
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-card rounded-xl border border-border p-4 shadow-card mb-6 grid gap-4 sm:grid-cols-2 items-end animate-slide-up">
+          <div className="space-y-2">
+            <Label htmlFor="member-search">Search</Label>
+            <Input
+              id="member-search"
+              placeholder="Name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <SelectTrigger className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everyone</SelectItem>
+                <SelectItem value="admin">Admins</SelectItem>
+                <SelectItem value="user">Members</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Members */}
+        <div className="bg-card rounded-xl border border-border shadow-card overflow-hidden animate-slide-up">
+          {isLoading ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              Loading...
+            </p>
+          ) : filteredMembers.length === 0 ? (
+            <div className="p-8 text-center">
+              <Users className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">
+                No members match these filters
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">
+                    Member
+                  </TableHead>
+                  <TableHead className="text-muted-foreground">Role</TableHead>
+                  <TableHead className="text-muted-foreground">Group</TableHead>
+                  <TableHead className="text-muted-foreground">
+                    Status
+                  </TableHead>
+                  <TableHead className="text-muted-foreground">
+                    Bookings
+                  </TableHead>
+                  <TableHead className="text-muted-foreground text-right">
+                    Actions
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMembers.map((member) => {
+                  const isSelf = member.id === user?.id;
+                  return (
+                    <TableRow key={member.id} className="border-border">
+                      <TableCell>
+                        <p className="text-sm font-medium">{member.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {member.email}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span
+                          className={cn(
+                            "inline-flex items-center gap-1",
+                            member.role === "admin" && "text-primary",
+                          )}
+                        >
+                          {member.role === "admin" && (
+                            <Shield className="w-3.5 h-3.5" />
+                          )}
+                          {member.role === "admin" ? "Admin" : "Member"}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {member.member_group ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {member.suspended_at ? (
+                          <span className="text-destructive">
+                            Suspended since{" "}
+                            {formatInStudio(member.suspended_at, "MMM d, yyyy")}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Active</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {member.booking_count}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            title="View bookings"
+                            onClick={() => setViewingMember(member)}
+                          >
+                            <CalendarDays className="w-4 h-4" />
+                          </Button>
+                          {!isSelf && (
+                            <>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                                title={
+                                  member.role === "admin"
+                                    ? "Remove admin role"
+                                    : "Make admin"
+                                }
+                                onClick={() =>
+                                  setPending({
+                                    member,
+                                    action:
+                                      member.role === "admin"
+                                        ? "demote"
+                                        : "promote",
+                                  })
+                                }
+                              >
+                                {member.role === "admin" ? (
+                                  <ShieldOff className="w-4 h-4" />
+                                ) : (
+                                  <Shield className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className={cn(
+                                  "h-8 w-8 text-muted-foreground",
+                                  member.suspended_at
+                                    ? "hover:text-success"
+                                    : "hover:text-destructive",
+                                )}
+                                title={
+                                  member.suspended_at
+                                    ? "Lift suspension"
+                                    : "Suspend member"
+                                }
+                                onClick={() =>
+                                  setPending({
+                                    member,
+                                    action: member.suspended_at
+                                      ? "reactivate"
+                                      : "suspend",
+                                  })
+                                }
+                              >
+                                {member.suspended_at ? (
+                                  <UserCheck className="w-4 h-4" />
+                                ) : (
+                                  <Ban className="w-4 h-4" />
+                                )}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </main>
+
+      <MemberBookingsDrawer
+        member={viewingMember}
+        onOpenChange={(open) => !open && setViewingMember(null)}
+      />
+
+      <AlertDialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <AlertDialogContent className="bg-card border-border">
+          {pending && (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {ACTION_COPY[pending.action].title}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  {pending.member.name}{" "}
+                  {ACTION_COPY[pending.action].description}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleConfirm}
+                  className={cn(
+                    pending.action === "suspend" &&
+                      "bg-destructive text-destructive-foreground hover:bg-destructive/90",
+                  )}
+                >
+                  {ACTION_COPY[pending.action].confirm}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
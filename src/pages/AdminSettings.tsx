@@ -0,0 +1,68 @@
+import { useNavigate } from "react-router-dom";
+import { Navbar } from "@/components/Navbar";
+import { OpeningHoursSettings } from "@/components/OpeningHoursSettings";
+import { SlotSettings } from "@/components/SlotSettings";
+import { PolicySettings } from "@/components/PolicySettings";
+import { QuotaSettings } from "@/components/QuotaSettings";
+import { MemberQuotaSettings } from "@/components/MemberQuotaSettings";
+import { ReminderSettings } from "@/components/ReminderSettings";
+import { CalendarImportSettings } from "@/components/CalendarImportSettings";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+
+export default function AdminSettings() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        {/* Heading */}
+        <div className="mb-8 animate-fade-in">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/admin")}
+            className="mb-2 -ml-3 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Admin Panel
+          </Button>
+          <h1 className="font-display text-3xl font-bold mb-2">
+            Studio <span className="text-gradient">Settings</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Configure opening hours, how sessions can be booked, changed and
+            cancelled, how much each member can book, when they are reminded and
+            which external calendars block the studio
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="animate-slide-up" style={{ animationDelay: "100ms" }}>
+            <OpeningHoursSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "200ms" }}>
+            <SlotSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "300ms" }}>
+            <PolicySettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "400ms" }}>
+            <QuotaSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "500ms" }}>
+            <MemberQuotaSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "600ms" }}>
+            <ReminderSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "700ms" }}>
+            <CalendarImportSettings />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
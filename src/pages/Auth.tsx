@@ -1,30 +1,36 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
+import { resendVerificationEmail, sendMagicLink } from "@/services/authService";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { UserRole } from "@/types/booking";
 import { toast } from "@/hooks/use-toast";
-import { Music, Mail, Lock, User, Mic, Eye, EyeClosed } from "lucide-react";
+import {
+  Music,
+  Mail,
+  Lock,
+  User,
+  Mic,
+  Eye,
+  EyeClosed,
+  MailCheck,
+  Wand2,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import logo from "@/assets/digital_gurkha.jpeg";
 
 export default function Auth() {
-  const navigate = useNavigate();
-  const { login, register, isAuthenticated, user } = useAuth();
+  const { login, register } = useAuth();
   const [showPassword, setShowPassword] = useState<boolean>(false);
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
-  const [role, setRole] = useState<UserRole>("user");
   const [isLoading, setIsLoading] = useState(false);
-
-  // Redirect if already authenticated
-  if (isAuthenticated && user) {
-    navigate(user.role === "admin" ? "/admin" : "/dashboard");
-  }
+  const [verificationEmail, setVerificationEmail] = useState<string | null>(
+    null
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,12 +53,18 @@ export default function Auth() {
           });
         }
       } else {
-        const success = await register(email, password, name, role);
-        if (success) {
+        const registration = await register(email, password, name);
+        if (registration?.verificationPending) {
+          setVerificationEmail(email);
           toast({
             title: "Verify email!",
             description: "Please check your mail and verify before loging in.",
           });
+        } else if (registration) {
+          toast({
+            title: "Welcome!",
+            description: "Your account has been created",
+          });
         }
       }
     } finally {
@@ -60,6 +72,49 @@ export default function Auth() {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!email) {
+      toast({
+        title: "Missing Information",
+        description: "Enter your email to get a sign-in link",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    const { error } = await sendMagicLink(email);
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Check your inbox",
+      description: `We sent a sign-in link to ${email}`,
+    });
+  };
+
+  const handleResendVerification = async () => {
+    if (!verificationEmail) return;
+
+    setIsLoading(true);
+    const { error } = await resendVerificationEmail(verificationEmail);
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Email sent",
+      description: `We sent another verification link to ${verificationEmail}`,
+    });
+  };
+
   return (
     <div className="min-h-screen flex flex-col lg:flex-row">
       {/* Left Panel - Branding */}
@@ -180,7 +235,17 @@ export default function Auth() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                {isLogin && (
+                  <Link
+                    to="/forgot-password"
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    Forgot password?
+                  </Link>
+                )}
+              </div>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 {showPassword ? (
@@ -234,7 +299,42 @@ export default function Auth() {
                 ? "Sign In"
                 : "Create Account"}
             </Button>
+
+            {isLogin && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full h-11"
+                onClick={handleMagicLink}
+                disabled={isLoading}
+              >
+                <Wand2 className="w-4 h-4 mr-2" />
+                Email me a sign-in link
+              </Button>
+            )}
           </form>
+
+          {/* New accounts must verify their email before signing in */}
+          {verificationEmail && (
+            <div className="mt-6 rounded-lg border border-border bg-secondary/50 p-4 flex gap-3">
+              <MailCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div className="text-sm text-muted-foreground space-y-2">
+                <p>
+                  We sent a verification link to{" "}
+                  <span className="text-foreground">{verificationEmail}</span>.
+                  Open it to activate your account.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  disabled={isLoading}
+                  className="text-primary hover:underline disabled:opacity-50"
+                >
+                  Didn't get it? Send it again
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { AuthCard } from "@/components/AuthCard";
+import { Button } from "@/components/ui/button";
+
+// Only continue to pages of the app, never to another site
+const isAppPath = (path: string | null): path is string =>
+  !!path && path.startsWith("/") && !path.startsWith("//");
+
+export default function AuthCallback() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { completeRedirect } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const hasRun = useRef(false);
+
+  // Email links can only be used once, complete the flow a single time
+  useEffect(() => {
+    if (hasRun.current) return;
+    hasRun.current = true;
+
+    const next = searchParams.get("next");
+    completeRedirect(window.location.href).then((redirectError) => {
+      if (redirectError) {
+        setError(redirectError);
+        return;
+      }
+      navigate(isAppPath(next) ? next : "/", { replace: true });
+    });
+  }, [completeRedirect, navigate, searchParams]);
+
+  if (error) {
+    return (
+      <AuthCard title="Couldn't sign you in" description={error}>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild className="bg-gradient-primary hover:opacity-90">
+            <Link to="/auth">Back to sign in</Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link to="/forgot-password">Reset password</Link>
+          </Button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Signing you in..."
+      description="Just a moment while we check your link."
+    />
+  );
+}
@@ -1,23 +1,26 @@
 import { useEffect, useState } from "react";
-import { Navigate } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
+import { useSettings } from "@/context/SettingsContext";
 import { Navbar } from "@/components/Navbar";
 import { BookingCalendar } from "@/components/BookingCalendar";
 import { BookingModal } from "@/components/BookingModal";
 import { BookingHistory } from "@/components/BookingHistory";
+import { WaitlistPanel } from "@/components/WaitlistPanel";
+import { QuotaSummary } from "@/components/QuotaSummary";
+import { ALL_RESOURCES } from "@/components/ResourcePicker";
 import { CalendarDays, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/lib/supabase";
 
 export default function Dashboard() {
-  const { isAuthenticated, user } = useAuth();
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const { user } = useAuth();
+  const { toStudioDay } = useSettings();
+  const [selectedDate, setSelectedDate] = useState<Date>(() =>
+    toStudioDay(new Date()),
+  );
+  const [resourceId, setResourceId] = useState<string>(ALL_RESOURCES);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  if (!isAuthenticated) {
-    return <Navigate to="/auth" replace />;
-  }
-
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date);
     setIsModalOpen(true);
@@ -63,11 +66,18 @@ export default function Dashboard() {
             <BookingCalendar
               onDateSelect={handleDateSelect}
               selectedDate={selectedDate}
+              resourceId={resourceId}
+              onResourceChange={setResourceId}
             />
           </div>
 
           {/* Booking History */}
-          <div className="animate-slide-up" style={{ animationDelay: "200ms" }}>
+          <div
+            className="space-y-6 animate-slide-up"
+            style={{ animationDelay: "200ms" }}
+          >
+            <QuotaSummary />
+            <WaitlistPanel />
             <BookingHistory />
           </div>
         </div>
@@ -77,6 +87,7 @@ export default function Dashboard() {
         open={isModalOpen}
         onOpenChange={setIsModalOpen}
         selectedDate={selectedDate}
+        resourceId={resourceId}
       />
     </div>
   );
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { sendPasswordResetEmail } from "@/services/authService";
+import { AuthCard } from "@/components/AuthCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Mail, MailCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    const { error } = await sendPasswordResetEmail(email.trim());
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    setSentTo(email.trim());
+  };
+
+  return (
+    <AuthCard
+      title="Forgot your password?"
+      description="Enter the email you registered with and we'll send you a link to choose a new password."
+    >
+      {sentTo ? (
+        <div className="rounded-lg border border-border bg-secondary/50 p-4 flex gap-3">
+          <MailCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            If <span className="text-foreground">{sentTo}</span> has an account,
+            a reset link is on its way. The link can only be used once.
+          </p>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="pl-10 bg-secondary border-border"
+                required
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            className="w-full bg-gradient-primary hover:opacity-90 h-11"
+            disabled={isLoading}
+          >
+            {isLoading ? "Please wait..." : "Send Reset Link"}
+          </Button>
+        </form>
+      )}
+
+      <Link
+        to="/auth"
+        className="mt-6 inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to sign in
+      </Link>
+    </AuthCard>
+  );
+}
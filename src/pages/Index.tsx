@@ -1,19 +1,10 @@
-import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
 import { ArrowRight, Calendar, Shield, Zap } from "lucide-react";
 import logo from "@/assets/digital_gurkha.jpeg";
 
 export default function Index() {
   const navigate = useNavigate();
-  const { isAuthenticated, user } = useAuth();
-
-  useEffect(() => {
-    if (isAuthenticated && user) {
-      navigate(user.role === "admin" ? "/admin" : "/dashboard");
-    }
-  }, [isAuthenticated, user, navigate]);
 
   const features = [
     {
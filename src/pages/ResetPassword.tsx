@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { updatePassword } from "@/services/authService";
+import { AuthCard } from "@/components/AuthCard";
+import { homePath } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const { user, isLoading } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (isLoading) {
+    return <AuthCard title="Loading..." />;
+  }
+
+  // The reset link signs the user in, without it there's nothing to reset
+  if (!user) {
+    return (
+      <AuthCard
+        title="Link expired"
+        description="This password reset link is invalid or has already been used."
+      >
+        <Button asChild className="bg-gradient-primary hover:opacity-90">
+          <Link to="/forgot-password">Request a new link</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password Too Short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (password !== confirmation) {
+      toast({
+        title: "Passwords Don't Match",
+        description: "Please type the same password twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await updatePassword(password);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Password Updated",
+      description: "Use your new password the next time you sign in",
+    });
+    navigate(homePath(user), { replace: true });
+  };
+
+  return (
+    <AuthCard
+      title="Choose a new password"
+      description={`Signed in as ${user.email}`}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="space-y-2">
+          <Label htmlFor="password">New password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              id="password"
+              type="password"
+              placeholder="••••••••"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="pl-10 bg-secondary border-border"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="password-confirmation">Repeat new password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              id="password-confirmation"
+              type="password"
+              placeholder="••••••••"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="pl-10 bg-secondary border-border"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        </div>
+        <Button
+          type="submit"
+          className="w-full bg-gradient-primary hover:opacity-90 h-11"
+          disabled={isSaving}
+        >
+          {isSaving ? "Please wait..." : "Update Password"}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
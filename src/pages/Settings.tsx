@@ -0,0 +1,58 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/context/AuthContext";
+import { homePath } from "@/lib/permissions";
+import { Navbar } from "@/components/Navbar";
+import { ProfileSettings } from "@/components/ProfileSettings";
+import { AccountSettings } from "@/components/AccountSettings";
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+
+export default function Settings() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) return null;
+
+  const home = homePath(user);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        {/* Heading */}
+        <div className="mb-8 animate-fade-in">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(home)}
+            className="mb-2 -ml-3 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            {home === "/admin" ? "Admin Panel" : "Dashboard"}
+          </Button>
+          <h1 className="font-display text-3xl font-bold mb-2">
+            Your <span className="text-gradient">Settings</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Manage your profile, which notifications you get, your account and
+            your calendar link
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="animate-slide-up" style={{ animationDelay: "100ms" }}>
+            <ProfileSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "200ms" }}>
+            <AccountSettings />
+          </div>
+          <div className="animate-slide-up" style={{ animationDelay: "300ms" }}>
+            <CalendarFeedSettings />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
  *
  * This file contains all authentication-related functions that interact
  * with Supabase Auth. It provides a clean API for:
- * - User registration with profile creation
- * - User login with email/password
+ * - User registration and resending the verification email
+ * - User login with email/password or a magic link
+ * - Password reset and changing the email address
+ * - Completing the flows that come back from an email link
  * - Session management
  * - User role retrieval
  * - Logout functionality
@@ -13,7 +15,7 @@
  */
 
 import { supabase } from "@/lib/supabase";
-import type { User } from "@supabase/supabase-js";
+import type { EmailOtpType, User } from "@supabase/supabase-js";
 import { toast } from "@/hooks/use-toast";
 import Cookie from "js-cookie";
 
@@ -42,30 +44,51 @@ export interface UserProfile {
   email: string;
   name: string;
   role: UserRole;
+  avatar_url: string | null;
+}
+
+/**
+ * Outcome of a registration
+ * - user: The new user, null while their email still has to be verified
+ * - verificationPending: Whether they must open the verification email
+ *   before they can sign in
+ */
+export interface Registration {
+  user: UserProfile | null;
+  verificationPending: boolean;
+}
+
+/**
+ * URL the links in auth emails lead back to
+ *
+ * The callback page completes the flow and then continues to `next`.
+ * It must be listed in the Supabase project's redirect URLs.
+ */
+function authCallbackUrl(next?: string): string {
+  const url = `${window.location.origin}/auth/callback`;
+  return next ? `${url}?next=${encodeURIComponent(next)}` : url;
 }
 
 /**
  * Register a new user
  *
- * This function:
- * 1. Creates a new auth user in Supabase Auth
- * 2. Creates a profile record in the profiles table
- * 3. Assigns a role in the user_roles table
+ * This function creates a new auth user in Supabase Auth. The database
+ * then creates their profile and gives them the 'user' role, only admins
+ * can make other admins.
  *
  * @param email - User's email address
  * @param password - User's password (min 6 characters)
  * @param name - User's display name
- * @param role - User's role (defaults to 'user')
- * @returns AuthResponse with UserProfile on success
+ * @returns AuthResponse with the Registration on success, the user is only
+ *   signed in right away when email confirmation is off
  */
 export async function registerUser(
   email: string,
   password: string,
-  name: string,
-  role: UserRole = "user"
-): Promise<AuthResponse<UserProfile>> {
+  name: string
+): Promise<AuthResponse<Registration>> {
   try {
-    // Step 1: Create the auth user
+    // Create the auth user
     // This adds the user to Supabase's auth.users table
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email,
@@ -74,10 +97,9 @@ export async function registerUser(
         // Include metadata that can be used in database triggers
         data: {
           name,
-          role,
         },
         // Redirect URL after email confirmation (if enabled)
-        emailRedirectTo: window.location.origin,
+        emailRedirectTo: authCallbackUrl(),
       },
     });
 
@@ -97,49 +119,22 @@ export async function registerUser(
       return { data: null, error: "Failed to create user account" };
     }
 
-    toast({
-      title: "Welcome back!",
-      description: "You've been logged in successfully",
-    });
-
-    console.log(authData.user);
-    // Step 2: Create the user profile
-    // This stores additional user information in our profiles table
-    const { error: profileError } = await supabase.from("profiles").insert({
-      id: authData.user.id,
-      email,
-      name,
-      role,
-    });
-
-    // Handle profile creation errors
-    if (profileError) {
-      console.error("Profile creation error:", profileError);
-      // Note: The auth user was created, but profile failed
-      // In production, you might want to clean up the auth user
-      return { data: null, error: "Failed to create user profile" };
+    // Without a session the email has to be verified first
+    if (!authData.session) {
+      return { data: { user: null, verificationPending: true }, error: null };
     }
 
-    // // Step 3: Assign the user role
-    // // This is stored in a separate table for security
-    // const { error: roleError } = await supabase.from("profiles").insert({
-    //   user_id: authData.user.id,
-    //   role,
-    // });
-
-    // // Handle role assignment errors
-    // if (roleError) {
-    //   console.error("Role assignment error:", roleError);
-    //   return { data: null, error: "Failed to assign user role" };
-    // }
-
     // Return the complete user profile
     return {
       data: {
-        id: authData.user.id,
-        email,
-        name,
-        role,
+        user: {
+          id: authData.user.id,
+          email,
+          name,
+          role: "user",
+          avatar_url: null,
+        },
+        verificationPending: false,
       },
       error: null,
     };
@@ -192,6 +187,8 @@ export async function loginUser(
     const userProfile = await getUserProfile(authData.user.id);
 
     if (!userProfile.data) {
+      // Don't keep a session the app can't be used with
+      await supabase.auth.signOut();
       return {
         data: null,
         error: userProfile.error || "Failed to fetch profile",
@@ -212,7 +209,8 @@ export async function loginUser(
  * Get the current authenticated user's profile
  *
  * This function fetches the profile and role for a given user ID.
- * It's used after login and for session restoration.
+ * It's used after login and for session restoration. Suspended members
+ * get an error instead of their profile.
  *
  * @param userId - The user's UUID from auth.users
  * @returns AuthResponse with UserProfile on success
@@ -221,10 +219,10 @@ export async function getUserProfile(
   userId: string
 ): Promise<AuthResponse<UserProfile>> {
   try {
-    // Fetch the user's profile from the profiles table
+    // Fetch the user's profile with their role from the user_roles table
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
-      .select("*")
+      .select("*, user_roles(role)")
       .eq("id", userId)
       .maybeSingle();
 
@@ -239,20 +237,15 @@ export async function getUserProfile(
       return { data: null, error: "User profile not found" };
     }
 
-    // // Fetch the user's role from the user_roles table
-    // const { data: roleData, error: roleError } = await supabase
-    //   .from("profiles")
-    //   .select("role")
-    //   .maybeSingle();
-
-    // // Handle role fetch errors
-    // if (roleError) {
-    //   console.error("Role fetch error:", roleError);
-    //   return { data: null, error: "Failed to fetch user role" };
-    // }
+    if (profile.suspended_at) {
+      return {
+        data: null,
+        error: "Your account has been suspended. Please contact the studio.",
+      };
+    }
 
     // Default to 'user' role if no role is assigned
-    const role: UserRole = (profile?.role as UserRole) || "user";
+    const role: UserRole = (profile.user_roles?.role as UserRole) || "user";
 
     // Return the complete user profile
     return {
@@ -261,6 +254,7 @@ export async function getUserProfile(
         email: profile.email as string,
         name: profile.name as string,
         role,
+        avatar_url: (profile.avatar_url as string | null) ?? null,
       },
       error: null,
     };
@@ -327,6 +321,229 @@ export async function logoutUser(): Promise<AuthResponse> {
   }
 }
 
+/**
+ * Send a magic link to sign in without a password
+ *
+ * Only existing accounts get a link, the link doesn't register anyone.
+ *
+ * @param email - User's email address
+ * @returns AuthResponse indicating success or failure
+ */
+export async function sendMagicLink(email: string): Promise<AuthResponse> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: authCallbackUrl(),
+      },
+    });
+
+    if (error) {
+      console.error("Magic link error:", error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected magic link error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while sending the link",
+    };
+  }
+}
+
+/**
+ * Send the verification email of a new account again
+ *
+ * @param email - User's email address
+ * @returns AuthResponse indicating success or failure
+ */
+export async function resendVerificationEmail(
+  email: string
+): Promise<AuthResponse> {
+  try {
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email,
+      options: { emailRedirectTo: authCallbackUrl() },
+    });
+
+    if (error) {
+      console.error("Resend verification error:", error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected resend error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while sending the email",
+    };
+  }
+}
+
+/**
+ * Send a link to choose a new password
+ *
+ * The link signs the user in and leads to the reset password page.
+ *
+ * @param email - User's email address
+ * @returns AuthResponse indicating success or failure
+ */
+export async function sendPasswordResetEmail(
+  email: string
+): Promise<AuthResponse> {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authCallbackUrl("/reset-password"),
+    });
+
+    if (error) {
+      console.error("Password reset error:", error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected password reset error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while sending the email",
+    };
+  }
+}
+
+/**
+ * Change the signed in user's password
+ *
+ * @param password - The new password (min 6 characters)
+ * @returns AuthResponse indicating success or failure
+ */
+export async function updatePassword(password: string): Promise<AuthResponse> {
+  try {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      console.error("Update password error:", error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update password error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while updating the password",
+    };
+  }
+}
+
+/**
+ * Change the signed in user's email address
+ *
+ * Supabase sends a confirmation link to the new address, the email only
+ * changes once it is opened.
+ *
+ * @param email - The new email address
+ * @returns AuthResponse indicating success or failure
+ */
+export async function updateEmail(email: string): Promise<AuthResponse> {
+  try {
+    const { error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: authCallbackUrl("/settings") }
+    );
+
+    if (error) {
+      console.error("Update email error:", error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update email error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while updating the email",
+    };
+  }
+}
+
+/**
+ * Complete the flow an auth email link started
+ *
+ * This function handles the redirect of verification, magic link and
+ * password reset emails:
+ * 1. Reports errors Supabase sent back, e.g. an expired link
+ * 2. Verifies the token of links that carry a token_hash
+ * 3. Otherwise picks up the session the client read from the URL
+ * 4. Fetches the user's profile
+ *
+ * @param url - The URL the email link led to
+ * @returns AuthResponse with UserProfile on success
+ */
+export async function completeAuthRedirect(
+  url: string
+): Promise<AuthResponse<UserProfile>> {
+  try {
+    const { searchParams, hash } = new URL(url);
+    const hashParams = new URLSearchParams(hash.replace(/^#/, ""));
+
+    // Step 1: Errors come back in the query or in the fragment
+    const redirectError =
+      searchParams.get("error_description") ??
+      hashParams.get("error_description");
+    if (redirectError) {
+      return { data: null, error: redirectError };
+    }
+
+    // Step 2: Links from custom email templates carry a token hash
+    const tokenHash = searchParams.get("token_hash");
+    const type = searchParams.get("type") as EmailOtpType | null;
+    if (tokenHash && type) {
+      const { error } = await supabase.auth.verifyOtp({
+        token_hash: tokenHash,
+        type,
+      });
+
+      if (error) {
+        console.error("Verify link error:", error);
+        return { data: null, error: error.message };
+      }
+    }
+
+    // Step 3: The session is set up by now
+    const user = await getCurrentSession();
+    if (!user) {
+      return {
+        data: null,
+        error: "This link is invalid or has expired. Please request a new one.",
+      };
+    }
+
+    // Step 4: Fetch the user's complete profile with role
+    const userProfile = await getUserProfile(user.id);
+    if (!userProfile.data) {
+      await supabase.auth.signOut();
+      return {
+        data: null,
+        error: userProfile.error || "Failed to fetch profile",
+      };
+    }
+
+    return { data: userProfile.data, error: null };
+  } catch (error) {
+    console.error("Unexpected auth redirect error:", error);
+    return {
+      data: null,
+      error: "An unexpected error occurred while signing you in",
+    };
+  }
+}
+
 /**
  * Subscribe to auth state changes
  *
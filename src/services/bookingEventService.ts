@@ -0,0 +1,221 @@
+/**
+ * Booking Event Service
+ *
+ * This file contains all functions for the booking audit trail.
+ * Events are written by a database trigger on every change of a booking,
+ * the app only reads them. It provides a clean API for:
+ * - Reading the timeline of a single booking
+ * - Reading the studio wide audit log with filters, a page at a time
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { DEFAULT_TIMEZONE, studioDayRange } from "@/lib/studioTime";
+import type { BookingCursor, BookingResponse } from "@/services/bookingService";
+
+/**
+ * Event type matching database constraint
+ * - created: Booking was requested
+ * - edited: Time, room or reason was changed
+ * - approved / rejected: Decision of an admin
+ * - cancelled: Booking was cancelled
+ */
+export type BookingEventType =
+  "created" | "edited" | "approved" | "rejected" | "cancelled";
+
+/**
+ * Old and new value of each changed field, keyed by column name
+ */
+export type BookingEventChanges = Record<
+  string,
+  { old: string | null; new: string | null }
+>;
+
+/**
+ * Booking event record from the database
+ * - actor_id/actor_name: Who made the change, null for system changes
+ * - booking_user_id/booking_reason: Snapshot of the booking at that time
+ */
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  booking_user_id: string | null;
+  booking_reason: string | null;
+  event_type: BookingEventType;
+  actor_id: string | null;
+  actor_name: string | null;
+  changes: BookingEventChanges | null;
+  remarks: string | null;
+  created_at: string;
+}
+
+/**
+ * Filters of the audit log
+ * - from/to: Date range (YYYY-MM-DD), both inclusive
+ * - timeZone: Timezone the days of the date range are in
+ */
+export interface BookingEventFilters {
+  actorId?: string;
+  eventType?: BookingEventType;
+  from?: string;
+  to?: string;
+  timeZone?: string;
+}
+
+/**
+ * Someone who made changes to bookings
+ */
+export interface BookingEventActor {
+  id: string;
+  name: string;
+}
+
+/**
+ * One page of the audit log
+ * - nextCursor: Where the next page starts, null on the last page
+ */
+export interface BookingEventPage {
+  events: BookingEvent[];
+  nextCursor: BookingCursor | null;
+}
+
+// Events per page of the audit log
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+/**
+ * Fetch the timeline of a booking
+ *
+ * @param bookingId - The booking's UUID
+ * @returns BookingResponse with the events, oldest first
+ */
+export async function fetchBookingEvents(
+  bookingId: string
+): Promise<BookingResponse<BookingEvent[]>> {
+  try {
+    const { data, error } = await supabase
+      .from("booking_events")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .order("created_at", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch booking events error:", error);
+      return { data: null, error: "Failed to fetch booking history" };
+    }
+
+    return { data: (data as BookingEvent[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch one page of the audit log
+ *
+ * This function retrieves the events of all bookings matching the filters,
+ * newest first. Used by admins on the audit page. Like the booking lists,
+ * pages are cut with a cursor so new events don't shift the later pages.
+ *
+ * @param filters - Actor, event type and date range to filter by
+ * @param cursor - Where the page starts, null for the first page
+ * @returns BookingResponse with the page and the cursor of the next one
+ */
+export async function fetchAuditLog(
+  filters: BookingEventFilters = {},
+  cursor: BookingCursor | null = null
+): Promise<BookingResponse<BookingEventPage>> {
+  try {
+    let query = supabase.from("booking_events").select("*");
+
+    if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+    if (filters.eventType) query = query.eq("event_type", filters.eventType);
+    const timeZone = filters.timeZone ?? DEFAULT_TIMEZONE;
+    if (filters.from) {
+      const { start } = studioDayRange(filters.from, timeZone);
+      query = query.gte("created_at", start.toISOString());
+    }
+    if (filters.to) {
+      // Include the whole last day
+      const { end } = studioDayRange(filters.to, timeZone);
+      query = query.lt("created_at", end.toISOString());
+    }
+
+    // Events older than the cursor, values are quoted for PostgREST
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.value}",` +
+          `and(created_at.eq."${cursor.value}",id.lt.${cursor.id})`
+      );
+    }
+
+    // One event more than a page tells whether another page follows
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(AUDIT_LOG_PAGE_SIZE + 1);
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch audit log error:", error);
+      return { data: null, error: "Failed to fetch audit log" };
+    }
+
+    const rows = (data as BookingEvent[]) || [];
+    const events = rows.slice(0, AUDIT_LOG_PAGE_SIZE);
+    const last = events[events.length - 1];
+    return {
+      data: {
+        events,
+        nextCursor:
+          rows.length > AUDIT_LOG_PAGE_SIZE
+            ? { value: last.created_at, id: last.id }
+            : null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch everyone who appears as actor in the audit log
+ *
+ * @returns BookingResponse with the actors, sorted by name
+ */
+export async function fetchEventActors(): Promise<
+  BookingResponse<BookingEventActor[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("booking_events")
+      .select("actor_id, actor_name")
+      .not("actor_id", "is", null);
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch event actors error:", error);
+      return { data: null, error: "Failed to fetch actors" };
+    }
+
+    // Keep one entry per actor
+    const actors = new Map<string, string>();
+    for (const row of data || []) {
+      actors.set(row.actor_id, row.actor_name || "Unknown user");
+    }
+
+    return {
+      data: [...actors]
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
@@ -3,90 +3,505 @@
  *
  * This file contains all booking-related functions that interact
  * with the Supabase database. It provides a clean API for:
- * - Creating new bookings
- * - Reading bookings (all, by user, by date, by status)
+ * - Creating new bookings (single or recurring series)
+ * - Checking the availability of series occurrences
+ * - Reading bookings (filtered by user, status, resource and date range),
+ *   all at once or a page at a time
+ * - Counting bookings by status
+ * - Reading the anonymised busy time of every resource
  * - Updating booking details
  * - Updating booking status (approve/reject)
- * - Deleting bookings
- * - Real-time subscription to booking changes
+ * - Cancelling bookings
+ * - Editing / cancelling one occurrence, the following ones or a whole series
+ * - Catching up on the bookings changed since a point in time
+ * - Real-time subscription to row level booking changes
+ *
+ * Users can only read their own bookings, admins all of them. The busy
+ * time of everyone else, and the events imported from external calendars,
+ * comes from the booking_availability view.
  *
  * All functions include error handling and return consistent response formats.
  */
 
 import { supabase } from "@/lib/supabase";
+import type { PostgrestError } from "@supabase/supabase-js";
+import type { Occurrence, RecurrenceRule } from "@/lib/recurrence";
+import { getTakenSlotTimes } from "@/lib/slots";
+import { studioDayRange } from "@/lib/studioTime";
 
 /**
  * Booking status enum matching database constraint
  * - pending: New booking awaiting admin approval
  * - approved: Booking confirmed by admin
  * - rejected: Booking denied by admin
+ * - cancelled: Booking called off by its owner or an admin
  */
-export type BookingStatus = "pending" | "approved" | "rejected" | "today";
-export type BookingRemarks = "";
+export type BookingStatus =
+  "pending" | "approved" | "rejected" | "cancelled" | "today";
+
+/**
+ * Remarks an admin attaches to a decision
+ * - Required reason when rejecting, optional notes when approving
+ * - null when no remarks were given
+ */
+export type BookingRemarks = string | null;
 
 /**
  * Booking record from the database
+ * - ical_sequence: How often the booking changed in a way calendar apps
+ *   need to pick up, its SEQUENCE in iCalendar files
  */
 export interface Booking {
   id: string;
   user_id: string;
   user_name: string;
+  resource_id: string;
   start_time: string;
   end_time: string;
   status: BookingStatus;
   reason: string;
+  remarks: BookingRemarks;
+  series_id: string | null;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  reschedule_count: number;
+  ical_sequence: number;
   created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Filters of a booking list, all optional
+ * - ids: Only these bookings
+ * - userId: Bookings of one user
+ * - resourceId: Bookings of one resource
+ * - status: Bookings with this status
+ * - from / to: Bookings starting in this range of ISO timestamps, the end
+ *   excluded
+ */
+export interface BookingFilters {
+  ids?: string[];
+  userId?: string;
+  resourceId?: string;
+  status?: Exclude<BookingStatus, "today">;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Order of a paginated booking list, ties are broken by id
+ */
+export interface BookingSort {
+  column: "created_at" | "start_time";
+  ascending: boolean;
+}
+
+/**
+ * Position after the last booking of a page
+ * - value: The sort column of that booking
+ * - id: Its id, for bookings with the same value
+ */
+export interface BookingCursor {
+  value: string;
+  id: string;
+}
+
+/**
+ * One page of a booking list
+ * - nextCursor: Where the next page starts, null on the last page
+ */
+export interface BookingPage {
+  bookings: Booking[];
+  nextCursor: BookingCursor | null;
+}
+
+/**
+ * Number of bookings with each status
+ */
+export type BookingCounts = Record<Exclude<BookingStatus, "today">, number>;
+
+/**
+ * Start and end of a time range, ISO timestamps
+ */
+export interface TimeRange {
+  from: string;
+  to: string;
+}
+
+// Bookings per page of a paginated list
+export const BOOKING_PAGE_SIZE = 25;
+
+// Ids per request when fetching bookings by id
+const IDS_PER_REQUEST = 100;
+
+/**
+ * A row level change of a booking, as delivered by realtime
+ * - upsert: The booking was created or changed
+ * - delete: The booking was deleted, only its id is known
+ */
+export type BookingChange =
+  { type: "upsert"; booking: Booking } | { type: "delete"; id: string };
+
+/**
+ * Pending or approved booking as everyone can see it, or an event of an
+ * imported calendar that blocks the resource (status "blocked")
+ * - is_own: Whether the current user made the booking
+ */
+export interface BookingAvailability {
+  id: string;
+  resource_id: string;
+  start_time: string;
+  end_time: string;
+  status: Extract<BookingStatus, "pending" | "approved"> | "blocked";
+  is_own: boolean;
 }
 
 /**
  * Data required to create a new booking
+ * - recurrence: Set to request a recurring series starting at start_time
  */
 export interface NewBooking {
   user_id: string;
   user_name: string;
+  resource_id: string;
   start_time: string;
   end_time: string;
   reason: string;
+  recurrence?: RecurrenceRule;
+}
+
+/**
+ * Which occurrences of a series an edit or cancellation applies to
+ * - occurrence: Only the selected booking
+ * - following: The selected booking and all later ones of the series
+ * - series: Every booking of the series
+ */
+export type SeriesScope = "occurrence" | "following" | "series";
+
+/**
+ * Availability of one occurrence of a series
+ * - conflict: Time range of the booking it overlaps, null when free
+ */
+export interface OccurrenceCheck extends Occurrence {
+  conflict: BookingConflict | null;
 }
 
 /**
  * Data for updating an existing booking
  */
 export interface BookingUpdate {
+  resource_id?: string;
   start_time?: string;
   end_time?: string;
   reason?: string;
   status?: BookingStatus;
 }
 
+/**
+ * Time range of an existing booking that blocks a create/update
+ */
+export interface BookingConflict {
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * What blocked a booking, the hint of the database exception
+ * - booking_policy: Cancellation or modification policy
+ * - booking_quota: The user's quota
+ * - member_suspended: The user is suspended
+ * - calendar_block: An event of an imported calendar
+ */
+export type BookingViolationKind =
+  "booking_policy" | "booking_quota" | "member_suspended" | "calendar_block";
+
 /**
  * Response type for booking operations
  * Provides consistent error handling across all functions
+ * - conflict: Set when the database rejected an overlapping booking
+ * - violation: Set when the booking policy or the user's quota blocked
+ *   the change, holds the explanation to show to the user
+ * - violationKind: Which rule the violation broke
  */
 export interface BookingResponse<T = void> {
   data: T | null;
   error: string | null;
+  conflict?: BookingConflict | null;
+  violation?: string | null;
+  violationKind?: BookingViolationKind | null;
 }
 
+// SQLSTATE raised by the bookings_no_overlap exclusion constraint
+const EXCLUSION_VIOLATION = "23P01";
+
+// Hints of the exceptions raised by the enforce_booking_policy,
+// enforce_booking_quota, enforce_member_active and enforce_calendar_blocks
+// triggers
+const VIOLATION_HINTS = [
+  "booking_policy",
+  "booking_quota",
+  "member_suspended",
+  "calendar_block",
+];
+
 /**
- * Fetch all bookings from the database
+ * Extract the conflicting booking's time range from an exclusion violation
  *
- * This function retrieves all booking records, ordered by creation date.
- * Used by admins to see all bookings in the system.
+ * Postgres reports the existing key in the error detail, e.g.
+ * `... conflicts with existing key (resource_id, tstzrange(...))=(<id>,
+ * ["2026-02-10 10:30:00+00","2026-02-10 12:00:00+00")).`
  *
+ * @param error - The error returned by Supabase
+ * @param fallback - Range to report when the detail cannot be parsed
+ * @returns The conflict, or null when the error is not an overlap
+ */
+function toBookingConflict(
+  error: PostgrestError,
+  fallback: BookingConflict
+): BookingConflict | null {
+  if (error.code !== EXCLUSION_VIOLATION) return null;
+
+  const existingKey = error.details?.split("conflicts with existing key")[1];
+  const match = existingKey?.match(/\["([^"]+)","([^"]+)"\)/);
+  if (!match) return fallback;
+
+  // Postgres prints "2026-02-10 10:30:00+00", make it ISO 8601
+  const toIso = (timestamp: string) =>
+    new Date(
+      timestamp.replace(" ", "T").replace(/([+-]\d{2})$/, "$1:00")
+    ).toISOString();
+
+  return { start_time: toIso(match[1]), end_time: toIso(match[2]) };
+}
+
+/**
+ * Check that a booking's time range is valid
+ *
+ * The check constraint on the bookings table rejects the same ranges, this
+ * catches them before a request is sent.
+ *
+ * @param startTime - The start, as a Date or ISO 8601 string
+ * @param endTime - The end, as a Date or ISO 8601 string
+ * @returns An error message, or null when the range is valid
+ */
+export function validateTimeRange(
+  startTime: Date | string,
+  endTime: Date | string
+): string | null {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end)) return "Invalid time range";
+  if (end <= start) return "End time must be after start time";
+  return null;
+}
+
+/**
+ * Build the response of a write rejected by the overlap constraint
+ */
+function conflictResponse<T>(conflict: BookingConflict): BookingResponse<T> {
+  return {
+    data: null,
+    error: "This time range overlaps with another booking",
+    conflict,
+  };
+}
+
+/**
+ * Build the response of a write blocked by the booking policy or a quota
+ *
+ * @returns The response, or null when the error is not a violation
+ */
+function policyResponse<T>(error: PostgrestError): BookingResponse<T> | null {
+  if (!VIOLATION_HINTS.includes(error.hint)) return null;
+  return {
+    data: null,
+    error: error.message,
+    violation: error.message,
+    violationKind: error.hint as BookingViolationKind,
+  };
+}
+
+// Query of the bookings matching the filters
+function filteredBookings(
+  filters: BookingFilters,
+  options?: { count: "exact"; head: true }
+) {
+  let query = supabase.from("bookings").select("*", options);
+  if (filters.ids) query = query.in("id", filters.ids);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.resourceId) query = query.eq("resource_id", filters.resourceId);
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.from) query = query.gte("start_time", filters.from);
+  if (filters.to) query = query.lt("start_time", filters.to);
+  return query;
+}
+
+/**
+ * Fetch bookings from the database
+ *
+ * This function retrieves the booking records the user may read that match
+ * the filters, ordered by creation date: every booking for admins, their
+ * own for other users.
+ *
+ * @param filters - Which bookings to fetch, all of them when empty
  * @returns BookingResponse with array of bookings
  */
-export async function fetchAllBookings(): Promise<BookingResponse<Booking[]>> {
+export async function fetchBookings(
+  filters: BookingFilters = {}
+): Promise<BookingResponse<Booking[]>> {
+  try {
+    // Long id lists are asked for in chunks to keep the URLs short
+    const idChunks: (string[] | undefined)[] = [];
+    for (let i = 0; i < (filters.ids?.length ?? 0); i += IDS_PER_REQUEST) {
+      idChunks.push(filters.ids.slice(i, i + IDS_PER_REQUEST));
+    }
+    if (!filters.ids) idChunks.push(undefined);
+
+    // Newest first
+    const results = await Promise.all(
+      idChunks.map((ids) =>
+        filteredBookings({ ...filters, ids }).order("created_at", {
+          ascending: false,
+        })
+      )
+    );
+
+    // Handle query errors
+    const failed = results.find(({ error }) => error);
+    if (failed) {
+      console.error("Fetch bookings error:", failed.error);
+      return { data: null, error: "Failed to fetch bookings" };
+    }
+
+    const bookings = results.flatMap(({ data }) => (data as Booking[]) || []);
+    if (idChunks.length > 1) {
+      bookings.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+    return { data: bookings, error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch one page of bookings
+ *
+ * Pages are cut with a cursor instead of an offset, so bookings created
+ * while paging don't shift the following pages.
+ *
+ * @param filters - Which bookings to fetch
+ * @param sort - Order of the whole list
+ * @param cursor - Where the page starts, null for the first page
+ * @returns BookingResponse with the page and the cursor of the next one
+ */
+export async function fetchBookingsPage(
+  filters: BookingFilters,
+  sort: BookingSort,
+  cursor: BookingCursor | null = null
+): Promise<BookingResponse<BookingPage>> {
+  try {
+    const { column, ascending } = sort;
+    let query = filteredBookings(filters);
+
+    // Bookings after the cursor, values are quoted for PostgREST
+    if (cursor) {
+      const op = ascending ? "gt" : "lt";
+      query = query.or(
+        `${column}.${op}."${cursor.value}",` +
+          `and(${column}.eq."${cursor.value}",id.${op}.${cursor.id})`
+      );
+    }
+
+    // One booking more than a page tells whether another page follows
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order("id", { ascending })
+      .limit(BOOKING_PAGE_SIZE + 1);
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch bookings page error:", error);
+      return { data: null, error: "Failed to fetch bookings" };
+    }
+
+    const rows = (data as Booking[]) || [];
+    const bookings = rows.slice(0, BOOKING_PAGE_SIZE);
+    const last = bookings[bookings.length - 1];
+    return {
+      data: {
+        bookings,
+        nextCursor:
+          rows.length > BOOKING_PAGE_SIZE
+            ? { value: last[column], id: last.id }
+            : null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Count the bookings with each status
+ *
+ * @param filters - Which bookings to count, the status filter is ignored
+ * @returns BookingResponse with the number of bookings per status
+ */
+export async function fetchBookingCounts(
+  filters: BookingFilters = {}
+): Promise<BookingResponse<BookingCounts>> {
+  try {
+    const statuses = ["pending", "approved", "rejected", "cancelled"] as const;
+    const results = await Promise.all(
+      statuses.map((status) =>
+        filteredBookings({ ...filters, status }, { count: "exact", head: true })
+      )
+    );
+
+    // Handle query errors
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error("Count bookings error:", failed.error);
+      return { data: null, error: "Failed to count bookings" };
+    }
+
+    const counts = {} as BookingCounts;
+    statuses.forEach((status, i) => {
+      counts[status] = results[i].count ?? 0;
+    });
+    return { data: counts, error: null };
+  } catch (error) {
+    console.error("Unexpected count error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch the bookings changed since a point in time
+ *
+ * Used to catch up after the realtime connection dropped. Bookings changed
+ * at exactly that time are included, applying them twice is harmless.
+ *
+ * @param since - ISO timestamp, the latest updated_at seen so far
+ * @returns BookingResponse with the changed bookings, oldest change first
+ */
+export async function fetchBookingsChangedSince(
+  since: string
+): Promise<BookingResponse<Booking[]>> {
   try {
-    // Query the bookings table, ordered by newest first
     const { data, error } = await supabase
       .from("bookings")
       .select("*")
-      .order("created_at", { ascending: false });
+      .gte("updated_at", since)
+      .order("updated_at", { ascending: true });
 
     // Handle query errors
     if (error) {
-      console.error("Fetch bookings error:", error);
+      console.error("Fetch changed bookings error:", error);
       return { data: null, error: "Failed to fetch bookings" };
     }
 
@@ -97,6 +512,67 @@ export async function fetchAllBookings(): Promise<BookingResponse<Booking[]>> {
   }
 }
 
+/**
+ * Fetch the ids of all bookings the user may read
+ *
+ * Deleted bookings leave no updated_at behind, so after a dropped
+ * connection the ids tell which of the loaded bookings are gone.
+ *
+ * @returns BookingResponse with the booking ids
+ */
+export async function fetchBookingIds(): Promise<BookingResponse<string[]>> {
+  try {
+    const { data, error } = await supabase.from("bookings").select("id");
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch booking ids error:", error);
+      return { data: null, error: "Failed to fetch bookings" };
+    }
+
+    return { data: (data || []).map((row) => row.id), error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch the busy time of every resource
+ *
+ * This function retrieves the pending and approved bookings of all users,
+ * without who made them or why, and the blocked time of imported calendars.
+ * Used to show availability in the calendar.
+ *
+ * @param range - Only bookings overlapping this range, e.g. a month
+ * @returns BookingResponse with array of busy time ranges
+ */
+export async function fetchAvailability(
+  range?: TimeRange
+): Promise<BookingResponse<BookingAvailability[]>> {
+  try {
+    let query = supabase.from("booking_availability").select("*");
+    if (range) {
+      query = query.gt("end_time", range.from).lt("start_time", range.to);
+    }
+
+    const { data, error } = await query.order("start_time", {
+      ascending: true,
+    });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch availability error:", error);
+      return { data: null, error: "Failed to fetch availability" };
+    }
+
+    return { data: (data as BookingAvailability[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
 /**
  * Fetch bookings for a specific user
  *
@@ -133,27 +609,28 @@ export async function fetchUserBookings(
 /**
  * Fetch bookings for a specific date
  *
- * This function retrieves all bookings that start on a given date.
+ * This function retrieves all bookings that start on a given studio day.
  * Used for the calendar view to show daily bookings.
  *
  * @param date - The date to query (YYYY-MM-DD format)
+ * @param timeZone - The studio's timezone
  * @returns BookingResponse with array of bookings for that date
  */
 export async function fetchBookingsForDate(
-  date: string
+  date: string,
+  timeZone: string
 ): Promise<BookingResponse<Booking[]>> {
   try {
     // Create the date range for the query
-    // We need to find bookings that start on this date
-    const startOfDay = `${date}T00:00:00`;
-    const endOfDay = `${date}T23:59:59`;
+    // We need to find bookings that start on this studio day
+    const { start, end } = studioDayRange(date, timeZone);
 
     // Query bookings within the date range
     const { data, error } = await supabase
       .from("bookings")
       .select("*")
-      .gte("start_time", startOfDay)
-      .lte("start_time", endOfDay)
+      .gte("start_time", start.toISOString())
+      .lt("start_time", end.toISOString())
       .order("start_time", { ascending: true });
 
     // Handle query errors
@@ -184,7 +661,7 @@ export async function fetchBookingsByStatus(
   try {
     // Query bookings filtered by status
     const { data, error } = await supabase
-      .from("slots")
+      .from("bookings")
       .select("*")
       .eq("status", status)
       .order("created_at", { ascending: false });
@@ -207,6 +684,9 @@ export async function fetchBookingsByStatus(
  *
  * This function inserts a new booking record into the database.
  * The booking starts with 'pending' status awaiting admin approval.
+ * If the time range overlaps another pending or approved booking of the
+ * same resource, the response carries the conflicting range. Bookings
+ * over the user's quota are reported as a violation.
  *
  * @param booking - The booking data to insert
  * @returns BookingResponse with the created booking
@@ -214,12 +694,16 @@ export async function fetchBookingsByStatus(
 export async function createBooking(
   booking: NewBooking
 ): Promise<BookingResponse<Booking>> {
+  const rangeError = validateTimeRange(booking.start_time, booking.end_time);
+  if (rangeError) return { data: null, error: rangeError };
+
   try {
     // Insert the new booking with 'pending' status
+    const { recurrence, ...fields } = booking;
     const { data, error } = await supabase
       .from("bookings")
       .insert({
-        ...booking,
+        ...fields,
         status: "pending", // Always start as pending
       })
       .select()
@@ -227,6 +711,12 @@ export async function createBooking(
 
     // Handle insert errors
     if (error) {
+      const conflict = toBookingConflict(error, booking);
+      if (conflict) return conflictResponse(conflict);
+
+      const violation = policyResponse<Booking>(error);
+      if (violation) return violation;
+
       console.error("Create booking error:", error);
       return { data: null, error: "Failed to create booking" };
     }
@@ -242,7 +732,8 @@ export async function createBooking(
  * Update an existing booking
  *
  * This function updates a booking record with new data.
- * Used when users edit their pending bookings.
+ * Used when users edit their pending bookings. Overlaps are reported
+ * the same way as in createBooking.
  *
  * @param id - The booking's UUID
  * @param updates - The fields to update
@@ -252,21 +743,36 @@ export async function updateBooking(
   id: string,
   updates: BookingUpdate
 ): Promise<BookingResponse<Booking>> {
+  if (updates.start_time && updates.end_time) {
+    const rangeError = validateTimeRange(updates.start_time, updates.end_time);
+    if (rangeError) return { data: null, error: rangeError };
+  }
+
   try {
     // Update the booking record
     const { data, error } = await supabase
       .from("bookings")
       .update(updates)
       .eq("id", id)
-      .select();
+      .select()
+      .single();
 
     // Handle update errors
     if (error) {
+      const conflict = toBookingConflict(error, {
+        start_time: updates.start_time,
+        end_time: updates.end_time,
+      });
+      if (conflict) return conflictResponse(conflict);
+
+      const violation = policyResponse<Booking>(error);
+      if (violation) return violation;
+
       console.error("Update booking error:", error);
       return { data: null, error: "Failed to update booking" };
     }
 
-    return { data: data as any, error: null };
+    return { data: data as Booking, error: null };
   } catch (error) {
     console.error("Unexpected update error:", error);
     return { data: null, error: "An unexpected error occurred" };
@@ -277,21 +783,29 @@ export async function updateBooking(
  * Update a booking's status
  *
  * This function specifically updates the status of a booking.
- * Used by admins to approve or reject bookings.
+ * Used by admins to approve or reject bookings, together with the
+ * remarks explaining the decision.
  *
  * @param id - The booking's UUID
  * @param status - The new status ('approved' | 'rejected')
+ * @param remarks - Reason for a rejection, or notes on an approval
  * @returns BookingResponse with the updated booking
  */
 export async function updateBookingStatus(
   id: string,
-  status: BookingStatus
+  status: BookingStatus,
+  remarks: BookingRemarks = null
 ): Promise<BookingResponse<Booking>> {
+  // A rejection always needs a reason
+  if (status === "rejected" && !remarks?.trim()) {
+    return { data: null, error: "Please give a reason for the rejection" };
+  }
+
   try {
-    // Update only the status field
+    // Update the status and the remarks explaining it
     const { data, error } = await supabase
       .from("bookings")
-      .update({ status })
+      .update({ status, remarks: remarks?.trim() || null })
       .eq("id", id)
       .select()
       .single();
@@ -310,52 +824,317 @@ export async function updateBookingStatus(
 }
 
 /**
- * Delete a booking
+ * Cancel a booking
  *
- * This function removes a booking record from the database.
- * Used when users cancel their pending bookings.
+ * This function marks a pending or approved booking as cancelled, which
+ * frees its time slot but keeps it in the history and statistics.
+ * The database records who cancelled it and when.
  *
  * @param id - The booking's UUID
+ * @param reason - Optional reason for the cancellation
+ * @returns BookingResponse indicating success or failure
+ */
+export async function cancelBooking(
+  id: string,
+  reason: string | null = null
+): Promise<BookingResponse> {
+  try {
+    // Only active bookings can be cancelled
+    const { data, error } = await supabase
+      .from("bookings")
+      .update({
+        status: "cancelled",
+        cancellation_reason: reason?.trim() || null,
+      })
+      .eq("id", id)
+      .in("status", ["pending", "approved"])
+      .select("id");
+
+    // Handle update errors
+    if (error) {
+      const violation = policyResponse<void>(error);
+      if (violation) return violation;
+
+      console.error("Cancel booking error:", error);
+      return { data: null, error: "Failed to cancel booking" };
+    }
+
+    // No row matched: the booking is gone or no longer pending or approved
+    if (!data?.length) {
+      return { data: null, error: "This booking can no longer be cancelled" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected cancel error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Check the availability of series occurrences
+ *
+ * This function looks up the pending and approved bookings and the blocked
+ * time of a resource that overlap any of the given occurrences, so conflicts
+ * can be shown per occurrence before a series is submitted.
+ *
+ * @param resourceId - The resource's UUID
+ * @param occurrences - The occurrences to check
+ * @returns BookingResponse with one check per occurrence
+ */
+export async function checkAvailability(
+  resourceId: string,
+  occurrences: Occurrence[]
+): Promise<BookingResponse<OccurrenceCheck[]>> {
+  if (occurrences.length === 0) return { data: [], error: null };
+
+  try {
+    // Fetch every booking between the first start and the last end
+    const { data: bookings, error } = await supabase
+      .from("booking_availability")
+      .select("start_time, end_time")
+      .eq("resource_id", resourceId)
+      .lt("start_time", occurrences[occurrences.length - 1].end_time)
+      .gt("end_time", occurrences[0].start_time);
+
+    // Handle query errors
+    if (error) {
+      console.error("Check availability error:", error);
+      return { data: null, error: "Failed to check availability" };
+    }
+
+    const taken = (bookings as BookingConflict[]) || [];
+    const checks = occurrences.map((occurrence) => {
+      const start = new Date(occurrence.start_time).getTime();
+      const end = new Date(occurrence.end_time).getTime();
+      const conflict = taken.find(
+        (b) =>
+          new Date(b.start_time).getTime() < end &&
+          new Date(b.end_time).getTime() > start
+      );
+      return { ...occurrence, conflict: conflict || null };
+    });
+
+    return { data: checks, error: null };
+  } catch (error) {
+    console.error("Unexpected availability error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Create a recurring booking series
+ *
+ * This function stores the recurrence rule in booking_series and inserts
+ * one pending booking per occurrence. The occurrences are inserted in one
+ * statement, so an overlap rejects the whole series.
+ *
+ * @param booking - The booking data, including its recurrence rule
+ * @param occurrences - The occurrences to book (conflicting ones left out)
+ * @returns BookingResponse with the created bookings
+ */
+export async function createBookingSeries(
+  booking: NewBooking,
+  occurrences: Occurrence[]
+): Promise<BookingResponse<Booking[]>> {
+  const rangeError = validateTimeRange(booking.start_time, booking.end_time);
+  if (rangeError) return { data: null, error: rangeError };
+
+  try {
+    const { recurrence, ...fields } = booking;
+
+    // Step 1: Store the series and its rule
+    const { data: series, error: seriesError } = await supabase
+      .from("booking_series")
+      .insert({
+        user_id: fields.user_id,
+        user_name: fields.user_name,
+        resource_id: fields.resource_id,
+        reason: fields.reason,
+        frequency: recurrence.frequency,
+        repeat_interval: recurrence.interval,
+        until: recurrence.until || null,
+        count: recurrence.count || null,
+        start_time: fields.start_time,
+        end_time: fields.end_time,
+      })
+      .select("id")
+      .single();
+
+    if (seriesError) {
+      console.error("Create series error:", seriesError);
+      return { data: null, error: "Failed to create recurring booking" };
+    }
+
+    // Step 2: Insert one booking per occurrence
+    const { data, error } = await supabase
+      .from("bookings")
+      .insert(
+        occurrences.map((occurrence) => ({
+          ...fields,
+          ...occurrence,
+          series_id: series.id,
+          status: "pending", // Always start as pending
+        }))
+      )
+      .select();
+
+    if (error) {
+      // Don't leave an empty series behind
+      await supabase.from("booking_series").delete().eq("id", series.id);
+
+      const conflict = toBookingConflict(error, occurrences[0]);
+      if (conflict) return conflictResponse(conflict);
+
+      const violation = policyResponse<Booking[]>(error);
+      if (violation) return violation;
+
+      console.error("Create series bookings error:", error);
+      return { data: null, error: "Failed to create recurring booking" };
+    }
+
+    return { data: (data as Booking[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected create error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Update several occurrences of a series
+ *
+ * This function moves the selected occurrences by the same offset the
+ * given booking is moved by, and replaces their reason. The change runs
+ * in the database in one statement, so an overlap rejects all of it.
+ *
+ * @param booking - The occurrence the user edited
+ * @param scope - Which occurrences to update
+ * @param updates - The new times / reason of the edited occurrence
+ * @returns BookingResponse with the updated bookings
+ */
+export async function updateSeriesBookings(
+  booking: Booking,
+  scope: SeriesScope,
+  updates: BookingUpdate
+): Promise<BookingResponse<Booking[]>> {
+  try {
+    // Offsets in minutes between the old and the new times
+    const shift = (from: string, to?: string) =>
+      to ? Math.round((Date.parse(to) - Date.parse(from)) / 60000) : 0;
+
+    const { data, error } = await supabase.rpc("update_series_bookings", {
+      p_booking_id: booking.id,
+      p_scope: scope,
+      p_start_shift_minutes: shift(booking.start_time, updates.start_time),
+      p_end_shift_minutes: shift(booking.end_time, updates.end_time),
+      p_reason: updates.reason ?? null,
+    });
+
+    // Handle update errors
+    if (error) {
+      const conflict = toBookingConflict(error, {
+        start_time: updates.start_time ?? booking.start_time,
+        end_time: updates.end_time ?? booking.end_time,
+      });
+      if (conflict) return conflictResponse(conflict);
+
+      const violation = policyResponse<Booking[]>(error);
+      if (violation) return violation;
+
+      console.error("Update series error:", error);
+      return { data: null, error: "Failed to update bookings" };
+    }
+
+    return { data: (data as Booking[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Cancel several occurrences of a series
+ *
+ * @param booking - The occurrence the user selected
+ * @param scope - Which occurrences to cancel
+ * @param reason - Optional reason for the cancellation
  * @returns BookingResponse indicating success or failure
  */
-export async function deleteBooking(id: string): Promise<BookingResponse> {
+export async function cancelSeriesBookings(
+  booking: Booking,
+  scope: SeriesScope,
+  reason: string | null = null
+): Promise<BookingResponse> {
+  if (scope === "occurrence" || !booking.series_id) {
+    return cancelBooking(booking.id, reason);
+  }
+
   try {
-    // Delete the booking record
-    const { error } = await supabase.from("bookings").delete().eq("id", id);
+    let query = supabase
+      .from("bookings")
+      .update({
+        status: "cancelled",
+        cancellation_reason: reason?.trim() || null,
+      })
+      .eq("series_id", booking.series_id)
+      .in("status", ["pending", "approved"]);
+    if (scope === "following") {
+      query = query.gte("start_time", booking.start_time);
+    }
+
+    const { data, error } = await query.select("id");
 
-    // Handle delete errors
+    // Handle update errors
     if (error) {
-      console.error("Delete booking error:", error);
-      return { data: null, error: "Failed to delete booking" };
+      const violation = policyResponse<void>(error);
+      if (violation) return violation;
+
+      console.error("Cancel series error:", error);
+      return { data: null, error: "Failed to cancel bookings" };
+    }
+
+    if (!data?.length) {
+      return { data: null, error: "These bookings can no longer be cancelled" };
     }
 
     return { data: null, error: null };
   } catch (error) {
-    console.error("Unexpected delete error:", error);
+    console.error("Unexpected cancel error:", error);
     return { data: null, error: "An unexpected error occurred" };
   }
 }
 
 /**
- * Get taken time slots for a specific date
+ * Get taken time slots for a specific date and resource
  *
  * This function calculates which time slots are already booked
- * for a given date. It considers both pending and approved bookings.
+ * for a given date. It considers both pending and approved bookings
+ * of the selected resource only, so a session in one room does not
+ * block the other rooms. Rejected and cancelled bookings free their slots.
+ * Events of the resource's imported calendars take their slots too.
+ * Slots are wall clock times of the studio, whatever the browser's timezone.
  *
- * @param date - The date to check (YYYY-MM-DD format)
+ * @param date - The studio day to check (YYYY-MM-DD format)
+ * @param resourceId - The resource's UUID
+ * @param timeZone - The studio's timezone
+ * @param slotMinutes - Length of one slot of the resource's grid
  * @returns BookingResponse with array of taken time slots (HH:MM format)
  */
 export async function getTakenSlots(
-  date: string
+  date: string,
+  resourceId: string,
+  timeZone: string,
+  slotMinutes = 30
 ): Promise<BookingResponse<string[]>> {
   try {
-    // Fetch all non-rejected bookings for the date
+    // Fetch the bookings and blocked time of the resource overlapping the day
+    const day = studioDayRange(date, timeZone);
     const { data: bookings, error } = await supabase
-      .from("bookings")
-      .select("start_time, end_time, status")
-      .gte("start_time", `${date}T00:00:00`)
-      .lte("start_time", `${date}T23:59:59`)
-      .in("status", ["pending", "approved"]);
+      .from("booking_availability")
+      .select("start_time, end_time")
+      .eq("resource_id", resourceId)
+      .lt("start_time", day.end.toISOString())
+      .gt("end_time", day.start.toISOString());
 
     // Handle query errors
     if (error) {
@@ -363,33 +1142,11 @@ export async function getTakenSlots(
       return { data: null, error: "Failed to fetch taken slots" };
     }
 
-    // Calculate the taken time slots
-    const takenSlots: string[] = [];
-
-    // For each booking, generate the hourly slots it occupies
-    (
-      bookings as Array<{ start_time: string; end_time: string }> | null
-    )?.forEach((booking) => {
-      const start = new Date(booking.start_time);
-      const end = new Date(booking.end_time);
-      let current = new Date(start);
-
-      // Loop through each hour of the booking
-      while (current < end) {
-        // Format as HH:MM (24-hour format)
-        const timeSlot = current.toLocaleTimeString("en-US", {
-          hour: "2-digit",
-          minute: "2-digit",
-          hour12: false,
-        });
-        takenSlots.push(timeSlot);
-
-        // Move to the next hour
-        current.setHours(current.getHours() + 1);
-      }
-    });
-
-    return { data: takenSlots, error: null };
+    // The grid slots each booking or blocked time occupies
+    return {
+      data: getTakenSlotTimes(bookings || [], day, timeZone, slotMinutes),
+      error: null,
+    };
   } catch (error) {
     console.error("Unexpected slots error:", error);
     return { data: null, error: "An unexpected error occurred" };
@@ -399,40 +1156,47 @@ export async function getTakenSlots(
 /**
  * Subscribe to real-time booking changes
  *
- * This function sets up a real-time subscription to the bookings table.
- * It notifies the callback whenever bookings are created, updated, or deleted.
+ * This function sets up a real-time subscription to the bookings table and
+ * passes every inserted, updated or deleted row to the callback, so callers
+ * can update what they loaded instead of refetching everything. Only the
+ * bookings the user may read are delivered.
  *
- * @param callback - Function called when booking data changes
+ * Changes made while the connection is down are lost. onSubscribed is
+ * called each time the channel is joined, including after the client
+ * reconnects, so callers can catch up on them.
+ *
+ * @param onChange - Function called with each booking change
+ * @param onSubscribed - Function called whenever the channel is (re)joined
  * @returns Unsubscribe function to clean up the subscription
  */
 export function subscribeToBookings(
-  callback: (bookings: Booking[]) => void
+  onChange: (change: BookingChange) => void,
+  onSubscribed: () => void
 ): () => void {
   // Create a channel for real-time updates
   const channel = supabase
     .channel("bookings-changes")
-    .on(
+    .on<Booking>(
       "postgres_changes",
       {
         event: "*", // Listen for all events (INSERT, UPDATE, DELETE)
         schema: "public",
         table: "bookings",
       },
-      async () => {
-        // When any change occurs, refetch all bookings
-        // This ensures consistency across all clients
-        console.log("Booking change detected, refetching...");
-        const { data } = await fetchAllBookings();
-        if (data) {
-          callback(data);
+      (payload) => {
+        if (payload.eventType === "DELETE") {
+          if (payload.old.id) onChange({ type: "delete", id: payload.old.id });
+          return;
         }
+        onChange({ type: "upsert", booking: payload.new });
       }
     )
-    .subscribe();
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") onSubscribed();
+    });
 
   // Return the unsubscribe function
   return () => {
-    console.log("Unsubscribing from booking changes");
     supabase.removeChannel(channel);
   };
 }
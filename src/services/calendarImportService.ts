@@ -0,0 +1,162 @@
+/**
+ * Calendar Import Service
+ *
+ * This file contains all functions for external calendars whose events
+ * block time on a resource, e.g. internal events planned in another
+ * calendar. Their events are turned into blocked intervals by the
+ * sync-calendars edge function, which also syncs calendars with a URL
+ * every hour. It provides a clean API for (admins):
+ * - Listing, adding and removing the imported calendars
+ * - Syncing a calendar from its URL, or from the text of an .ics file
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * An external calendar imported into a resource
+ * - url: Where it is synced from, null for an uploaded .ics file
+ * - last_error: Why the last sync failed, null when it worked
+ */
+export interface CalendarImport {
+  id: string;
+  resource_id: string;
+  name: string;
+  url: string | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+/**
+ * Data required to import a calendar
+ */
+export interface NewCalendarImport {
+  resource_id: string;
+  name: string;
+  url: string | null;
+}
+
+/**
+ * Fetch every imported calendar
+ *
+ * @returns BookingResponse with the imports, oldest first
+ */
+export async function fetchCalendarImports(): Promise<
+  BookingResponse<CalendarImport[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("calendar_imports")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch calendar imports error:", error);
+      return { data: null, error: "Failed to load imported calendars" };
+    }
+
+    return { data: (data as CalendarImport[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Import a calendar into a resource
+ *
+ * The import blocks no time until it is synced, see syncCalendarImport.
+ *
+ * @param calendarImport - The resource, a name and the URL if there is one
+ * @returns BookingResponse with the new import
+ */
+export async function createCalendarImport(
+  calendarImport: NewCalendarImport
+): Promise<BookingResponse<CalendarImport>> {
+  try {
+    const { data, error } = await supabase
+      .from("calendar_imports")
+      .insert(calendarImport)
+      .select()
+      .single();
+
+    // Handle insert errors
+    if (error) {
+      console.error("Create calendar import error:", error);
+      return { data: null, error: "Failed to import the calendar" };
+    }
+
+    return { data: data as CalendarImport, error: null };
+  } catch (error) {
+    console.error("Unexpected create error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Remove an imported calendar, which frees the time its events blocked
+ *
+ * @param id - The import's UUID
+ * @returns BookingResponse with null data on success
+ */
+export async function deleteCalendarImport(
+  id: string
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("calendar_imports")
+      .delete()
+      .eq("id", id);
+
+    // Handle delete errors
+    if (error) {
+      console.error("Delete calendar import error:", error);
+      return { data: null, error: "Failed to remove the calendar" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected delete error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Replace the blocked time of an import with the calendar's current events
+ *
+ * When the sync fails, the time blocked by the last successful one stays
+ * blocked and the reason is stored in the import's last_error.
+ *
+ * @param id - The import's UUID
+ * @param ics - The text of an uploaded .ics file, fetched from the import's
+ *   URL when not given
+ * @returns BookingResponse with the number of blocked intervals
+ */
+export async function syncCalendarImport(
+  id: string,
+  ics?: string
+): Promise<BookingResponse<number>> {
+  try {
+    const { data, error } = await supabase.functions.invoke<{
+      results: Array<{ id: string; blocked?: number; error?: string }>;
+    }>("sync-calendars", { body: { importId: id, ics } });
+
+    // Handle function errors
+    if (error || !data) {
+      console.error("Sync calendar import error:", error);
+      return { data: null, error: "Failed to sync the calendar" };
+    }
+
+    const [result] = data.results;
+    if (result?.error) return { data: null, error: result.error };
+
+    return { data: result?.blocked ?? 0, error: null };
+  } catch (error) {
+    console.error("Unexpected sync error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Calendar Service
+ *
+ * This file contains all functions for the iCalendar feeds calendar apps
+ * subscribe to. Feeds are served by the calendar-feed edge function and
+ * identified by a secret token per user. It provides a clean API for:
+ * - Reading the user's feed token, or replacing it with a new one
+ * - Building the feed URLs of the user's own bookings, and of every booking
+ *   or those of one resource for admins
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase, supabaseUrl } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Which bookings a feed lists
+ * - own: The user's bookings
+ * - all: Every booking (admins)
+ * - A resource id: Every booking of that resource (admins)
+ */
+export type CalendarFeedScope = "own" | "all" | { resourceId: string };
+
+/**
+ * Fetch the user's calendar feed token
+ *
+ * The token is created on first use. Replacing it stops every calendar
+ * subscribed with the old one from updating.
+ *
+ * @param regenerate - Replace the token with a new one
+ * @returns BookingResponse with the token
+ */
+export async function fetchCalendarFeedToken(
+  regenerate = false
+): Promise<BookingResponse<string>> {
+  try {
+    const { data, error } = await supabase.rpc("calendar_feed_token", {
+      p_regenerate: regenerate,
+    });
+
+    // Handle RPC errors
+    if (error) {
+      console.error("Fetch calendar feed token error:", error);
+      return { data: null, error: "Failed to load your calendar link" };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * The URL calendar apps subscribe to
+ *
+ * @param token - The user's feed token
+ * @param scope - Which bookings the feed lists
+ * @returns The feed's URL
+ */
+export function calendarFeedUrl(
+  token: string,
+  scope: CalendarFeedScope = "own"
+): string {
+  const url = new URL(`${supabaseUrl}/functions/v1/calendar-feed`);
+  url.searchParams.set("token", token);
+  if (scope === "all") url.searchParams.set("all", "1");
+  else if (scope !== "own") url.searchParams.set("resource", scope.resourceId);
+  return url.toString();
+}
@@ -0,0 +1,182 @@
+/**
+ * Member Service
+ *
+ * This file contains all functions for managing the studio's members.
+ * It provides a clean API for:
+ * - Listing members (admins)
+ * - Assigning members to a group
+ * - Promoting members to admin and demoting them (admins)
+ * - Suspending members and lifting suspensions (admins)
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { UserRole } from "@/services/authService";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Member of the studio
+ * - member_group: Group the member belongs to, e.g. "students" (null = none)
+ * - suspended_at: When the member was suspended (null = active)
+ * - booking_count: Number of bookings the member made, whatever their status
+ */
+export interface Member {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  member_group: string | null;
+  suspended_at: string | null;
+  created_at: string;
+  booking_count: number;
+}
+
+// Errors raised by the member RPCs that are meant for the admin as is
+const MEMBER_ADMIN_HINT = "member_admin";
+
+/**
+ * Fetch all members
+ *
+ * @returns BookingResponse with the members, ordered by name
+ */
+export async function fetchMembers(): Promise<BookingResponse<Member[]>> {
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select(
+        "id, email, name, member_group, suspended_at, created_at, user_roles(role), bookings(count)"
+      )
+      .order("name", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch members error:", error);
+      return { data: null, error: "Failed to fetch members" };
+    }
+
+    // user_roles is one-to-one, PostgREST embeds it as an object. The
+    // bookings are counted by the database instead of loaded.
+    return {
+      data: (data || []).map(({ user_roles, bookings, ...member }) => ({
+        ...member,
+        role:
+          (user_roles as unknown as { role: UserRole } | null)?.role ?? "user",
+        booking_count: bookings[0]?.count ?? 0,
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Assign a member to a group
+ *
+ * @param id - The member's UUID
+ * @param group - The group's name, null to remove the member from their group
+ * @returns BookingResponse indicating success or failure
+ */
+export async function setMemberGroup(
+  id: string,
+  group: string | null
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ member_group: group })
+      .eq("id", id);
+
+    // Handle update errors
+    if (error) {
+      console.error("Set member group error:", error);
+      return { data: null, error: "Failed to update the member's group" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Promote a member to admin or demote them to a regular user
+ *
+ * Admins can't demote themselves.
+ *
+ * @param id - The member's UUID
+ * @param role - The member's new role
+ * @returns BookingResponse indicating success or failure
+ */
+export async function setMemberRole(
+  id: string,
+  role: UserRole
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase.rpc("set_member_role", {
+      p_user_id: id,
+      p_role: role,
+    });
+
+    // Handle RPC errors
+    if (error) {
+      console.error("Set member role error:", error);
+      return {
+        data: null,
+        error:
+          error.hint === MEMBER_ADMIN_HINT
+            ? error.message
+            : "Failed to update the member's role",
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Suspend a member or lift their suspension
+ *
+ * Suspended members can't sign in, book or join the waitlist. Their
+ * existing bookings are kept.
+ *
+ * @param id - The member's UUID
+ * @param suspended - Whether the member is suspended
+ * @returns BookingResponse indicating success or failure
+ */
+export async function setMemberSuspended(
+  id: string,
+  suspended: boolean
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase.rpc("set_member_suspended", {
+      p_user_id: id,
+      p_suspended: suspended,
+    });
+
+    // Handle RPC errors
+    if (error) {
+      console.error("Set member suspended error:", error);
+      return {
+        data: null,
+        error:
+          error.hint === MEMBER_ADMIN_HINT
+            ? error.message
+            : suspended
+              ? "Failed to suspend the member"
+              : "Failed to lift the member's suspension",
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
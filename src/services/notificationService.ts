@@ -0,0 +1,176 @@
+/**
+ * Notification Service
+ *
+ * This file contains all functions for the in-app notifications of a user.
+ * Notifications are added by the database when someone else changes one of
+ * the user's bookings, and by the reminder job. It provides a clean API for:
+ * - Reading the latest notifications and the number of unread ones
+ * - Marking notifications as read, one by one or all at once
+ * - Real-time subscription to the user's notifications
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * What a notification is about, matching the database constraint
+ */
+export type NotificationType =
+  | "booking_approved"
+  | "booking_rejected"
+  | "booking_edited"
+  | "booking_cancelled"
+  | "booking_reminder";
+
+/**
+ * Snapshot of the booking when the notification was added
+ * - remarks: The admin's remarks on a decision, or the cancellation reason
+ * - changes: The fields an edit changed, {field: {old, new}}
+ */
+export interface NotificationData {
+  reason?: string;
+  start_time?: string;
+  end_time?: string;
+  resource_id?: string | null;
+  remarks?: string | null;
+  changes?: Record<string, { old: unknown; new: unknown }> | null;
+}
+
+/**
+ * Notification record from the database
+ * - read_at: When the user read it (null = unread)
+ */
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  booking_id: string | null;
+  data: NotificationData;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Most notifications loaded at once, older ones are only counted
+export const NOTIFICATION_LIMIT = 50;
+
+/**
+ * Fetch the user's latest notifications
+ *
+ * @returns BookingResponse with the notifications, newest first
+ */
+export async function fetchNotifications(): Promise<
+  BookingResponse<UserNotification[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("notifications")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch notifications error:", error);
+      return { data: null, error: "Failed to fetch notifications" };
+    }
+
+    return { data: (data as unknown as UserNotification[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Count the user's unread notifications
+ *
+ * @returns BookingResponse with the number of unread notifications
+ */
+export async function fetchUnreadNotificationCount(): Promise<
+  BookingResponse<number>
+> {
+  try {
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .is("read_at", null);
+
+    // Handle query errors
+    if (error) {
+      console.error("Count notifications error:", error);
+      return { data: null, error: "Failed to count notifications" };
+    }
+
+    return { data: count ?? 0, error: null };
+  } catch (error) {
+    console.error("Unexpected count error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Mark notifications as read
+ *
+ * @param ids - The notifications' UUIDs, every unread notification when
+ *   omitted
+ * @returns BookingResponse indicating success or failure
+ */
+export async function markNotificationsRead(
+  ids?: string[]
+): Promise<BookingResponse<null>> {
+  try {
+    // Row level security limits the update to the user's own notifications
+    let query = supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .is("read_at", null);
+    if (ids) query = query.in("id", ids);
+
+    const { error } = await query;
+
+    // Handle update errors
+    if (error) {
+      console.error("Mark notifications read error:", error);
+      return { data: null, error: "Failed to mark notifications as read" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Subscribe to real-time changes of the user's notifications
+ *
+ * @param userId - The user's UUID
+ * @param callback - Function called with each added or changed notification
+ * @returns Unsubscribe function to clean up the subscription
+ */
+export function subscribeToNotifications(
+  userId: string,
+  callback: (notification: UserNotification) => void
+): () => void {
+  const channel = supabase
+    .channel(`notifications-${userId}`)
+    .on<UserNotification>(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "notifications",
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        if (payload.eventType !== "DELETE") callback(payload.new);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
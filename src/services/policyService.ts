@@ -0,0 +1,93 @@
+/**
+ * Policy Service
+ *
+ * This file contains all functions for the studio's cancellation and
+ * modification policy. The same rules are enforced by a database trigger,
+ * the frontend reads them to explain blocked actions up front.
+ * It provides a clean API for:
+ * - Reading the booking policy
+ * - Saving the booking policy
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Booking policy of the studio
+ * - cancel_cutoff_hours: Approved bookings can't be cancelled later than
+ *   this many hours before they start (0 = any time)
+ * - edit_cutoff_hours: Bookings can't be edited later than this many hours
+ *   before they start (0 = any time)
+ * - max_reschedules: How often the time or room may be changed (null = unlimited)
+ * - reapprove_after_edit: Edits to approved bookings send them back to pending
+ */
+export interface BookingPolicy {
+  cancel_cutoff_hours: number;
+  edit_cutoff_hours: number;
+  max_reschedules: number | null;
+  reapprove_after_edit: boolean;
+}
+
+/**
+ * Fetch the booking policy
+ *
+ * @returns BookingResponse with the policy, null data when none is stored
+ */
+export async function fetchBookingPolicy(): Promise<
+  BookingResponse<BookingPolicy>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("booking_policies")
+      .select(
+        "cancel_cutoff_hours, edit_cutoff_hours, max_reschedules, reapprove_after_edit"
+      )
+      .maybeSingle();
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch booking policy error:", error);
+      return { data: null, error: "Failed to fetch booking policy" };
+    }
+
+    return { data: data as BookingPolicy | null, error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save the booking policy
+ *
+ * This function replaces the studio's single policy row.
+ * Used by admins on the settings page.
+ *
+ * @param policy - The policy to save
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveBookingPolicy(
+  policy: BookingPolicy
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("booking_policies")
+      .upsert(
+        { id: true, ...policy, updated_at: new Date().toISOString() },
+        { onConflict: "id" }
+      );
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save booking policy error:", error);
+      return { data: null, error: "Failed to save booking policy" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
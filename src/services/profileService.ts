@@ -0,0 +1,212 @@
+/**
+ * Profile Service
+ *
+ * This file contains all functions for the signed in user's own profile.
+ * It provides a clean API for:
+ * - Reading and editing the profile (name, phone, notification emails)
+ * - Uploading an avatar
+ * - Deleting the account
+ *
+ * Renames reach the user's existing bookings through a database trigger.
+ * Email and password changes go through Supabase Auth (see authService).
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Notifications the user wants to get
+ * - booking_updates: Emails when their bookings were approved, rejected or
+ *   cancelled
+ * - waitlist_offers: Emails when a slot they are waiting for became available
+ * - reminder_email / reminder_in_app: Reminders of their upcoming sessions,
+ *   by email and in the app
+ *
+ * A type rather than an interface, so it can be stored in the json column.
+ */
+export type NotificationPreferences = {
+  booking_updates: boolean;
+  waitlist_offers: boolean;
+  reminder_email: boolean;
+  reminder_in_app: boolean;
+};
+
+/**
+ * The user's own profile
+ */
+export interface Profile {
+  id: string;
+  email: string;
+  name: string;
+  phone: string | null;
+  avatar_url: string | null;
+  notification_preferences: NotificationPreferences;
+}
+
+/**
+ * Fields of the profile the user can edit
+ */
+export type ProfileUpdate = Partial<
+  Pick<Profile, "name" | "phone" | "avatar_url" | "notification_preferences">
+>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  booking_updates: true,
+  waitlist_offers: true,
+  reminder_email: true,
+  reminder_in_app: true,
+};
+
+// Largest avatar accepted, in bytes
+const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+// Hints of the exceptions raised by delete_my_account and the policy trigger
+const DELETION_HINTS = ["account_deletion", "booking_policy"];
+
+/**
+ * Fetch a user's profile
+ *
+ * @param userId - The user's UUID
+ * @returns BookingResponse with the profile
+ */
+export async function fetchProfile(
+  userId: string
+): Promise<BookingResponse<Profile>> {
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, email, name, phone, avatar_url, notification_preferences")
+      .eq("id", userId)
+      .single();
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch profile error:", error);
+      return { data: null, error: "Failed to fetch your profile" };
+    }
+
+    return {
+      data: {
+        ...data,
+        notification_preferences: {
+          ...DEFAULT_NOTIFICATION_PREFERENCES,
+          ...(data.notification_preferences as Partial<NotificationPreferences>),
+        },
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Update a user's profile
+ *
+ * @param userId - The user's UUID
+ * @param changes - The fields to change
+ * @returns BookingResponse indicating success or failure
+ */
+export async function updateProfile(
+  userId: string,
+  changes: ProfileUpdate
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", userId);
+
+    // Handle update errors
+    if (error) {
+      console.error("Update profile error:", error);
+      return { data: null, error: "Failed to update your profile" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected update error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Upload a new avatar
+ *
+ * The image is stored in the user's folder of the avatars bucket. The
+ * returned URL still has to be saved on the profile.
+ *
+ * @param userId - The user's UUID
+ * @param file - The image, at most 2 MB
+ * @returns BookingResponse with the avatar's public URL
+ */
+export async function uploadAvatar(
+  userId: string,
+  file: File
+): Promise<BookingResponse<string>> {
+  if (!file.type.startsWith("image/")) {
+    return { data: null, error: "Please choose an image" };
+  }
+
+  if (file.size > MAX_AVATAR_SIZE) {
+    return { data: null, error: "Images can be at most 2 MB" };
+  }
+
+  try {
+    // A new name per upload, so browsers don't show a cached old avatar
+    const extension = file.name.split(".").pop() || "png";
+    const path = `${userId}/${Date.now()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from("avatars")
+      .upload(path, file, { contentType: file.type });
+
+    // Handle upload errors
+    if (error) {
+      console.error("Upload avatar error:", error);
+      return { data: null, error: "Failed to upload your avatar" };
+    }
+
+    const { data } = supabase.storage.from("avatars").getPublicUrl(path);
+    return { data: data.publicUrl, error: null };
+  } catch (error) {
+    console.error("Unexpected upload error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Delete the signed in user's account
+ *
+ * This function cancels the user's upcoming bookings and deletes their
+ * account with everything that belongs to it. The cancellation policy
+ * still applies, and the last admin can't delete their account.
+ *
+ * @returns BookingResponse indicating success or failure
+ */
+export async function deleteAccount(): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase.rpc("delete_my_account");
+
+    // Handle RPC errors
+    if (error) {
+      console.error("Delete account error:", error);
+      return {
+        data: null,
+        error: DELETION_HINTS.includes(error.hint)
+          ? error.message
+          : "Failed to delete your account",
+      };
+    }
+
+    // The session belongs to a user that no longer exists
+    await supabase.auth.signOut();
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected delete error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Quota Service
+ *
+ * This file contains all functions for booking quotas, the fair-use limits
+ * of roles, member groups and single users. The limits are enforced by a
+ * database trigger on every booking a non-admin makes or changes.
+ * It provides a clean API for:
+ * - Reading the current user's quota and usage
+ * - Managing the quotas of roles and groups (admins)
+ * - Managing per-user overrides (admins)
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { UserRole } from "@/services/authService";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Fair-use limits, null means unlimited
+ * - max_hours_per_week / max_hours_per_month: Booked hours in the calendar
+ *   week / month a booking starts in
+ * - max_future_bookings: Pending and approved bookings that haven't ended
+ * - max_pending_requests: Bookings waiting for approval
+ */
+export interface QuotaLimits {
+  max_hours_per_week: number | null;
+  max_hours_per_month: number | null;
+  max_future_bookings: number | null;
+  max_pending_requests: number | null;
+}
+
+/**
+ * Quota of a role or of a member group, exactly one of them is set
+ */
+export interface QuotaRule extends QuotaLimits {
+  id: string;
+  role: UserRole | null;
+  member_group: string | null;
+}
+
+/**
+ * Quota of a single user, replaces the quota of their group and role
+ */
+export interface QuotaOverride extends QuotaLimits {
+  user_id: string;
+  note: string | null;
+}
+
+/**
+ * Where a user's quota comes from, null when no quota applies
+ */
+export type QuotaSource = "override" | "group" | "role" | null;
+
+/**
+ * A user's quota and how much of it is used
+ */
+export interface QuotaStatus extends QuotaLimits {
+  source: QuotaSource;
+  hours_this_week: number;
+  hours_this_month: number;
+  future_bookings: number;
+  pending_requests: number;
+}
+
+// Quota limits are numeric columns, which PostgREST returns as strings
+const toLimits = (row: Record<string, unknown>): QuotaLimits => {
+  const toNumber = (value: unknown) => (value === null ? null : Number(value));
+  return {
+    max_hours_per_week: toNumber(row.max_hours_per_week),
+    max_hours_per_month: toNumber(row.max_hours_per_month),
+    max_future_bookings: toNumber(row.max_future_bookings),
+    max_pending_requests: toNumber(row.max_pending_requests),
+  };
+};
+
+/**
+ * Fetch the current user's quota and usage
+ *
+ * @returns BookingResponse with the quota status
+ */
+export async function fetchMyQuota(): Promise<BookingResponse<QuotaStatus>> {
+  try {
+    const { data, error } = await supabase.rpc("get_my_quota");
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch quota error:", error);
+      return { data: null, error: "Failed to fetch your booking quota" };
+    }
+
+    const quota = data as Record<string, unknown>;
+    return {
+      data: {
+        ...toLimits(quota),
+        source: quota.source as QuotaSource,
+        hours_this_week: Number(quota.hours_this_week),
+        hours_this_month: Number(quota.hours_this_month),
+        future_bookings: Number(quota.future_bookings),
+        pending_requests: Number(quota.pending_requests),
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch the quotas of all roles and groups
+ *
+ * @returns BookingResponse with the quotas, role quotas first
+ */
+export async function fetchQuotaRules(): Promise<BookingResponse<QuotaRule[]>> {
+  try {
+    const { data, error } = await supabase
+      .from("booking_quotas")
+      .select("*")
+      .order("role", { ascending: true, nullsFirst: false })
+      .order("member_group", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch quotas error:", error);
+      return { data: null, error: "Failed to fetch booking quotas" };
+    }
+
+    return {
+      data: (data || []).map((row) => ({
+        ...toLimits(row),
+        id: row.id,
+        role: row.role as UserRole | null,
+        member_group: row.member_group,
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save the quota of a role or group
+ *
+ * This function creates the quota when it has no id yet.
+ *
+ * @param rule - The quota to save
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveQuotaRule(
+  rule: Omit<QuotaRule, "id"> & { id?: string }
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("booking_quotas")
+      .upsert({ ...rule, updated_at: new Date().toISOString() });
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save quota error:", error);
+      return {
+        data: null,
+        error:
+          error.code === "23505"
+            ? "This group already has a quota"
+            : "Failed to save booking quota",
+      };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Delete the quota of a role or group
+ *
+ * @param id - The quota's UUID
+ * @returns BookingResponse indicating success or failure
+ */
+export async function deleteQuotaRule(id: string): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("booking_quotas")
+      .delete()
+      .eq("id", id);
+
+    // Handle delete errors
+    if (error) {
+      console.error("Delete quota error:", error);
+      return { data: null, error: "Failed to delete booking quota" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected delete error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch all per-user overrides
+ *
+ * @returns BookingResponse with the overrides
+ */
+export async function fetchQuotaOverrides(): Promise<
+  BookingResponse<QuotaOverride[]>
+> {
+  try {
+    const { data, error } = await supabase.from("quota_overrides").select("*");
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch quota overrides error:", error);
+      return { data: null, error: "Failed to fetch quota overrides" };
+    }
+
+    return {
+      data: (data || []).map((row) => ({
+        ...toLimits(row),
+        user_id: row.user_id,
+        note: row.note,
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save a user's override
+ *
+ * @param override - The override to save
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveQuotaOverride(
+  override: QuotaOverride
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("quota_overrides")
+      .upsert(
+        { ...override, updated_at: new Date().toISOString() },
+        { onConflict: "user_id" }
+      );
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save quota override error:", error);
+      return { data: null, error: "Failed to save quota override" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Remove a user's override, their group or role quota applies again
+ *
+ * @param userId - The user's UUID
+ * @returns BookingResponse indicating success or failure
+ */
+export async function deleteQuotaOverride(
+  userId: string
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("quota_overrides")
+      .delete()
+      .eq("user_id", userId);
+
+    // Handle delete errors
+    if (error) {
+      console.error("Delete quota override error:", error);
+      return { data: null, error: "Failed to remove quota override" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected delete error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Resource Service
+ *
+ * This file contains all functions for the bookable resources of the studio
+ * (recording studio, practice rooms, podcast booth, equipment).
+ * It provides a clean API for:
+ * - Reading the list of bookable resources
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+
+/**
+ * Resource kind matching database constraint
+ * - studio: Recording studio with control room
+ * - room: Practice / rehearsal room
+ * - booth: Small booth (e.g. podcast booth)
+ * - equipment: Portable equipment that can be booked on its own
+ */
+export type ResourceKind = "studio" | "room" | "booth" | "equipment";
+
+/**
+ * Resource record from the database
+ */
+export interface Resource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  description: string | null;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+/**
+ * Fetch all active resources
+ *
+ * This function retrieves every resource that can currently be booked,
+ * in the order they should be displayed in pickers.
+ *
+ * @returns BookingResponse with array of resources
+ */
+export async function fetchResources(): Promise<BookingResponse<Resource[]>> {
+  try {
+    const { data, error } = await supabase
+      .from("resources")
+      .select("*")
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch resources error:", error);
+      return { data: null, error: "Failed to fetch resources" };
+    }
+
+    return { data: (data as Resource[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Schedule Service
+ *
+ * This file contains all functions for the studio's opening hours, slot
+ * settings, timezone and session reminders. It provides a clean API for:
+ * - Reading the opening hours, slot settings and timezone
+ * - Saving the opening hours per weekday
+ * - Saving the studio's timezone
+ * - Saving / removing the slot settings (studio default or per resource)
+ * - Reading and saving when members are reminded of their sessions
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BookingResponse } from "@/services/bookingService";
+import { DEFAULT_TIMEZONE } from "@/lib/studioTime";
+
+/**
+ * Opening hours of one weekday
+ * - weekday: 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+ * - open_time / close_time: Wall clock time (HH:MM or HH:MM:SS)
+ */
+export interface OpeningHours {
+  weekday: number;
+  is_open: boolean;
+  open_time: string;
+  close_time: string;
+}
+
+/**
+ * Slot settings of the studio (resource_id null) or of a single resource
+ */
+export interface ScheduleSettings {
+  id?: string;
+  resource_id: string | null;
+  slot_minutes: number;
+  min_duration_minutes: number;
+  max_duration_minutes: number;
+}
+
+/**
+ * The complete schedule used to generate the slot grid
+ * - timezone: IANA timezone the opening hours and slots are wall clock
+ *   times of, e.g. "Europe/Berlin"
+ */
+export interface Schedule {
+  hours: OpeningHours[];
+  settings: ScheduleSettings[];
+  timezone: string;
+}
+
+/**
+ * Fetch the studio schedule
+ *
+ * This function retrieves the opening hours of every weekday together with
+ * the default and per resource slot settings and the studio's timezone.
+ *
+ * @returns BookingResponse with the schedule
+ */
+export async function fetchSchedule(): Promise<BookingResponse<Schedule>> {
+  try {
+    const [hoursResult, settingsResult, studioResult] = await Promise.all([
+      supabase
+        .from("opening_hours")
+        .select("weekday, is_open, open_time, close_time")
+        .order("weekday", { ascending: true }),
+      supabase
+        .from("schedule_settings")
+        .select(
+          "id, resource_id, slot_minutes, min_duration_minutes, max_duration_minutes"
+        ),
+      supabase.from("studio_settings").select("timezone").maybeSingle(),
+    ]);
+
+    // Handle query errors
+    const error =
+      hoursResult.error || settingsResult.error || studioResult.error;
+    if (error) {
+      console.error("Fetch schedule error:", error);
+      return { data: null, error: "Failed to fetch schedule" };
+    }
+
+    return {
+      data: {
+        hours: (hoursResult.data as OpeningHours[]) || [],
+        settings: (settingsResult.data as ScheduleSettings[]) || [],
+        timezone: studioResult.data?.timezone || DEFAULT_TIMEZONE,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save the opening hours
+ *
+ * This function upserts the opening hours of the given weekdays.
+ * Used by admins on the settings page.
+ *
+ * @param hours - The opening hours to save
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveOpeningHours(
+  hours: OpeningHours[]
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase.from("opening_hours").upsert(
+      hours.map((day) => ({ ...day, updated_at: new Date().toISOString() })),
+      { onConflict: "weekday" }
+    );
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save opening hours error:", error);
+      return { data: null, error: "Failed to save opening hours" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save the studio's timezone
+ *
+ * Existing bookings keep their instant in time, only the wall clock time
+ * they are shown at changes.
+ *
+ * @param timezone - IANA timezone, e.g. "Europe/Berlin"
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveStudioTimezone(
+  timezone: string
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("studio_settings")
+      .upsert(
+        { id: true, timezone, updated_at: new Date().toISOString() },
+        { onConflict: "id" }
+      );
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save timezone error:", error);
+      return { data: null, error: "Failed to save timezone" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save slot settings
+ *
+ * This function creates or updates the slot settings of the studio
+ * (resource_id null) or of a single resource.
+ *
+ * @param settings - The slot settings to save
+ * @returns BookingResponse with the saved settings
+ */
+export async function saveScheduleSettings(
+  settings: ScheduleSettings
+): Promise<BookingResponse<ScheduleSettings>> {
+  try {
+    const payload = { ...settings, updated_at: new Date().toISOString() };
+
+    // Rows with an id are updated, new rows are inserted
+    const query = settings.id
+      ? supabase.from("schedule_settings").update(payload).eq("id", settings.id)
+      : supabase.from("schedule_settings").insert(payload);
+
+    const { data, error } = await query.select().single();
+
+    // Handle save errors
+    if (error) {
+      console.error("Save schedule settings error:", error);
+      return { data: null, error: "Failed to save slot settings" };
+    }
+
+    return { data: data as ScheduleSettings, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Delete the slot settings of a resource
+ *
+ * This function removes a resource override so the resource falls back
+ * to the studio default settings.
+ *
+ * @param id - The settings row's UUID
+ * @returns BookingResponse indicating success or failure
+ */
+export async function deleteScheduleSettings(
+  id: string
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("schedule_settings")
+      .delete()
+      .eq("id", id)
+      .not("resource_id", "is", null);
+
+    // Handle delete errors
+    if (error) {
+      console.error("Delete schedule settings error:", error);
+      return { data: null, error: "Failed to remove slot settings" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected delete error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch the reminder offsets
+ *
+ * @returns BookingResponse with the minutes before an approved session
+ *   starts that its member is reminded, largest first
+ */
+export async function fetchReminderOffsets(): Promise<
+  BookingResponse<number[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("studio_settings")
+      .select("reminder_offsets")
+      .maybeSingle();
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch reminder offsets error:", error);
+      return { data: null, error: "Failed to fetch reminder settings" };
+    }
+
+    return {
+      data: [...(data?.reminder_offsets ?? [])].sort((a, b) => b - a),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Save the reminder offsets
+ *
+ * Sessions already reminded at an offset aren't reminded again.
+ *
+ * @param offsets - Minutes before a session starts, empty to send no reminders
+ * @returns BookingResponse indicating success or failure
+ */
+export async function saveReminderOffsets(
+  offsets: number[]
+): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase.from("studio_settings").upsert(
+      {
+        id: true,
+        reminder_offsets: [...new Set(offsets)],
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "id" }
+    );
+
+    // Handle upsert errors
+    if (error) {
+      console.error("Save reminder offsets error:", error);
+      return { data: null, error: "Failed to save reminder settings" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected save error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
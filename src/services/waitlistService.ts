@@ -0,0 +1,242 @@
+/**
+ * Waitlist Service
+ *
+ * This file contains all functions for the waitlist of fully booked time
+ * slots. Offers are made by the database when a booking frees a waitlisted
+ * time range. It provides a clean API for:
+ * - Joining and leaving the waitlist
+ * - Reading a user's waitlist entries and the whole waitlist (admins)
+ * - Claiming an offered time range as a booking
+ * - Real-time subscription to waitlist changes
+ *
+ * All functions include error handling and return consistent response formats.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { Booking, BookingResponse } from "@/services/bookingService";
+
+/**
+ * Waitlist entry status matching database constraint
+ * - waiting: In line for the time range
+ * - offered: The range is free and held until offer_expires_at
+ * - claimed: The user booked the range
+ * - expired: The offer ran out, or the range has passed
+ * - cancelled: The user left the waitlist
+ */
+export type WaitlistStatus =
+  "waiting" | "offered" | "claimed" | "expired" | "cancelled";
+
+/**
+ * Waitlist entry record from the database
+ */
+export interface WaitlistEntry {
+  id: string;
+  user_id: string;
+  user_name: string;
+  resource_id: string;
+  start_time: string;
+  end_time: string;
+  reason: string;
+  status: WaitlistStatus;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  booking_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Data required to join the waitlist
+ */
+export interface NewWaitlistEntry {
+  user_id: string;
+  user_name: string;
+  resource_id: string;
+  start_time: string;
+  end_time: string;
+  reason: string;
+}
+
+/**
+ * Join the waitlist for a taken time range
+ *
+ * @param entry - The time range and the user waiting for it
+ * @returns BookingResponse with the created entry
+ */
+export async function joinWaitlist(
+  entry: NewWaitlistEntry
+): Promise<BookingResponse<WaitlistEntry>> {
+  try {
+    const { data, error } = await supabase
+      .from("waitlist_entries")
+      .insert(entry)
+      .select()
+      .single();
+
+    // Handle insert errors
+    if (error) {
+      console.error("Join waitlist error:", error);
+      return {
+        data: null,
+        error:
+          error.hint === "member_suspended"
+            ? error.message
+            : "Failed to join the waitlist",
+      };
+    }
+
+    return { data: data as WaitlistEntry, error: null };
+  } catch (error) {
+    console.error("Unexpected waitlist error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch a user's waitlist entries that are still waiting or on offer
+ *
+ * @param userId - The user's UUID
+ * @returns BookingResponse with the entries, soonest first
+ */
+export async function fetchUserWaitlist(
+  userId: string
+): Promise<BookingResponse<WaitlistEntry[]>> {
+  try {
+    const { data, error } = await supabase
+      .from("waitlist_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .in("status", ["waiting", "offered"])
+      .order("start_time", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch user waitlist error:", error);
+      return { data: null, error: "Failed to fetch waitlist" };
+    }
+
+    return { data: (data as WaitlistEntry[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Fetch the whole waitlist
+ *
+ * This function retrieves every entry still waiting or on offer, in the
+ * order offers are made. Used by admins.
+ *
+ * @returns BookingResponse with the entries
+ */
+export async function fetchWaitlist(): Promise<
+  BookingResponse<WaitlistEntry[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from("waitlist_entries")
+      .select("*")
+      .in("status", ["waiting", "offered"])
+      .order("start_time", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    // Handle query errors
+    if (error) {
+      console.error("Fetch waitlist error:", error);
+      return { data: null, error: "Failed to fetch waitlist" };
+    }
+
+    return { data: (data as WaitlistEntry[]) || [], error: null };
+  } catch (error) {
+    console.error("Unexpected fetch error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Leave the waitlist
+ *
+ * Declining an offer works the same way, the range then moves on to the
+ * next user in line.
+ *
+ * @param id - The entry's UUID
+ * @returns BookingResponse indicating success or failure
+ */
+export async function leaveWaitlist(id: string): Promise<BookingResponse> {
+  try {
+    const { error } = await supabase
+      .from("waitlist_entries")
+      .update({ status: "cancelled" })
+      .eq("id", id)
+      .in("status", ["waiting", "offered"]);
+
+    // Handle update errors
+    if (error) {
+      console.error("Leave waitlist error:", error);
+      return { data: null, error: "Failed to leave the waitlist" };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error("Unexpected waitlist error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Claim an offer
+ *
+ * This function books the offered time range for the user as a new
+ * pending booking.
+ *
+ * @param id - The entry's UUID
+ * @returns BookingResponse with the created booking
+ */
+export async function claimWaitlistOffer(
+  id: string
+): Promise<BookingResponse<Booking>> {
+  try {
+    const { data, error } = await supabase.rpc("claim_waitlist_offer", {
+      p_entry_id: id,
+    });
+
+    // Handle claim errors
+    if (error) {
+      console.error("Claim waitlist offer error:", error);
+      return {
+        data: null,
+        error:
+          // Gone offers and quota violations explain themselves
+          error.hint === "waitlist_offer" || error.hint === "booking_quota"
+            ? error.message
+            : "Failed to claim the time slot",
+      };
+    }
+
+    return { data: data as Booking, error: null };
+  } catch (error) {
+    console.error("Unexpected claim error:", error);
+    return { data: null, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Subscribe to real-time waitlist changes
+ *
+ * @param callback - Function called when any waitlist entry changes
+ * @returns Unsubscribe function to clean up the subscription
+ */
+export function subscribeToWaitlist(callback: () => void): () => void {
+  const channel = supabase
+    .channel("waitlist-changes")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "waitlist_entries" },
+      () => callback()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -1,146 +1,980 @@
-/**
- * Database Types for Supabase
- * 
- * This file defines TypeScript types that match your Supabase database schema.
- * These types provide type safety when performing database operations.
- * 
- * Tables included:
- * - profiles: User profile information linked to auth.users
- * - bookings: Studio booking records with status workflow
- * - user_roles: Role assignments for access control (admin/user)
- */
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
 
-/**
- * Booking status enum matching database constraint
- * - pending: New booking awaiting admin approval
- * - approved: Booking confirmed by admin
- * - rejected: Booking denied by admin
- */
-export type BookingStatus = 'pending' | 'approved' | 'rejected';
-
-/**
- * User role enum for access control
- * - admin: Can manage all bookings and approve/reject requests
- * - user: Can create and manage their own bookings
- */
-export type UserRole = 'admin' | 'user';
-
-/**
- * Database schema type definition
- * This mirrors your Supabase database structure
- */
-export interface Database {
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
   public: {
     Tables: {
-      /**
-       * Profiles Table
-       * Stores user profile information
-       * Linked to auth.users via id (foreign key)
-       */
-      profiles: {
+      blocked_intervals: {
         Row: {
-          id: string;           // UUID, references auth.users(id)
-          email: string;        // User's email address
-          name: string;         // Display name
-          created_at: string;   // Timestamp when profile was created
-          updated_at: string;   // Timestamp of last update
-        };
-        Insert: {
-          id: string;           // Required: must match auth.users(id)
-          email: string;        // Required
-          name: string;         // Required
-          created_at?: string;  // Optional: defaults to now()
-          updated_at?: string;  // Optional: defaults to now()
-        };
-        Update: {
-          id?: string;          // Cannot update id
-          email?: string;
-          name?: string;
-          created_at?: string;
-          updated_at?: string;  // Will be set to now() on update
-        };
-      };
-
-      /**
-       * Bookings Table
-       * Stores all studio booking requests
-       */
+          end_time: string
+          id: string
+          import_id: string
+          start_time: string
+          summary: string | null
+          uid: string
+        }
+        Insert: {
+          end_time: string
+          id?: string
+          import_id: string
+          start_time: string
+          summary?: string | null
+          uid: string
+        }
+        Update: {
+          end_time?: string
+          id?: string
+          import_id?: string
+          start_time?: string
+          summary?: string | null
+          uid?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_intervals_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          booking_id: string
+          booking_reason: string | null
+          booking_user_id: string | null
+          changes: Json | null
+          created_at: string
+          event_type: string
+          id: string
+          remarks: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          booking_id: string
+          booking_reason?: string | null
+          booking_user_id?: string | null
+          changes?: Json | null
+          created_at?: string
+          event_type: string
+          id?: string
+          remarks?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          booking_id?: string
+          booking_reason?: string | null
+          booking_user_id?: string | null
+          changes?: Json | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          remarks?: string | null
+        }
+        Relationships: []
+      }
+      booking_policies: {
+        Row: {
+          cancel_cutoff_hours: number
+          edit_cutoff_hours: number
+          id: boolean
+          max_reschedules: number | null
+          reapprove_after_edit: boolean
+          updated_at: string
+        }
+        Insert: {
+          cancel_cutoff_hours?: number
+          edit_cutoff_hours?: number
+          id?: boolean
+          max_reschedules?: number | null
+          reapprove_after_edit?: boolean
+          updated_at?: string
+        }
+        Update: {
+          cancel_cutoff_hours?: number
+          edit_cutoff_hours?: number
+          id?: boolean
+          max_reschedules?: number | null
+          reapprove_after_edit?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      booking_quotas: {
+        Row: {
+          id: string
+          max_future_bookings: number | null
+          max_hours_per_month: number | null
+          max_hours_per_week: number | null
+          max_pending_requests: number | null
+          member_group: string | null
+          role: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          max_future_bookings?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_pending_requests?: number | null
+          member_group?: string | null
+          role?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          max_future_bookings?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_pending_requests?: number | null
+          member_group?: string | null
+          role?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      booking_reminders: {
+        Row: {
+          booking_id: string
+          offset_minutes: number
+          sent_at: string
+        }
+        Insert: {
+          booking_id: string
+          offset_minutes: number
+          sent_at?: string
+        }
+        Update: {
+          booking_id?: string
+          offset_minutes?: number
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reminders_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_series: {
+        Row: {
+          count: number | null
+          created_at: string
+          end_time: string
+          frequency: string
+          id: string
+          reason: string
+          repeat_interval: number
+          resource_id: string
+          start_time: string
+          until: string | null
+          user_id: string
+          user_name: string
+        }
+        Insert: {
+          count?: number | null
+          created_at?: string
+          end_time: string
+          frequency: string
+          id?: string
+          reason: string
+          repeat_interval?: number
+          resource_id: string
+          start_time: string
+          until?: string | null
+          user_id: string
+          user_name: string
+        }
+        Update: {
+          count?: number | null
+          created_at?: string
+          end_time?: string
+          frequency?: string
+          id?: string
+          reason?: string
+          repeat_interval?: number
+          resource_id?: string
+          start_time?: string
+          until?: string | null
+          user_id?: string
+          user_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_series_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
-          id: string;           // UUID, primary key
-          user_id: string;      // References profiles(id)
-          user_name: string;    // Denormalized for display efficiency
-          start_time: string;   // ISO timestamp for booking start
-          end_time: string;     // ISO timestamp for booking end
-          status: BookingStatus; // Current booking status
-          reason: string;       // Purpose of the booking
-          created_at: string;   // When booking was created
-        };
-        Insert: {
-          id?: string;          // Optional: auto-generated UUID
-          user_id: string;      // Required: must be authenticated user
-          user_name: string;    // Required
-          start_time: string;   // Required
-          end_time: string;     // Required
-          status?: BookingStatus; // Optional: defaults to 'pending'
-          reason: string;       // Required
-          created_at?: string;  // Optional: defaults to now()
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          user_name?: string;
-          start_time?: string;
-          end_time?: string;
-          status?: BookingStatus;
-          reason?: string;
-          created_at?: string;
-        };
-      };
-
-      /**
-       * User Roles Table
-       * Stores role assignments for access control
-       * Separated from profiles for security (prevents privilege escalation)
-       */
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          end_time: string
+          ical_sequence: number
+          id: string
+          reason: string
+          remarks: string | null
+          reschedule_count: number
+          resource_id: string
+          series_id: string | null
+          start_time: string
+          status: string
+          updated_at: string
+          user_id: string
+          user_name: string
+        }
+        Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          end_time: string
+          ical_sequence?: number
+          id?: string
+          reason: string
+          remarks?: string | null
+          reschedule_count?: number
+          resource_id: string
+          series_id?: string | null
+          start_time: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          user_name: string
+        }
+        Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          end_time?: string
+          ical_sequence?: number
+          id?: string
+          reason?: string
+          remarks?: string | null
+          reschedule_count?: number
+          resource_id?: string
+          series_id?: string | null
+          start_time?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          user_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "booking_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_imports: {
+        Row: {
+          created_at: string
+          id: string
+          last_error: string | null
+          last_synced_at: string | null
+          name: string
+          resource_id: string
+          url: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name: string
+          resource_id: string
+          url?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name?: string
+          resource_id?: string
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_imports_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opening_hours: {
+        Row: {
+          close_time: string
+          is_open: boolean
+          open_time: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          close_time?: string
+          is_open?: boolean
+          open_time?: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          close_time?: string
+          is_open?: boolean
+          open_time?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          id: string
+          member_group: string | null
+          name: string
+          notification_preferences: Json
+          phone: string | null
+          suspended_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          id: string
+          member_group?: string | null
+          name: string
+          notification_preferences?: Json
+          phone?: string | null
+          suspended_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          member_group?: string | null
+          name?: string
+          notification_preferences?: Json
+          phone?: string | null
+          suspended_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quota_overrides: {
+        Row: {
+          max_future_bookings: number | null
+          max_hours_per_month: number | null
+          max_hours_per_week: number | null
+          max_pending_requests: number | null
+          note: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          max_future_bookings?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_pending_requests?: number | null
+          note?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          max_future_bookings?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_pending_requests?: number | null
+          note?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quota_overrides_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resources: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      schedule_settings: {
+        Row: {
+          id: string
+          max_duration_minutes: number
+          min_duration_minutes: number
+          resource_id: string | null
+          slot_minutes: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          max_duration_minutes?: number
+          min_duration_minutes?: number
+          resource_id?: string | null
+          slot_minutes?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          max_duration_minutes?: number
+          min_duration_minutes?: number
+          resource_id?: string | null
+          slot_minutes?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_settings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: true
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      studio_settings: {
+        Row: {
+          id: boolean
+          reminder_offsets: number[]
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          reminder_offsets?: number[]
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          reminder_offsets?: number[]
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
-          id: string;           // UUID, primary key
-          user_id: string;      // References auth.users(id)
-          role: UserRole;       // The assigned role
-        };
-        Insert: {
-          id?: string;          // Optional: auto-generated
-          user_id: string;      // Required
-          role: UserRole;       // Required
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          role?: UserRole;
-        };
-      };
-    };
-  };
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_entries: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          end_time: string
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          reason: string
+          resource_id: string
+          start_time: string
+          status: string
+          user_id: string
+          user_name: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          end_time: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          reason: string
+          resource_id: string
+          start_time: string
+          status?: string
+          user_id: string
+          user_name: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          end_time?: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          reason?: string
+          resource_id?: string
+          start_time?: string
+          status?: string
+          user_id?: string
+          user_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      booking_availability: {
+        Row: {
+          end_time: string | null
+          id: string | null
+          is_own: boolean | null
+          resource_id: string | null
+          start_time: string | null
+          status: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      booked_hours: {
+        Args: {
+          p_exclude_id?: string
+          p_from: string
+          p_to: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      booking_quota_for: {
+        Args: { p_user_id: string }
+        Returns: {
+          max_future_bookings: number
+          max_hours_per_month: number
+          max_hours_per_week: number
+          max_pending_requests: number
+          source: string
+        }[]
+      }
+      calendar_feed_token: {
+        Args: { p_regenerate?: boolean }
+        Returns: string
+      }
+      claim_due_reminders: {
+        Args: never
+        Returns: {
+          booking_id: string
+          end_time: string
+          offset_minutes: number
+          reason: string
+          resource_id: string
+          start_time: string
+          user_id: string
+        }[]
+      }
+      claim_waitlist_offer: {
+        Args: { p_entry_id: string }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          end_time: string
+          ical_sequence: number
+          id: string
+          reason: string
+          remarks: string | null
+          reschedule_count: number
+          resource_id: string
+          series_id: string | null
+          start_time: string
+          status: string
+          updated_at: string
+          user_id: string
+          user_name: string
+        }
+      }
+      delete_my_account: { Args: never; Returns: undefined }
+      expire_waitlist_offers: { Args: never; Returns: undefined }
+      get_my_quota: { Args: never; Returns: Json }
+      is_admin: { Args: never; Returns: boolean }
+      is_valid_timezone: { Args: { p_timezone: string }; Returns: boolean }
+      process_waitlist: {
+        Args: { p_resource_id: string }
+        Returns: undefined
+      }
+      replace_blocked_intervals: {
+        Args: { p_import_id: string; p_intervals: Json }
+        Returns: number
+      }
+      set_member_role: {
+        Args: { p_role: string; p_user_id: string }
+        Returns: undefined
+      }
+      set_member_suspended: {
+        Args: { p_suspended: boolean; p_user_id: string }
+        Returns: undefined
+      }
+      studio_period: {
+        Args: { p_at: string; p_unit: string }
+        Returns: unknown
+      }
+      studio_timezone: { Args: never; Returns: string }
+      update_series_bookings: {
+        Args: {
+          p_booking_id: string
+          p_end_shift_minutes?: number
+          p_reason?: string
+          p_scope: string
+          p_start_shift_minutes?: number
+        }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          end_time: string
+          ical_sequence: number
+          id: string
+          reason: string
+          remarks: string | null
+          reschedule_count: number
+          resource_id: string
+          series_id: string | null
+          start_time: string
+          status: string
+          updated_at: string
+          user_id: string
+          user_name: string
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
 }
 
-/**
- * Helper type to extract table row types
- * Usage: type Profile = Tables<'profiles'>
- */
-export type Tables<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Row'];
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
 
-/**
- * Helper type to extract insert types
- * Usage: type NewBooking = TablesInsert<'bookings'>
- */
-export type TablesInsert<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Insert'];
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
 
-/**
- * Helper type to extract update types
- * Usage: type BookingUpdate = TablesUpdate<'bookings'>
- */
-export type TablesUpdate<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Update'];
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,100 @@
+// iCalendar (RFC 5545) files of bookings, for the calendar feeds and the
+// approval email. Keep the UIDs in line with src/lib/ical.ts, which builds
+// the downloads in the app, so calendar apps see one event per booking.
+
+export interface CalendarEvent {
+  uid: string
+  sequence: number
+  start: string
+  end: string
+  // When the booking last changed
+  updated: string
+  summary: string
+  description?: string | null
+  location?: string | null
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+}
+
+export interface CalendarBooking {
+  id: string
+  start_time: string
+  end_time: string
+  status: string
+  reason: string
+  remarks?: string | null
+  ical_sequence: number
+  updated_at: string
+}
+
+// 2026-03-07T18:00:00.000Z -> 20260307T180000Z
+const formatDate = (value: string) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines longer than 75 octets continue on the next line after a space
+const fold = (line: string) => {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  return [...parts, current].join('\r\n ')
+}
+
+/**
+ * The event of a booking, cancelled unless it is approved or pending
+ *
+ * @param title - What the event is called, e.g. the booking's reason
+ * @param location - The resource's name
+ */
+export function bookingEvent(booking: CalendarBooking, title: string, location?: string | null): CalendarEvent {
+  return {
+    uid: `${booking.id}@studio-booking`,
+    sequence: booking.ical_sequence,
+    start: booking.start_time,
+    end: booking.end_time,
+    updated: booking.updated_at,
+    summary: title,
+    description: booking.remarks,
+    location,
+    status: booking.status === 'approved' ? 'CONFIRMED' : booking.status === 'pending' ? 'TENTATIVE' : 'CANCELLED',
+  }
+}
+
+/**
+ * A calendar with the events, as the text of an .ics file
+ */
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Studio Booking//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${formatDate(event.updated)}`,
+      `LAST-MODIFIED:${formatDate(event.updated)}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.status}`,
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
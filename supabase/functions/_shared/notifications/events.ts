@@ -0,0 +1,44 @@
+// Everything the studio notifies people about, and the variables each
+// event's template can use. Variables are plain text, formatted by the caller
+// (times in the studio's timezone), and escaped by the templates. Every
+// template can also use {{name}}, the name of the recipient.
+
+// Shared by every event about one booking
+export interface BookingVariables {
+  when: string
+  resource: string
+  reason: string
+}
+
+export interface NotificationVariables {
+  // Sent to the admins, member is who asked
+  request_submitted: BookingVariables & { member: string }
+  // A recurring request, one line per occurrence in occurrences
+  series_request_submitted: BookingVariables & { member: string; count: string; occurrences: string }
+  // An approved booking the member edited, which needs approval again
+  request_resubmitted: BookingVariables & { member: string; previous: string }
+  booking_approved: BookingVariables & { remarks: string }
+  booking_rejected: BookingVariables & { remarks: string }
+  // previous is when and where the booking was before the edit
+  booking_edited: BookingVariables & { previous: string }
+  booking_cancelled: BookingVariables & { remarks: string }
+  booking_reminder: BookingVariables & { startsIn: string }
+  waitlist_offer: Omit<BookingVariables, 'reason'> & { expires: string }
+}
+
+export type NotificationEventType = keyof NotificationVariables
+
+export type NotificationEvent = {
+  [T in NotificationEventType]: { type: T; variables: NotificationVariables[T] }
+}[NotificationEventType]
+
+// The profile preference that turns an event off for its recipient. Events
+// without one are always sent.
+export const EVENT_PREFERENCES: Partial<Record<NotificationEventType, string>> = {
+  booking_approved: 'booking_updates',
+  booking_rejected: 'booking_updates',
+  booking_edited: 'booking_updates',
+  booking_cancelled: 'booking_updates',
+  booking_reminder: 'reminder_email',
+  waitlist_offer: 'waitlist_offers',
+}
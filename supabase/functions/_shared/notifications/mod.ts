@@ -0,0 +1,6 @@
+// Notifications sent by the edge functions: typed events, their templates
+// and the providers that deliver them
+export * from './events.ts'
+export * from './templates.ts'
+export * from './providers.ts'
+export * from './notify.ts'
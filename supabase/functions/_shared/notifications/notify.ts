@@ -0,0 +1,118 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EVENT_PREFERENCES, type BookingVariables, type NotificationEvent } from './events.ts'
+import { createProvider, type EmailAttachment, type NotificationProvider } from './providers.ts'
+import { renderTemplate } from './templates.ts'
+
+// Who a notification goes to, preferences are the profile's notification_preferences
+export interface Recipient {
+  email: string
+  name: string
+  preferences?: Record<string, boolean> | null
+}
+
+export interface NotifyOptions {
+  // Defaults to the one picked by createProvider
+  provider?: NotificationProvider
+  // Sent along with every message
+  attachments?: EmailAttachment[]
+}
+
+export interface NotifyResult {
+  sent: number
+  skipped: number
+  failed: number
+}
+
+// Times are shown in the studio's timezone, not the server's
+export async function studioTimeZone(supabase: SupabaseClient): Promise<string> {
+  const { data: settings } = await supabase.from('studio_settings').select('timezone').maybeSingle()
+  return settings?.timezone ?? 'UTC'
+}
+
+export const formatTime = (value: string, timeZone: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone })
+
+/**
+ * The variables shared by every event about a booking, from its row
+ */
+export async function bookingVariables(
+  supabase: SupabaseClient,
+  booking: { resource_id: string | null; start_time: string; end_time: string; reason: string },
+  timeZone: string,
+): Promise<BookingVariables> {
+  const { data: resource } = booking.resource_id
+    ? await supabase.from('resources').select('name').eq('id', booking.resource_id).maybeSingle()
+    : { data: null }
+
+  return {
+    when: `${formatTime(booking.start_time, timeZone)} - ${formatTime(booking.end_time, timeZone)}`,
+    resource: resource?.name ?? 'the studio',
+    reason: booking.reason,
+  }
+}
+
+/**
+ * A member, null when their profile or email can't be found
+ */
+export async function memberRecipient(supabase: SupabaseClient, userId: string): Promise<Recipient | null> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('email, name, notification_preferences')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!profile?.email) return null
+  return { email: profile.email, name: profile.name, preferences: profile.notification_preferences }
+}
+
+/**
+ * Every admin who isn't suspended
+ */
+export async function adminRecipients(supabase: SupabaseClient): Promise<Recipient[]> {
+  const { data: roles } = await supabase.from('user_roles').select('user_id').eq('role', 'admin')
+  if (!roles?.length) return []
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('email, name, notification_preferences')
+    .in('id', roles.map((role) => role.user_id))
+    .is('suspended_at', null)
+
+  return (profiles ?? []).map((profile) => ({
+    email: profile.email,
+    name: profile.name,
+    preferences: profile.notification_preferences,
+  }))
+}
+
+/**
+ * Send an event to its recipients, one message each
+ *
+ * Recipients who turned the event off in their preferences are skipped. A
+ * failed message is logged and doesn't stop the others.
+ */
+export async function notify(
+  event: NotificationEvent,
+  recipients: Recipient[],
+  { provider = createProvider(), attachments }: NotifyOptions = {},
+): Promise<NotifyResult> {
+  const preference = EVENT_PREFERENCES[event.type]
+  const result: NotifyResult = { sent: 0, skipped: 0, failed: 0 }
+
+  for (const recipient of recipients) {
+    if (preference && recipient.preferences?.[preference] === false) {
+      result.skipped++
+      continue
+    }
+
+    try {
+      await provider.send({ to: [recipient.email], ...renderTemplate(event, recipient.name), attachments })
+      result.sent++
+    } catch (error) {
+      console.error(`Send ${event.type} notification error:`, error)
+      result.failed++
+    }
+  }
+
+  return result
+}
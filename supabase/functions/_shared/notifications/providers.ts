@@ -0,0 +1,149 @@
+import { encode as encodeBase64 } from 'https://deno.land/std@0.190.0/encoding/base64.ts'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+// A text file sent along, e.g. an .ics file of the booking
+export interface EmailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
+export interface EmailMessage {
+  to: string[]
+  subject: string
+  html: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+// Delivers rendered messages, throws when a message couldn't be sent
+export interface NotificationProvider {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+const FROM = Deno.env.get('NOTIFICATION_FROM') ?? 'Studio Booking <onboarding@resend.dev>'
+
+export function resendProvider(apiKey: string): NotificationProvider {
+  return {
+    name: 'resend',
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          from: FROM,
+          ...message,
+          attachments: message.attachments?.map(({ filename, content, contentType }) => ({
+            filename,
+            content: encodeBase64(content),
+            content_type: contentType,
+          })),
+        }),
+      })
+
+      if (!res.ok) {
+        throw new Error(`Resend answered ${res.status}: ${await res.text()}`)
+      }
+    },
+  }
+}
+
+export function smtpProvider(options: {
+  hostname: string
+  port: number
+  username?: string
+  password?: string
+}): NotificationProvider {
+  return {
+    name: 'smtp',
+    async send(message) {
+      // A connection per message, functions don't live long enough to reuse one
+      const client = new SMTPClient({
+        connection: {
+          hostname: options.hostname,
+          port: options.port,
+          tls: options.port === 465,
+          auth: options.username ? { username: options.username, password: options.password ?? '' } : undefined,
+        },
+      })
+
+      try {
+        await client.send({
+          from: FROM,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+          attachments: message.attachments?.map(({ filename, content, contentType }) => ({
+            filename,
+            content,
+            contentType,
+            encoding: 'text' as const,
+          })),
+        })
+      } finally {
+        await client.close()
+      }
+    },
+  }
+}
+
+// Prints the messages instead of sending them, for local development
+export function consoleProvider(): NotificationProvider {
+  return {
+    name: 'console',
+    send(message) {
+      const attached = message.attachments?.map((attachment) => attachment.filename).join(', ')
+      console.log(
+        `Notification to ${message.to.join(', ')}: ${message.subject}\n\n${message.text}` +
+          (attached ? `\n\nAttached: ${attached}` : ''),
+      )
+      return Promise.resolve()
+    },
+  }
+}
+
+// Appends the messages to a file, one JSON object per line, for tests to read
+export function fileProvider(path: string): NotificationProvider {
+  return {
+    name: 'file',
+    async send(message) {
+      await Deno.writeTextFile(path, JSON.stringify({ ...message, sent_at: new Date().toISOString() }) + '\n', {
+        append: true,
+      })
+    },
+  }
+}
+
+/**
+ * The provider picked by the NOTIFICATION_PROVIDER env variable: resend, smtp,
+ * console or file. Defaults to Resend when RESEND_API_KEY is set and to the
+ * console otherwise, so nothing is sent by accident during development.
+ */
+export function createProvider(): NotificationProvider {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  const name = Deno.env.get('NOTIFICATION_PROVIDER') ?? (resendApiKey ? 'resend' : 'console')
+
+  switch (name) {
+    case 'resend':
+      if (!resendApiKey) throw new Error('RESEND_API_KEY is not set')
+      return resendProvider(resendApiKey)
+    case 'smtp':
+      return smtpProvider({
+        hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+      })
+    case 'console':
+      return consoleProvider()
+    case 'file':
+      return fileProvider(Deno.env.get('NOTIFICATION_FILE') ?? '/tmp/notifications.jsonl')
+    default:
+      throw new Error(`Unknown notification provider "${name}"`)
+  }
+}
@@ -0,0 +1,155 @@
+import type { NotificationEvent, NotificationEventType } from './events.ts'
+
+// A template's text, with {{variable}} placeholders. {{#variable}}...{{/variable}}
+// is only kept when the variable isn't empty.
+export interface Template {
+  subject: string
+  body: string
+}
+
+export interface RenderedTemplate {
+  subject: string
+  html: string
+  text: string
+}
+
+const FOOTER = 'Log in to the dashboard for more details.'
+
+export const TEMPLATES: Record<NotificationEventType, Template> = {
+  request_submitted: {
+    subject: 'New booking request from {{member}}',
+    body: `Hello {{name}}!
+
+{{member}} asked to book {{resource}}.
+
+When: {{when}}
+Reason for booking: {{reason}}
+
+The request is waiting for your approval.`,
+  },
+  series_request_submitted: {
+    subject: 'New recurring booking request from {{member}}',
+    body: `Hello {{name}}!
+
+{{member}} asked to book {{resource}} {{count}} times.
+
+Reason for booking: {{reason}}
+
+{{occurrences}}
+
+Each session is waiting for your approval.`,
+  },
+  request_resubmitted: {
+    subject: '{{member}} changed an approved booking',
+    body: `Hello {{name}}!
+
+{{member}} changed a booking you had approved.
+
+Now: {{when}} in {{resource}}
+Before: {{previous}}
+Reason for booking: {{reason}}
+
+The booking is waiting for your approval again.`,
+  },
+  booking_approved: {
+    subject: 'Your booking is approved',
+    body: `Hello {{name}}!
+
+The admin has approved your request for {{resource}}.
+
+When: {{when}}
+Reason for booking: {{reason}}
+{{#remarks}}Notes from the admin: {{remarks}}{{/remarks}}`,
+  },
+  booking_rejected: {
+    subject: 'Your booking was rejected',
+    body: `Hello {{name}}!
+
+The admin has rejected your request for {{resource}}.
+
+When: {{when}}
+Reason for booking: {{reason}}
+{{#remarks}}Reason for rejection: {{remarks}}{{/remarks}}`,
+  },
+  booking_edited: {
+    subject: 'Your booking was changed',
+    body: `Hello {{name}}!
+
+An admin has changed your booking "{{reason}}".
+
+Now: {{when}} in {{resource}}
+Before: {{previous}}`,
+  },
+  booking_cancelled: {
+    subject: 'Your booking was cancelled',
+    body: `Hello {{name}}!
+
+An admin has cancelled your booking of {{resource}}.
+
+When: {{when}}
+Reason for booking: {{reason}}
+{{#remarks}}Reason for cancellation: {{remarks}}{{/remarks}}`,
+  },
+  booking_reminder: {
+    subject: 'Your studio session starts in {{startsIn}}',
+    body: `Hello {{name}}!
+
+This is a reminder of your session in {{resource}}.
+
+When: {{when}}
+Reason for booking: {{reason}}`,
+  },
+  waitlist_offer: {
+    subject: 'A studio slot you waited for is available',
+    body: `Hello {{name}}!
+
+The time you are on the waitlist for in {{resource}} has just become available.
+
+When: {{when}}
+Held for you until: {{expires}}
+
+Claim it before the offer runs out, after that it goes to the next person in line.`,
+  },
+}
+
+// Variables are typed by members and admins, keep them from breaking the markup
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const fill = (text: string, variables: Record<string, string>, escape: (value: string) => string) =>
+  text
+    .replace(/{{#(\w+)}}([\s\S]*?){{\/\1}}/g, (_, key, inner) => (variables[key] ? inner : ''))
+    .replace(/{{(\w+)}}/g, (_, key) => escape(variables[key] ?? ''))
+
+// Paragraphs are separated by blank lines, "Label: value" lines get a bold label
+const toHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph, i) => {
+      const lines = paragraph
+        .split('\n')
+        .map((line) => line.replace(/^([A-Z][\w ]{0,30}):\s/, '<strong>$1:</strong> '))
+        .join('<br />')
+      return i === 0 ? `<h3>${lines}</h3>` : `<p>${lines}</p>`
+    })
+    .join('\n')
+
+/**
+ * Render the template of an event for one recipient, as HTML and as plain text
+ */
+export function renderTemplate(
+  event: NotificationEvent,
+  recipientName: string,
+  template: Template = TEMPLATES[event.type],
+): RenderedTemplate {
+  const variables: Record<string, string> = { ...event.variables, name: recipientName || 'there' }
+  const body = `${template.body}\n\n${FOOTER}`
+
+  return {
+    subject: fill(template.subject, variables, (value) => value),
+    html: toHtml(fill(body, variables, escapeHtml)),
+    text: fill(body, variables, (value) => value).replace(/\n{3,}/g, '\n\n'),
+  }
+}
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { bookingEvent, buildCalendar } from '../_shared/ical.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Past sessions stay in the feed for this long
+const PAST_DAYS = 90
+
+const text = (body: string, status: number) => new Response(body, { status })
+
+// Subscribed to by calendar apps, which can't sign in: the secret token in
+// the URL says whose feed it is.
+//   ?token=...                 the user's own bookings
+//   ?token=...&all=1           every booking, for admins
+//   ?token=...&resource=<id>   every booking of one resource, for admins
+serve(async (req: Request) => {
+  const url = new URL(req.url)
+  const token = url.searchParams.get('token')
+  const resourceId = url.searchParams.get('resource')
+  const everyone = url.searchParams.has('all') || !!resourceId
+
+  if (!token) return text("Missing token", 400)
+
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+
+  const { data: feed } = await supabase.from('calendar_feeds').select('user_id').eq('token', token).maybeSingle()
+  if (!feed) return text("Unknown calendar feed", 404)
+
+  const [{ data: profile }, { data: role }] = await Promise.all([
+    supabase.from('profiles').select('suspended_at').eq('id', feed.user_id).maybeSingle(),
+    supabase.from('user_roles').select('role').eq('user_id', feed.user_id).maybeSingle(),
+  ])
+  if (!profile || profile.suspended_at) return text("This account is suspended", 403)
+  if (everyone && role?.role !== 'admin') return text("Only admins can subscribe to every booking", 403)
+
+  let query = supabase
+    .from('bookings')
+    .select('id, user_name, resource_id, start_time, end_time, status, reason, remarks, ical_sequence, updated_at')
+    .gte('end_time', new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .order('start_time', { ascending: true })
+  if (!everyone) query = query.eq('user_id', feed.user_id)
+  if (resourceId) query = query.eq('resource_id', resourceId)
+
+  const [{ data: bookings, error }, { data: resources }] = await Promise.all([
+    query,
+    supabase.from('resources').select('id, name'),
+  ])
+  if (error) {
+    console.error('Fetch feed bookings error:', error)
+    return text("Failed to load the bookings", 500)
+  }
+
+  // Bookings that are no longer approved stay in the feed as cancelled, so
+  // calendar apps remove them. Requests that were never approved are left out.
+  const unapprovedIds = (bookings ?? []).filter((b) => b.status !== 'approved').map((b) => b.id)
+  const { data: approvals } = unapprovedIds.length
+    ? await supabase.from('booking_events').select('booking_id').eq('event_type', 'approved').in('booking_id', unapprovedIds)
+    : { data: [] }
+  const onceApproved = new Set((approvals ?? []).map((event) => event.booking_id))
+
+  const resourceNames = new Map((resources ?? []).map((resource) => [resource.id, resource.name]))
+  const events = (bookings ?? [])
+    .filter((b) => b.status === 'approved' || onceApproved.has(b.id))
+    .map((b) =>
+      bookingEvent(b, everyone ? `${b.user_name}: ${b.reason}` : b.reason, resourceNames.get(b.resource_id))
+    )
+
+  const name = resourceId
+    ? `Studio bookings: ${resourceNames.get(resourceId) ?? 'resource'}`
+    : everyone
+    ? 'Studio bookings'
+    : 'My studio bookings'
+
+  return new Response(buildCalendar(name, events), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="bookings.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  })
+})
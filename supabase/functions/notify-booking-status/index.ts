@@ -1,57 +1,159 @@
 // 1. We use the 'standard' Supabase Edge Function imports
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  adminRecipients,
+  bookingVariables,
+  formatTime,
+  memberRecipient,
+  notify,
+  studioTimeZone,
+  type EmailAttachment,
+  type NotificationEvent,
+} from '../_shared/notifications/mod.ts'
+import { bookingEvent, buildCalendar } from '../_shared/ical.ts'
 
-const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-serve(async (req: any) => {
-  // This is the payload sent by the Supabase Webhook
-  const { record, old_record } = await req.json()
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status })
+
+// Statuses a member is told about when an admin sets them
+const STATUS_EVENTS = {
+  approved: 'booking_approved',
+  rejected: 'booking_rejected',
+  cancelled: 'booking_cancelled',
+} as const
+
+serve(async (req: Request) => {
+  // This is the payload sent by the Supabase Webhook on inserts and updates of bookings
+  const { type, record, old_record } = await req.json()
+
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+  const timeZone = await studioTimeZone(supabase)
+  const booking = await bookingVariables(supabase, record, timeZone)
+
+  // New requests are sent to the admins to approve
+  if (type === 'INSERT') {
+    if (record.status !== 'pending') {
+      return json({ message: "Not a request, no email sent" })
+    }
+
+    const member = await memberRecipient(supabase, record.user_id)
+    const memberName = member?.name ?? record.user_name
+
+    // The occurrences of a series are inserted together, the first one
+    // sends a single email that lists all of them
+    if (record.series_id) {
+      const { data: occurrences } = await supabase
+        .from('bookings')
+        .select('id, start_time, end_time')
+        .eq('series_id', record.series_id)
+        .order('start_time', { ascending: true })
+
+      if (occurrences?.length && occurrences[0].id !== record.id) {
+        return json({ message: "Part of a series, the first occurrence sends the email" })
+      }
+
+      if (occurrences && occurrences.length > 1) {
+        const result = await notify(
+          {
+            type: 'series_request_submitted',
+            variables: {
+              ...booking,
+              member: memberName,
+              count: String(occurrences.length),
+              occurrences: occurrences
+                .map((o) => `${formatTime(o.start_time, timeZone)} - ${formatTime(o.end_time, timeZone)}`)
+                .join('\n'),
+            },
+          },
+          await adminRecipients(supabase),
+        )
+        return json(result)
+      }
+    }
+
+    const result = await notify(
+      { type: 'request_submitted', variables: { ...booking, member: memberName } },
+      await adminRecipients(supabase),
+    )
+    return json(result)
+  }
+
+  let event: NotificationEvent
 
-  // Only run if the status changed (e.g., from 'pending' to 'approved')
   if (record.status !== old_record.status) {
-    
-    // Initialize Supabase Client to fetch the User's Email
-    const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
-
-    // Fetch the email from the profiles table using the user_id from the booking
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('email, name')
-      .eq('id', record.user_id)
-      .single()
-
-    if (profileError || !profile?.email) {
-      return new Response(JSON.stringify({ error: "Could not find user email" }), { status: 400 })
+    // A member's edit sends an approved booking back to the admins
+    if (record.status === 'pending' && old_record.status === 'approved') {
+      const member = await memberRecipient(supabase, record.user_id)
+      const previous = await bookingVariables(supabase, old_record, timeZone)
+      const result = await notify(
+        {
+          type: 'request_resubmitted',
+          variables: {
+            ...booking,
+            member: member?.name ?? record.user_name,
+            previous: `${previous.when} in ${previous.resource}`,
+          },
+        },
+        await adminRecipients(supabase),
+      )
+      return json(result)
+    }
+
+    // Users who cancel their own booking already know about it
+    if (record.status === 'cancelled' && record.cancelled_by === record.user_id) {
+      return json({ message: "Cancelled by the user, no email sent" })
     }
 
-    // Send the Email via Resend
-    const res = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: 'Studio Booking <onboarding@resend.dev>',
-        to: [profile.email],
-        subject: `Your Booking is ${record.status.toUpperCase()}`,
-        html: `
-          <h3>Hello ${profile.name || 'there'}!</h3>
-          <p>The admin has reviewed your request for the studio.</p>
-          <p><strong>Status:</strong> ${record.status}</p>
-          <p><strong>Reason for booking:</strong> ${record.reason}</p>
-          <br />
-          <p>Login to the dashboard for more details.</p>
-        `,
-      }),
-    })
-
-    const result = await res.json()
-    return new Response(JSON.stringify(result), { status: 200 })
+    const eventType = STATUS_EVENTS[record.status as keyof typeof STATUS_EVENTS]
+    if (!eventType) {
+      return json({ message: "No email for this status" })
+    }
+
+    // Admin remarks on the decision: the reason for a rejection, or notes on an approval
+    // A cancellation by an admin carries its own reason
+    const remarks = (record.status === 'cancelled' ? record.cancellation_reason : record.remarks) ?? ''
+    event = { type: eventType, variables: { ...booking, remarks } }
+  } else if (
+    record.start_time !== old_record.start_time ||
+    record.end_time !== old_record.end_time ||
+    record.resource_id !== old_record.resource_id
+  ) {
+    // Members who moved their own booking already know about it
+    const { data: lastEdit } = await supabase
+      .from('booking_events')
+      .select('actor_id')
+      .eq('booking_id', record.id)
+      .eq('event_type', 'edited')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lastEdit?.actor_id === record.user_id) {
+      return json({ message: "Edited by the user, no email sent" })
+    }
+
+    const previous = await bookingVariables(supabase, old_record, timeZone)
+    event = { type: 'booking_edited', variables: { ...booking, previous: `${previous.when} in ${previous.resource}` } }
+  } else {
+    return json({ message: "No status or time change detected" })
   }
 
-  return new Response(JSON.stringify({ message: "No status change detected" }), { status: 200 })
-})
\ No newline at end of file
+  const member = await memberRecipient(supabase, record.user_id)
+  if (!member) {
+    return json({ error: "Could not find user email" }, 400)
+  }
+
+  // Approved sessions come with an .ics file to add them to a calendar
+  const attachments: EmailAttachment[] = event.type === 'booking_approved'
+    ? [{
+      filename: 'booking.ics',
+      content: buildCalendar('Studio booking', [bookingEvent(record, record.reason, booking.resource)]),
+      contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    }]
+    : []
+
+  return json(await notify(event, [member], { attachments }))
+})
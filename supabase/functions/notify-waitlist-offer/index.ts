@@ -0,0 +1,42 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  bookingVariables,
+  formatTime,
+  memberRecipient,
+  notify,
+  studioTimeZone,
+} from '../_shared/notifications/mod.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+serve(async (req: Request) => {
+  // This is the payload sent by the Supabase Webhook on waitlist_entries
+  const { record, old_record } = await req.json()
+
+  // Only run when a waitlisted time range has just been offered
+  if (record.status !== 'offered' || old_record?.status === 'offered') {
+    return new Response(JSON.stringify({ message: "No new offer, no email sent" }), { status: 200 })
+  }
+
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+
+  const member = await memberRecipient(supabase, record.user_id)
+  if (!member) {
+    return new Response(JSON.stringify({ error: "Could not find user email" }), { status: 400 })
+  }
+
+  const timeZone = await studioTimeZone(supabase)
+  const { when, resource } = await bookingVariables(supabase, { ...record, reason: '' }, timeZone)
+
+  // Members who turned waitlist offers off in their settings are skipped
+  const result = await notify(
+    {
+      type: 'waitlist_offer',
+      variables: { when, resource, expires: formatTime(record.offer_expires_at, timeZone) },
+    },
+    [member],
+  )
+  return new Response(JSON.stringify(result), { status: 200 })
+})
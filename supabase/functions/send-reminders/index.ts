@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  bookingVariables,
+  createProvider,
+  memberRecipient,
+  notify,
+  studioTimeZone,
+} from '../_shared/notifications/mod.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// 1440 -> "24 hours", 90 -> "90 minutes"
+const formatOffset = (minutes: number) =>
+  minutes % 60 === 0
+    ? `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`
+    : `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`
+
+// Called every five minutes by pg_cron, or by hand during development
+serve(async () => {
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+
+  // Claimed reminders are never returned again, even if sending fails below
+  const { data: due, error } = await supabase.rpc('claim_due_reminders')
+  if (error) {
+    console.error('Claim reminders error:', error)
+    return new Response(JSON.stringify({ error: "Failed to claim reminders" }), { status: 500 })
+  }
+
+  const timeZone = await studioTimeZone(supabase)
+  const provider = createProvider()
+  const result = { reminders: due.length, emailed: 0, notified: 0 }
+
+  for (const reminder of due) {
+    const member = await memberRecipient(supabase, reminder.user_id)
+    if (!member) continue
+
+    // In the app, unless the member turned it off
+    if (member.preferences?.reminder_in_app !== false) {
+      const { error: insertError } = await supabase.from('notifications').insert({
+        user_id: reminder.user_id,
+        type: 'booking_reminder',
+        booking_id: reminder.booking_id,
+        data: {
+          reason: reminder.reason,
+          start_time: reminder.start_time,
+          end_time: reminder.end_time,
+          resource_id: reminder.resource_id,
+        },
+      })
+      if (insertError) console.error('Add reminder notification error:', insertError)
+      else result.notified++
+    }
+
+    // By email, notify skips members who turned it off
+    const { sent } = await notify(
+      {
+        type: 'booking_reminder',
+        variables: {
+          ...(await bookingVariables(supabase, reminder, timeZone)),
+          startsIn: formatOffset(reminder.offset_minutes),
+        },
+      },
+      [member],
+      { provider },
+    )
+    result.emailed += sent
+  }
+
+  return new Response(JSON.stringify(result), { status: 200 })
+})
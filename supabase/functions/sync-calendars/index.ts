@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import ICAL from 'https://esm.sh/ical.js@2.1.0'
+import { studioTimeZone } from '../_shared/notifications/mod.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Events are imported from this long ago until this far ahead
+const PAST_DAYS = 31
+const FUTURE_DAYS = 365
+// Stops rules without an end from running forever, only the occurrences
+// inside the window count
+const MAX_OCCURRENCES = 5000
+const FETCH_TIMEOUT_MS = 15000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status })
+
+interface BlockedInterval {
+  uid: string
+  start_time: string
+  end_time: string
+  summary: string | null
+}
+
+interface CalendarImport {
+  id: string
+  url: string | null
+}
+
+const isTimeZone = (zone: unknown): zone is string => {
+  if (typeof zone !== 'string') return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Minutes the zone is ahead of UTC at the instant
+const zoneOffset = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(instant).map((part) => [part.type, Number(part.value)]),
+  )
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return (wallClock - Math.floor(instant / 1000) * 1000) / 60000
+}
+
+// All-day events and floating times are wall clock times of their TZID, or
+// of the studio when the calendar doesn't say which zone it means
+const toInstant = (time: ICAL.Time, timeZone: string): number => {
+  if (!time.isDate && time.zone && time.zone.tzid !== 'floating') {
+    return time.toJSDate().getTime()
+  }
+
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second)
+  const guess = wallClock - zoneOffset(wallClock, timeZone) * 60000
+  return wallClock - zoneOffset(guess, timeZone) * 60000
+}
+
+/**
+ * The busy time of the calendar's events that overlap the window
+ *
+ * Recurring events are expanded, with their changed and cancelled
+ * occurrences. Cancelled events and events marked as free are left out.
+ */
+function parseCalendar(ics: string, studioZone: string, windowStart: number, windowEnd: number): BlockedInterval[] {
+  let calendar: ICAL.Component
+  try {
+    calendar = new ICAL.Component(ICAL.parse(ics))
+  } catch {
+    throw new Error("This is not a valid iCalendar file")
+  }
+  if (calendar.name !== 'vcalendar') throw new Error("This is not a valid iCalendar file")
+
+  for (const timezone of calendar.getAllSubcomponents('vtimezone')) {
+    ICAL.TimezoneService.register(timezone)
+  }
+
+  // Changed occurrences of a recurring event come as events of their own
+  const events = calendar.getAllSubcomponents('vevent').map((vevent) => new ICAL.Event(vevent))
+  const masters = new Map(events.filter((event) => !event.isRecurrenceException()).map((event) => [event.uid, event]))
+  for (const event of events.filter((event) => event.isRecurrenceException())) {
+    const master = masters.get(event.uid)
+    if (master) master.relateException(event)
+    else masters.set(`${event.uid}/${event.recurrenceId}`, event)
+  }
+
+  const isBusy = (vevent: ICAL.Component) =>
+    String(vevent.getFirstPropertyValue('status') ?? '').toUpperCase() !== 'CANCELLED' &&
+    String(vevent.getFirstPropertyValue('transp') ?? '').toUpperCase() !== 'TRANSPARENT'
+
+  const intervals: BlockedInterval[] = []
+  for (const event of masters.values()) {
+    const tzid = event.component.getFirstProperty('dtstart')?.getParameter('tzid')
+    const timeZone = isTimeZone(tzid) ? tzid : studioZone
+    const add = (item: ICAL.Event, startDate: ICAL.Time, endDate: ICAL.Time) => {
+      const start = toInstant(startDate, timeZone)
+      const end = toInstant(endDate, timeZone)
+      if (end <= windowStart || start >= windowEnd || end <= start || !isBusy(item.component)) return
+      intervals.push({
+        uid: event.uid,
+        start_time: new Date(start).toISOString(),
+        end_time: new Date(end).toISOString(),
+        summary: item.summary || null,
+      })
+    }
+
+    if (!event.isRecurring()) {
+      add(event, event.startDate, event.endDate)
+      continue
+    }
+
+    // Rules that started long before the window are skipped up to it, so
+    // they still reach the occurrences inside it
+    const iterator = event.iterator()
+    let count = 0
+    for (let next = iterator.next(); next && count < MAX_OCCURRENCES; next = iterator.next()) {
+      const occurrence = event.getOccurrenceDetails(next)
+      if (toInstant(occurrence.startDate, timeZone) >= windowEnd) break
+      if (toInstant(occurrence.endDate, timeZone) <= windowStart) continue
+      count++
+      add(occurrence.item, occurrence.startDate, occurrence.endDate)
+    }
+  }
+
+  return intervals
+}
+
+// webcal:// is how calendar apps offer subscriptions, the file itself is on https://
+async function fetchCalendar(url: string): Promise<string> {
+  const response = await fetch(url.replace(/^webcal:\/\//i, 'https://'), {
+    headers: { Accept: 'text/calendar' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  })
+  if (!response.ok) throw new Error(`The calendar URL answered with ${response.status} ${response.statusText}`)
+  return await response.text()
+}
+
+async function syncImport(
+  supabase: SupabaseClient,
+  calendarImport: CalendarImport,
+  ics: string | undefined,
+  timeZone: string,
+): Promise<{ id: string; blocked?: number; error?: string }> {
+  try {
+    if (!ics && !calendarImport.url) throw new Error("Upload the calendar's .ics file again to update it")
+
+    const now = Date.now()
+    const intervals = parseCalendar(
+      ics ?? await fetchCalendar(calendarImport.url!),
+      timeZone,
+      now - PAST_DAYS * DAY_MS,
+      now + FUTURE_DAYS * DAY_MS,
+    )
+
+    const { data: blocked, error } = await supabase.rpc('replace_blocked_intervals', {
+      p_import_id: calendarImport.id,
+      p_intervals: intervals,
+    })
+    if (error) throw new Error(error.message)
+
+    return { id: calendarImport.id, blocked }
+  } catch (error) {
+    // The intervals of the last successful sync stay in place
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Sync calendar ${calendarImport.id} error:`, error)
+    await supabase.from('calendar_imports').update({ last_error: message }).eq('id', calendarImport.id)
+    return { id: calendarImport.id, error: message }
+  }
+}
+
+// Called every hour by pg_cron for every import with a URL, or by admins in
+// the app for a single import:
+//   {}                 every import with a URL
+//   { importId }       one import, fetched from its URL
+//   { importId, ics }  one import, from the text of an uploaded .ics file
+serve(async (req: Request) => {
+  const { importId, ics } = await req.json().catch(() => ({}))
+
+  // An uploaded file belongs to one import, never to all of them
+  if (ics && !importId) {
+    return json({ error: "An uploaded calendar needs the importId of its import" }, 400)
+  }
+
+  // Imports are read as the caller, so only admins (and pg_cron, with the
+  // service role key) see any
+  const caller = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  })
+  let query = caller.from('calendar_imports').select('id, url')
+  query = importId ? query.eq('id', importId) : query.not('url', 'is', null)
+
+  const { data: imports, error } = await query
+  if (error) {
+    console.error('Fetch calendar imports error:', error)
+    return json({ error: "Failed to load the calendar imports" }, 500)
+  }
+  if (importId && !imports.length) {
+    return json({ error: "Calendar import not found" }, 404)
+  }
+
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+  const timeZone = await studioTimeZone(supabase)
+
+  const results = []
+  for (const calendarImport of imports) {
+    results.push(await syncImport(supabase, calendarImport, ics, timeZone))
+  }
+
+  return json({ results })
+})
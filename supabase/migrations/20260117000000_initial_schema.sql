@@ -0,0 +1,52 @@
+-- Initial schema
+--
+-- The profiles and bookings tables were first created in the Supabase
+-- dashboard, so none of the later migrations created them and a fresh
+-- database couldn't be built from this folder. This migration recreates them
+-- as they were before the first versioned change, so `supabase db reset`
+-- builds the whole schema. It changes nothing on databases that already have
+-- the tables.
+
+-- One profile per auth user, inserted by the client on sign-up until
+-- handle_new_user took over
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  name text not null,
+  role text not null default 'user' check (role in ('admin', 'user')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Booking requests, approved or rejected by admins
+create table if not exists public.bookings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  user_name text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  reason text not null,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create index if not exists bookings_user_id_idx
+  on public.bookings (user_id);
+
+create index if not exists bookings_start_time_idx
+  on public.bookings (start_time);
+
+-- The app listens to booking changes
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'bookings'
+    ) then
+    alter publication supabase_realtime add table public.bookings;
+  end if;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Bookable resources
+--
+-- The studio used to be a single implicit room. Every booking now belongs to
+-- a resource (recording studio, practice room, podcast booth, equipment) so
+-- availability can be calculated per resource instead of per building.
+
+create table if not exists public.resources (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  kind text not null default 'room'
+    check (kind in ('studio', 'room', 'booth', 'equipment')),
+  description text,
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+insert into public.resources (name, kind, description, sort_order)
+values
+  ('Recording Studio', 'studio', 'Main recording room with control room', 1),
+  ('Practice Room A', 'room', 'Rehearsal space with backline', 2),
+  ('Practice Room B', 'room', 'Rehearsal space with backline', 3),
+  ('Podcast Booth', 'booth', 'Two-person booth with microphones', 4);
+
+alter table public.bookings
+  add column if not exists resource_id uuid references public.resources (id);
+
+-- Existing bookings were all made for the recording studio
+update public.bookings
+set resource_id = (select id from public.resources where kind = 'studio' order by sort_order limit 1)
+where resource_id is null;
+
+alter table public.bookings alter column resource_id set not null;
+
+create index if not exists bookings_resource_start_idx
+  on public.bookings (resource_id, start_time);
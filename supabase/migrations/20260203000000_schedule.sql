@@ -0,0 +1,51 @@
+-- Opening hours and slot granularity
+--
+-- Replaces the hardcoded 10:00-16:00 / 30 minute grid of the frontend with an
+-- admin editable schedule:
+-- - opening_hours: open/close time per weekday (0 = Sunday ... 6 = Saturday)
+-- - schedule_settings: slot length and min/max booking duration, either as
+--   the studio default (resource_id is null) or overridden per resource
+
+create table if not exists public.opening_hours (
+  weekday smallint primary key check (weekday between 0 and 6),
+  is_open boolean not null default true,
+  open_time time not null default '10:00',
+  close_time time not null default '16:00',
+  updated_at timestamptz not null default now(),
+  check (close_time > open_time)
+);
+
+-- Keep today's behaviour: open every day from 10:00 to 16:00
+insert into public.opening_hours (weekday, is_open, open_time, close_time)
+select weekday, true, '10:00', '16:00'
+from generate_series(0, 6) as weekday
+on conflict (weekday) do nothing;
+
+create table if not exists public.schedule_settings (
+  id uuid primary key default gen_random_uuid(),
+  resource_id uuid unique references public.resources (id) on delete cascade,
+  slot_minutes integer not null default 30
+    check (slot_minutes in (15, 30, 60)),
+  min_duration_minutes integer not null default 30
+    check (min_duration_minutes > 0),
+  max_duration_minutes integer not null default 360
+    check (max_duration_minutes > 0),
+  updated_at timestamptz not null default now(),
+  check (min_duration_minutes <= max_duration_minutes),
+  check (min_duration_minutes % slot_minutes = 0)
+);
+
+-- Only one studio wide default row
+create unique index if not exists schedule_settings_default_idx
+  on public.schedule_settings ((resource_id is null))
+  where resource_id is null;
+
+insert into public.schedule_settings (resource_id, slot_minutes, min_duration_minutes, max_duration_minutes)
+values (null, 30, 30, 360);
+
+-- The podcast booth is booked in 15 minute steps
+insert into public.schedule_settings (resource_id, slot_minutes, min_duration_minutes, max_duration_minutes)
+select id, 15, 15, 180
+from public.resources
+where kind = 'booth'
+on conflict (resource_id) do nothing;
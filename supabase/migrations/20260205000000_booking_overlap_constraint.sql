@@ -0,0 +1,59 @@
+-- Server-side conflict prevention
+--
+-- Pending and approved bookings of the same resource may not overlap. The
+-- exclusion constraint makes the database reject a double booking even when
+-- two users submit at the same time. Violations are reported with SQLSTATE
+-- 23P01 and a detail message containing the conflicting time range.
+
+create extension if not exists btree_gist;
+
+-- Resolve overlaps that slipped through before the constraint existed.
+-- Of two approved bookings the older one keeps its slot. The other is
+-- rejected and reported, so the studio can get in touch with its owner.
+do $$
+declare
+  v_booking record;
+begin
+  for v_booking in
+    update public.bookings as b
+    set status = 'rejected'
+    where b.status = 'approved'
+      and exists (
+        select 1
+        from public.bookings as o
+        where o.id <> b.id
+          and o.resource_id = b.resource_id
+          and o.status = 'approved'
+          and tstzrange(o.start_time, o.end_time, '[)') && tstzrange(b.start_time, b.end_time, '[)')
+          and (o.created_at, o.id) < (b.created_at, b.id)
+      )
+    returning b.id, b.user_name, b.start_time, b.end_time
+  loop
+    raise warning 'Rejected approved booking % of % (% - %), it overlapped an older approved booking',
+      v_booking.id, v_booking.user_name, v_booking.start_time, v_booking.end_time;
+  end loop;
+end;
+$$;
+
+-- Then the approved (or older pending) booking wins, later pending
+-- requests are rejected
+update public.bookings as b
+set status = 'rejected'
+where b.status = 'pending'
+  and exists (
+    select 1
+    from public.bookings as o
+    where o.id <> b.id
+      and o.resource_id = b.resource_id
+      and o.status in ('pending', 'approved')
+      and tstzrange(o.start_time, o.end_time, '[)') && tstzrange(b.start_time, b.end_time, '[)')
+      and (o.status = 'approved' or (o.created_at, o.id) < (b.created_at, b.id))
+  );
+
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    resource_id with =,
+    tstzrange(start_time, end_time, '[)') with &&
+  )
+  where (status in ('pending', 'approved'));
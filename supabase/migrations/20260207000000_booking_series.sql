@@ -0,0 +1,70 @@
+-- Recurring bookings
+--
+-- A booking_series stores the recurrence rule (RRULE-style frequency,
+-- interval and until/count) of a repeating request. The series is expanded
+-- into one bookings row per occurrence, each linked through series_id, so
+-- every occurrence is approved, checked for overlaps and cancelled on its own.
+
+create table if not exists public.booking_series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  user_name text not null,
+  resource_id uuid not null references public.resources (id),
+  reason text not null,
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  repeat_interval integer not null default 1 check (repeat_interval between 1 and 12),
+  until date,
+  count integer check (count between 1 and 52),
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  created_at timestamptz not null default now(),
+  check (until is not null or count is not null),
+  check (end_time > start_time)
+);
+
+alter table public.bookings
+  add column if not exists series_id uuid references public.booking_series (id) on delete set null;
+
+create index if not exists bookings_series_idx
+  on public.bookings (series_id, start_time);
+
+-- Edit several occurrences of a series in one statement
+--
+-- Shifts the start and end of the selected occurrences by the given number
+-- of minutes and optionally replaces the reason. Running as one UPDATE keeps
+-- it atomic: if any shifted occurrence overlaps another booking the
+-- exclusion constraint rejects the whole change.
+--
+-- p_scope: 'occurrence' | 'following' | 'series'
+create or replace function public.update_series_bookings(
+  p_booking_id uuid,
+  p_scope text,
+  p_start_shift_minutes integer default 0,
+  p_end_shift_minutes integer default 0,
+  p_reason text default null
+)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  v_booking public.bookings;
+begin
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'Booking not found';
+  end if;
+
+  return query
+  update public.bookings as b
+  set start_time = b.start_time + make_interval(mins => p_start_shift_minutes),
+      end_time = b.end_time + make_interval(mins => p_end_shift_minutes),
+      reason = coalesce(p_reason, b.reason)
+  where case
+    when p_scope = 'occurrence' or v_booking.series_id is null then b.id = v_booking.id
+    when p_scope = 'following' then b.series_id = v_booking.series_id and b.start_time >= v_booking.start_time
+    when p_scope = 'series' then b.series_id = v_booking.series_id
+    else false
+  end
+  returning b.*;
+end;
+$$;
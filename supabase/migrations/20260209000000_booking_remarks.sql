@@ -0,0 +1,8 @@
+-- Admin remarks on booking decisions
+--
+-- Admins give a reason when rejecting a request and may add notes when
+-- approving it. The remarks are stored with the booking, shown to its owner
+-- and included in the status email sent by notify-booking-status.
+
+alter table public.bookings
+  add column if not exists remarks text check (char_length(remarks) <= 500);
@@ -0,0 +1,107 @@
+-- Booking audit trail
+--
+-- Every change of a booking is appended to booking_events by a trigger, so
+-- the log also covers changes that don't go through the app (SQL editor,
+-- edge functions). Status changes become approved/rejected/cancelled
+-- events, other updates are logged as edits with a diff of the changed
+-- fields: {"start_time": {"old": ..., "new": ...}}.
+--
+-- booking_id deliberately has no foreign key: the log outlives bookings
+-- that are deleted, and keeps a snapshot of their owner and reason.
+
+create table if not exists public.booking_events (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null,
+  booking_user_id uuid,
+  booking_reason text,
+  event_type text not null
+    check (event_type in ('created', 'edited', 'approved', 'rejected', 'cancelled')),
+  actor_id uuid,
+  actor_name text,
+  changes jsonb,
+  remarks text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_events_booking_idx
+  on public.booking_events (booking_id, created_at);
+
+create index if not exists booking_events_created_idx
+  on public.booking_events (created_at desc);
+
+create index if not exists booking_events_actor_idx
+  on public.booking_events (actor_id, created_at desc);
+
+-- Append the event of an insert, update or delete of a booking
+create or replace function public.log_booking_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_event text;
+  v_changes jsonb := '{}'::jsonb;
+  v_field text;
+begin
+  -- No actor when changed by the service role or a scheduled job
+  select name into v_actor_name from public.profiles where id = v_actor;
+
+  if tg_op = 'INSERT' then
+    insert into public.booking_events
+      (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name)
+    values
+      (new.id, new.user_id, new.reason, 'created', v_actor, v_actor_name);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.booking_events
+      (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name)
+    values
+      (old.id, old.user_id, old.reason, 'cancelled', v_actor, v_actor_name);
+    return old;
+  end if;
+
+  foreach v_field in array array['resource_id', 'start_time', 'end_time', 'reason', 'status', 'remarks'] loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('old', to_jsonb(old) -> v_field, 'new', to_jsonb(new) -> v_field)
+      );
+    end if;
+  end loop;
+
+  -- Nothing we track has changed
+  if v_changes = '{}'::jsonb then
+    return new;
+  end if;
+
+  v_event := case
+    when new.status is distinct from old.status and new.status in ('approved', 'rejected')
+      then new.status
+    else 'edited'
+  end;
+
+  insert into public.booking_events
+    (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name, changes, remarks)
+  values
+    (new.id, new.user_id, new.reason, v_event, v_actor, v_actor_name, v_changes,
+     case when v_event <> 'edited' then new.remarks end);
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_log_event on public.bookings;
+create trigger bookings_log_event
+  after insert or update or delete on public.bookings
+  for each row execute function public.log_booking_event();
+
+-- Existing bookings start their history with the request itself; earlier
+-- decisions were never recorded
+insert into public.booking_events
+  (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name, created_at)
+select id, user_id, reason, 'created', user_id, user_name, created_at
+from public.bookings;
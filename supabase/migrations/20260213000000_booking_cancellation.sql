@@ -0,0 +1,154 @@
+-- Cancellation as a booking status
+--
+-- Cancelling used to delete the booking, so cancelled sessions vanished from
+-- the admin panel and its statistics. A cancelled booking now keeps its row
+-- with status 'cancelled' and records who cancelled it, when and why.
+-- The overlap constraint only covers pending and approved bookings, so a
+-- cancellation frees the slot right away.
+
+do $$
+declare
+  v_constraint record;
+begin
+  -- Replace the status check, whatever name it was created with
+  for v_constraint in
+    select conname
+    from pg_constraint
+    where conrelid = 'public.bookings'::regclass
+      and contype = 'c'
+      and pg_get_constraintdef(oid) like '%status%'
+  loop
+    execute format('alter table public.bookings drop constraint %I', v_constraint.conname);
+  end loop;
+end;
+$$;
+
+alter table public.bookings
+  add constraint bookings_status_check
+    check (status in ('pending', 'approved', 'rejected', 'cancelled'));
+
+alter table public.bookings
+  add column if not exists cancelled_by uuid references public.profiles (id) on delete set null,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancellation_reason text
+    check (char_length(cancellation_reason) <= 500);
+
+-- Stamp who cancelled and when on the server, the client only sends the status
+create or replace function public.set_booking_cancellation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    new.cancelled_by := coalesce(auth.uid(), new.cancelled_by);
+    new.cancelled_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_set_cancellation on public.bookings;
+create trigger bookings_set_cancellation
+  before update of status on public.bookings
+  for each row execute function public.set_booking_cancellation();
+
+-- Log cancellations as 'cancelled' events, with the reason as remarks
+create or replace function public.log_booking_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_event text;
+  v_changes jsonb := '{}'::jsonb;
+  v_field text;
+begin
+  -- No actor when changed by the service role or a scheduled job
+  select name into v_actor_name from public.profiles where id = v_actor;
+
+  if tg_op = 'INSERT' then
+    insert into public.booking_events
+      (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name)
+    values
+      (new.id, new.user_id, new.reason, 'created', v_actor, v_actor_name);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.booking_events
+      (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name)
+    values
+      (old.id, old.user_id, old.reason, 'cancelled', v_actor, v_actor_name);
+    return old;
+  end if;
+
+  foreach v_field in array array['resource_id', 'start_time', 'end_time', 'reason', 'status', 'remarks'] loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('old', to_jsonb(old) -> v_field, 'new', to_jsonb(new) -> v_field)
+      );
+    end if;
+  end loop;
+
+  -- Nothing we track has changed
+  if v_changes = '{}'::jsonb then
+    return new;
+  end if;
+
+  v_event := case
+    when new.status is distinct from old.status and new.status in ('approved', 'rejected', 'cancelled')
+      then new.status
+    else 'edited'
+  end;
+
+  insert into public.booking_events
+    (booking_id, booking_user_id, booking_reason, event_type, actor_id, actor_name, changes, remarks)
+  values
+    (new.id, new.user_id, new.reason, v_event, v_actor, v_actor_name, v_changes,
+     case v_event
+       when 'cancelled' then new.cancellation_reason
+       when 'edited' then null
+       else new.remarks
+     end);
+  return new;
+end;
+$$;
+
+-- Series edits only move the occurrences that are still active
+create or replace function public.update_series_bookings(
+  p_booking_id uuid,
+  p_scope text,
+  p_start_shift_minutes integer default 0,
+  p_end_shift_minutes integer default 0,
+  p_reason text default null
+)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  v_booking public.bookings;
+begin
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'Booking not found';
+  end if;
+
+  return query
+  update public.bookings as b
+  set start_time = b.start_time + make_interval(mins => p_start_shift_minutes),
+      end_time = b.end_time + make_interval(mins => p_end_shift_minutes),
+      reason = coalesce(p_reason, b.reason)
+  where case
+    when p_scope = 'occurrence' or v_booking.series_id is null then b.id = v_booking.id
+    when p_scope = 'following' then b.series_id = v_booking.series_id and b.start_time >= v_booking.start_time
+    when p_scope = 'series' then b.series_id = v_booking.series_id
+    else false
+  end
+  and (b.id = v_booking.id or b.status in ('pending', 'approved'))
+  returning b.*;
+end;
+$$;
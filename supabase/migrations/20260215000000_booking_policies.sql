@@ -0,0 +1,152 @@
+-- Cancellation and modification policy
+--
+-- booking_policies holds the studio wide rules (a single row) that the
+-- frontend shows to users and that the trigger below enforces for everyone
+-- except admins:
+-- - cancel_cutoff_hours: approved bookings can't be cancelled later than
+--   this many hours before they start (0 = any time)
+-- - edit_cutoff_hours: bookings can't be edited later than this many hours
+--   before they start (0 = any time)
+-- - max_reschedules: how often the time or room of a booking may be
+--   changed (null = unlimited), counted in bookings.reschedule_count
+-- - reapprove_after_edit: edits to approved bookings send them back to pending
+--
+-- reschedule_count, cancelled_by and cancelled_at are kept by the database:
+-- whatever members send for them is ignored, so the reschedule limit can't be
+-- reset and nobody can pose as the one who cancelled a booking. Only admins
+-- may change the policy, everyone may read it.
+--
+-- Violations raise SQLSTATE P0001 with hint 'booking_policy' and a message
+-- that is shown to the user as is.
+
+create table if not exists public.booking_policies (
+  id boolean primary key default true check (id),
+  cancel_cutoff_hours integer not null default 24 check (cancel_cutoff_hours >= 0),
+  edit_cutoff_hours integer not null default 24 check (edit_cutoff_hours >= 0),
+  max_reschedules integer default 2 check (max_reschedules >= 0),
+  reapprove_after_edit boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.booking_policies (id) values (true)
+on conflict (id) do nothing;
+
+alter table public.booking_policies enable row level security;
+
+alter table public.bookings
+  add column if not exists reschedule_count integer not null default 0;
+
+-- Whether the current user is an admin
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+-- Loaded before sign in, to show the rules on the booking form
+drop policy if exists "Everyone reads the booking policy" on public.booking_policies;
+create policy "Everyone reads the booking policy"
+  on public.booking_policies for select
+  using (true);
+
+drop policy if exists "Admins change the booking policy" on public.booking_policies;
+create policy "Admins change the booking policy"
+  on public.booking_policies for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke insert, update, delete on public.booking_policies from anon;
+
+create or replace function public.enforce_booking_policy()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_policy public.booking_policies;
+  v_rescheduled boolean;
+  v_edited boolean;
+begin
+  -- Admins and server side jobs are not bound by the policy
+  if auth.uid() is null or public.is_admin() then
+    return new;
+  end if;
+
+  -- Counted and stamped here and in set_booking_cancellation, never by members
+  if tg_op = 'INSERT' then
+    new.reschedule_count := 0;
+    new.cancelled_by := null;
+    new.cancelled_at := null;
+    return new;
+  end if;
+  new.reschedule_count := old.reschedule_count;
+  new.cancelled_by := old.cancelled_by;
+  new.cancelled_at := old.cancelled_at;
+
+  select * into v_policy from public.booking_policies where id;
+  if not found then
+    return new;
+  end if;
+
+  -- Cancellations
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    if old.status = 'approved'
+      and v_policy.cancel_cutoff_hours > 0
+      and old.start_time - make_interval(hours => v_policy.cancel_cutoff_hours) < now() then
+      raise exception 'Approved bookings cannot be cancelled less than % hours before they start. Please contact the studio.',
+        v_policy.cancel_cutoff_hours
+        using errcode = 'P0001', hint = 'booking_policy';
+    end if;
+    return new;
+  end if;
+
+  v_rescheduled := new.start_time is distinct from old.start_time
+    or new.end_time is distinct from old.end_time
+    or new.resource_id is distinct from old.resource_id;
+  v_edited := v_rescheduled or new.reason is distinct from old.reason;
+
+  if not v_edited then
+    return new;
+  end if;
+
+  if old.status not in ('pending', 'approved') then
+    raise exception 'Only pending and approved bookings can be changed.'
+      using errcode = 'P0001', hint = 'booking_policy';
+  end if;
+
+  if v_policy.edit_cutoff_hours > 0
+    and old.start_time - make_interval(hours => v_policy.edit_cutoff_hours) < now() then
+    raise exception 'Bookings cannot be changed less than % hours before they start.',
+      v_policy.edit_cutoff_hours
+      using errcode = 'P0001', hint = 'booking_policy';
+  end if;
+
+  if v_rescheduled then
+    if v_policy.max_reschedules is not null
+      and old.reschedule_count >= v_policy.max_reschedules then
+      raise exception 'This booking has already been rescheduled % times, the maximum allowed.',
+        old.reschedule_count
+        using errcode = 'P0001', hint = 'booking_policy';
+    end if;
+    new.reschedule_count := old.reschedule_count + 1;
+  end if;
+
+  if old.status = 'approved' and v_policy.reapprove_after_edit then
+    new.status := 'pending';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_enforce_policy on public.bookings;
+create trigger bookings_enforce_policy
+  before insert or update on public.bookings
+  for each row execute function public.enforce_booking_policy();
@@ -0,0 +1,264 @@
+-- Waitlist for fully booked time slots
+--
+-- Users can wait for a time range of a resource that is taken. When the
+-- holding booking is rejected, cancelled, shortened or moved, the first
+-- waiting user whose range is now free gets an offer: the range is held for
+-- them until offer_expires_at and they can claim it as a new booking.
+-- Offers that run out expire and the slot moves on to the next in line.
+--
+-- Members only add entries of their own and take them off the waitlist.
+-- Every other change of an entry (offering, claiming, expiring) is made by
+-- the security definer functions below, so nobody can offer a range to
+-- themselves and jump the queue.
+--
+-- Offer emails are sent by the notify-waitlist-offer edge function, hooked
+-- up as a database webhook on updates of waitlist_entries (the same way
+-- notify-booking-status is hooked up to bookings).
+
+create table if not exists public.waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  user_name text not null,
+  resource_id uuid not null references public.resources (id) on delete cascade,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  reason text not null,
+  status text not null default 'waiting'
+    check (status in ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  booking_id uuid references public.bookings (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create index if not exists waitlist_entries_queue_idx
+  on public.waitlist_entries (resource_id, status, created_at);
+
+create index if not exists waitlist_entries_user_idx
+  on public.waitlist_entries (user_id, created_at desc);
+
+alter table public.waitlist_entries enable row level security;
+
+drop policy if exists "Users read their own waitlist entries" on public.waitlist_entries;
+create policy "Users read their own waitlist entries"
+  on public.waitlist_entries for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users join the waitlist" on public.waitlist_entries;
+create policy "Users join the waitlist"
+  on public.waitlist_entries for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and status = 'waiting'
+    and offered_at is null
+    and offer_expires_at is null
+    and booking_id is null
+  );
+
+-- Admins clear entries from the admin waitlist the same way
+drop policy if exists "Users leave the waitlist" on public.waitlist_entries;
+create policy "Users leave the waitlist"
+  on public.waitlist_entries for update
+  to authenticated
+  using ((user_id = auth.uid() or public.is_admin()) and status in ('waiting', 'offered'))
+  with check (status = 'cancelled');
+
+revoke all on public.waitlist_entries from anon;
+revoke update, delete on public.waitlist_entries from authenticated;
+grant update (status) on public.waitlist_entries to authenticated;
+
+-- Offer freed time ranges of a resource to the waitlist, first come first served
+create or replace function public.process_waitlist(p_resource_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.waitlist_entries;
+begin
+  for v_entry in
+    select * from public.waitlist_entries
+    where resource_id = p_resource_id
+      and status = 'waiting'
+      and start_time > now()
+    order by created_at
+    for update skip locked
+  loop
+    -- Still taken by a booking or held for someone else
+    continue when exists (
+      select 1 from public.bookings
+      where resource_id = v_entry.resource_id
+        and status in ('pending', 'approved')
+        and tstzrange(start_time, end_time) && tstzrange(v_entry.start_time, v_entry.end_time)
+    ) or exists (
+      select 1 from public.waitlist_entries
+      where resource_id = v_entry.resource_id
+        and status = 'offered'
+        and tstzrange(start_time, end_time) && tstzrange(v_entry.start_time, v_entry.end_time)
+    );
+
+    update public.waitlist_entries
+    set status = 'offered',
+        offered_at = now(),
+        offer_expires_at = least(now() + interval '2 hours', v_entry.start_time)
+    where id = v_entry.id;
+  end loop;
+end;
+$$;
+
+-- Only called by the triggers below, never by clients
+revoke execute on function public.process_waitlist(uuid) from public, anon, authenticated;
+
+-- Bookings that stop holding a time range free it for the waitlist
+create or replace function public.waitlist_on_booking_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.process_waitlist(old.resource_id);
+    return old;
+  end if;
+
+  if (old.status in ('pending', 'approved') and new.status not in ('pending', 'approved'))
+    or new.start_time is distinct from old.start_time
+    or new.end_time is distinct from old.end_time
+    or new.resource_id is distinct from old.resource_id then
+    perform public.process_waitlist(old.resource_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_process_waitlist on public.bookings;
+create trigger bookings_process_waitlist
+  after update or delete on public.bookings
+  for each row execute function public.waitlist_on_booking_change();
+
+-- Offers that are declined or run out move on to the next in line
+create or replace function public.waitlist_on_offer_release()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'offered' and new.status in ('cancelled', 'expired') then
+    perform public.process_waitlist(new.resource_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists waitlist_entries_release_offer on public.waitlist_entries;
+create trigger waitlist_entries_release_offer
+  after update of status on public.waitlist_entries
+  for each row execute function public.waitlist_on_offer_release();
+
+-- A range on offer is held for the waitlisted user: reject other bookings
+-- with the same error and detail format as the overlap constraint, so the
+-- app reports the held range like any other conflict
+create or replace function public.hold_waitlist_offers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer public.waitlist_entries;
+begin
+  if new.status not in ('pending', 'approved') then
+    return new;
+  end if;
+
+  select * into v_offer from public.waitlist_entries
+  where resource_id = new.resource_id
+    and status = 'offered'
+    and offer_expires_at > now()
+    and user_id <> new.user_id
+    and tstzrange(start_time, end_time) && tstzrange(new.start_time, new.end_time)
+  limit 1;
+
+  if found then
+    raise exception 'Time range is held for a waitlisted user'
+      using errcode = '23P01',
+        detail = format(
+          'Key (resource_id, tstzrange(start_time, end_time))=(%s, ["%s","%s")) conflicts with existing key (resource_id, tstzrange(start_time, end_time))=(%s, ["%s","%s")).',
+          new.resource_id, new.start_time, new.end_time,
+          v_offer.resource_id, v_offer.start_time, v_offer.end_time
+        );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_hold_waitlist_offers on public.bookings;
+create trigger bookings_hold_waitlist_offers
+  before insert or update of start_time, end_time, resource_id, status on public.bookings
+  for each row execute function public.hold_waitlist_offers();
+
+-- Claim an offer: book the held range for its waitlisted user
+create or replace function public.claim_waitlist_offer(p_entry_id uuid)
+returns public.bookings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.waitlist_entries;
+  v_booking public.bookings;
+begin
+  select * into v_entry from public.waitlist_entries
+  where id = p_entry_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Waitlist entry not found';
+  end if;
+
+  if v_entry.status <> 'offered' or v_entry.offer_expires_at <= now() then
+    raise exception 'This offer is no longer available'
+      using errcode = 'P0001', hint = 'waitlist_offer';
+  end if;
+
+  insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, reason)
+  values (v_entry.user_id, v_entry.user_name, v_entry.resource_id, v_entry.start_time, v_entry.end_time, v_entry.reason)
+  returning * into v_booking;
+
+  update public.waitlist_entries
+  set status = 'claimed', booking_id = v_booking.id
+  where id = v_entry.id;
+
+  return v_booking;
+end;
+$$;
+
+-- Expire offers that weren't claimed in time, and entries whose range has
+-- passed. The release trigger offers expired ranges to the next in line.
+create or replace function public.expire_waitlist_offers()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.waitlist_entries
+  set status = 'expired'
+  where (status = 'offered' and offer_expires_at <= now())
+     or (status = 'waiting' and start_time <= now());
+$$;
+
+revoke execute on function public.expire_waitlist_offers() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'expire-waitlist-offers',
+  '*/5 * * * *',
+  $$select public.expire_waitlist_offers()$$
+);
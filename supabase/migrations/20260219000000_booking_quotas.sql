@@ -0,0 +1,274 @@
+-- Booking quotas and fair-use limits
+--
+-- booking_quotas holds the limits of a role or of a member group
+-- (profiles.member_group), quota_overrides the limits of single users.
+-- A user's quota is their override if they have one, else the quota of their
+-- group, else the quota of their role. Every limit is optional (null =
+-- unlimited):
+-- - max_hours_per_week / max_hours_per_month: booked hours in the calendar
+--   week / month a booking starts in
+-- - max_future_bookings: pending and approved bookings that haven't ended
+-- - max_pending_requests: bookings waiting for approval
+--
+-- Quotas count pending and approved bookings and are enforced by the trigger
+-- below for everyone except admins. Violations raise SQLSTATE P0001 with
+-- hint 'booking_quota' and a message that is shown to the user as is.
+--
+-- Only admins read and change the quotas. Members see their own through
+-- get_my_quota, the helpers below are only called by the database itself.
+
+alter table public.profiles
+  add column if not exists member_group text;
+
+create table if not exists public.booking_quotas (
+  id uuid primary key default gen_random_uuid(),
+  role text check (role in ('admin', 'user')),
+  member_group text,
+  max_hours_per_week numeric(6, 2) check (max_hours_per_week > 0),
+  max_hours_per_month numeric(6, 2) check (max_hours_per_month > 0),
+  max_future_bookings integer check (max_future_bookings >= 0),
+  max_pending_requests integer check (max_pending_requests >= 0),
+  updated_at timestamptz not null default now(),
+  -- A quota applies to either a role or a group
+  check ((role is null) <> (member_group is null))
+);
+
+create unique index if not exists booking_quotas_role_key
+  on public.booking_quotas (role) where role is not null;
+
+create unique index if not exists booking_quotas_member_group_key
+  on public.booking_quotas (member_group) where member_group is not null;
+
+create table if not exists public.quota_overrides (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  max_hours_per_week numeric(6, 2) check (max_hours_per_week > 0),
+  max_hours_per_month numeric(6, 2) check (max_hours_per_month > 0),
+  max_future_bookings integer check (max_future_bookings >= 0),
+  max_pending_requests integer check (max_pending_requests >= 0),
+  note text check (char_length(note) <= 500),
+  updated_at timestamptz not null default now()
+);
+
+-- Default fair-use limits of regular users
+insert into public.booking_quotas (role, max_hours_per_week, max_hours_per_month, max_future_bookings, max_pending_requests)
+select 'user', 10, 30, 6, 3
+where not exists (select 1 from public.booking_quotas where role = 'user');
+
+alter table public.booking_quotas enable row level security;
+alter table public.quota_overrides enable row level security;
+
+drop policy if exists "Admins manage booking quotas" on public.booking_quotas;
+create policy "Admins manage booking quotas"
+  on public.booking_quotas for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Admins manage quota overrides" on public.quota_overrides;
+create policy "Admins manage quota overrides"
+  on public.quota_overrides for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke all on public.booking_quotas from anon;
+revoke all on public.quota_overrides from anon;
+
+-- The quota of a user and where it comes from ('override', 'group' or 'role')
+create or replace function public.booking_quota_for(p_user_id uuid)
+returns table (
+  source text,
+  max_hours_per_week numeric,
+  max_hours_per_month numeric,
+  max_future_bookings integer,
+  max_pending_requests integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- The most specific quota wins
+  select source, max_hours_per_week, max_hours_per_month,
+    max_future_bookings, max_pending_requests
+  from (
+    select 1 as priority, 'override' as source, o.max_hours_per_week, o.max_hours_per_month,
+      o.max_future_bookings, o.max_pending_requests
+    from public.quota_overrides o
+    where o.user_id = p_user_id
+    union all
+    select 2 as priority, 'group' as source, q.max_hours_per_week, q.max_hours_per_month,
+      q.max_future_bookings, q.max_pending_requests
+    from public.booking_quotas q
+    join public.profiles p on p.member_group = q.member_group
+    where p.id = p_user_id
+    union all
+    select 3 as priority, 'role' as source, q.max_hours_per_week, q.max_hours_per_month,
+      q.max_future_bookings, q.max_pending_requests
+    from public.booking_quotas q
+    join public.profiles p on p.role = q.role
+    where p.id = p_user_id
+  ) quota
+  order by priority
+  limit 1;
+$$;
+
+-- Hours a user has booked from p_from until p_to, leaving out one booking
+create or replace function public.booked_hours(
+  p_user_id uuid,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_exclude_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(extract(epoch from end_time - start_time)) / 3600, 0)
+  from public.bookings
+  where user_id = p_user_id
+    and status in ('pending', 'approved')
+    and start_time >= p_from
+    and start_time < p_to
+    and id is distinct from p_exclude_id;
+$$;
+
+-- They take any user, so clients can't call them
+revoke execute on function public.booking_quota_for(uuid) from public, anon, authenticated;
+revoke execute on function public.booked_hours(uuid, timestamptz, timestamptz, uuid) from public, anon, authenticated;
+
+create or replace function public.enforce_booking_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quota record;
+  v_activated boolean;
+  v_rescheduled boolean;
+  v_hours numeric;
+  v_week timestamptz;
+  v_month timestamptz;
+  v_count integer;
+begin
+  -- Admins and server side jobs are not bound by quotas
+  if auth.uid() is null or public.is_admin() then
+    return new;
+  end if;
+
+  if new.status not in ('pending', 'approved') then
+    return new;
+  end if;
+
+  v_activated := tg_op = 'INSERT' or old.status not in ('pending', 'approved');
+  v_rescheduled := v_activated
+    or new.start_time is distinct from old.start_time
+    or new.end_time is distinct from old.end_time;
+
+  select * into v_quota from public.booking_quota_for(new.user_id);
+  if not found then
+    return new;
+  end if;
+
+  if v_rescheduled then
+    v_hours := extract(epoch from new.end_time - new.start_time) / 3600;
+
+    if v_quota.max_hours_per_week is not null then
+      v_week := date_trunc('week', new.start_time);
+      if public.booked_hours(new.user_id, v_week, v_week + interval '1 week', new.id) + v_hours
+        > v_quota.max_hours_per_week then
+        raise exception 'This booking would take you over your limit of % hours per week.',
+          trim_scale(v_quota.max_hours_per_week)
+          using errcode = 'P0001', hint = 'booking_quota';
+      end if;
+    end if;
+
+    if v_quota.max_hours_per_month is not null then
+      v_month := date_trunc('month', new.start_time);
+      if public.booked_hours(new.user_id, v_month, v_month + interval '1 month', new.id) + v_hours
+        > v_quota.max_hours_per_month then
+        raise exception 'This booking would take you over your limit of % hours per month.',
+          trim_scale(v_quota.max_hours_per_month)
+          using errcode = 'P0001', hint = 'booking_quota';
+      end if;
+    end if;
+  end if;
+
+  if v_activated and v_quota.max_future_bookings is not null and new.end_time > now() then
+    select count(*) into v_count from public.bookings
+    where user_id = new.user_id
+      and status in ('pending', 'approved')
+      and end_time > now()
+      and id is distinct from new.id;
+
+    if v_count >= v_quota.max_future_bookings then
+      raise exception 'You can have at most % upcoming bookings at a time.',
+        v_quota.max_future_bookings
+        using errcode = 'P0001', hint = 'booking_quota';
+    end if;
+  end if;
+
+  if new.status = 'pending'
+    and (tg_op = 'INSERT' or old.status <> 'pending')
+    and v_quota.max_pending_requests is not null then
+    select count(*) into v_count from public.bookings
+    where user_id = new.user_id
+      and status = 'pending'
+      and id is distinct from new.id;
+
+    if v_count >= v_quota.max_pending_requests then
+      raise exception 'You can have at most % requests waiting for approval. Please wait until they are reviewed.',
+        v_quota.max_pending_requests
+        using errcode = 'P0001', hint = 'booking_quota';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Runs after bookings_enforce_policy, which may send edited bookings back to pending
+drop trigger if exists bookings_enforce_quota on public.bookings;
+create trigger bookings_enforce_quota
+  before insert or update on public.bookings
+  for each row execute function public.enforce_booking_quota();
+
+-- The current user's quota and how much of it is used this week and month
+create or replace function public.get_my_quota()
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_quota record;
+  v_week timestamptz := date_trunc('week', now());
+  v_month timestamptz := date_trunc('month', now());
+begin
+  select * into v_quota from public.booking_quota_for(auth.uid());
+
+  return json_build_object(
+    'source', v_quota.source,
+    'max_hours_per_week', v_quota.max_hours_per_week,
+    'max_hours_per_month', v_quota.max_hours_per_month,
+    'max_future_bookings', v_quota.max_future_bookings,
+    'max_pending_requests', v_quota.max_pending_requests,
+    'hours_this_week', public.booked_hours(auth.uid(), v_week, v_week + interval '1 week'),
+    'hours_this_month', public.booked_hours(auth.uid(), v_month, v_month + interval '1 month'),
+    'future_bookings', (
+      select count(*) from public.bookings
+      where user_id = auth.uid()
+        and status in ('pending', 'approved')
+        and end_time > now()
+    ),
+    'pending_requests', (
+      select count(*) from public.bookings
+      where user_id = auth.uid() and status = 'pending'
+    )
+  );
+end;
+$$;
@@ -0,0 +1,220 @@
+-- Studio timezone
+--
+-- Opening hours, slot grids, calendar days and quota periods are wall clock
+-- times of the studio. studio_settings (a single row) holds the studio's
+-- timezone, so they no longer depend on the timezone of the database session
+-- or of the viewer's browser. Timestamps are still stored in UTC.
+
+-- Whether Postgres knows a timezone name, e.g. 'Europe/Berlin'
+create or replace function public.is_valid_timezone(p_timezone text)
+returns boolean
+language plpgsql
+stable
+as $$
+begin
+  perform now() at time zone p_timezone;
+  return true;
+exception when others then
+  return false;
+end;
+$$;
+
+create table if not exists public.studio_settings (
+  id boolean primary key default true check (id),
+  timezone text not null default 'UTC' check (public.is_valid_timezone(timezone)),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.studio_settings (id) values (true)
+on conflict (id) do nothing;
+
+-- The studio's timezone
+create or replace function public.studio_timezone()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select timezone from public.studio_settings where id), 'UTC');
+$$;
+
+-- The studio's calendar week or month (p_unit) an instant falls in
+create or replace function public.studio_period(p_unit text, p_at timestamptz)
+returns tstzrange
+language sql
+stable
+set search_path = public
+as $$
+  select tstzrange(
+    date_trunc(p_unit, p_at at time zone tz) at time zone tz,
+    (date_trunc(p_unit, p_at at time zone tz) + ('1 ' || p_unit)::interval) at time zone tz
+  )
+  from public.studio_timezone() as tz;
+$$;
+
+-- Quota weeks and months follow the studio's calendar
+create or replace function public.enforce_booking_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quota record;
+  v_activated boolean;
+  v_rescheduled boolean;
+  v_hours numeric;
+  v_week tstzrange;
+  v_month tstzrange;
+  v_count integer;
+begin
+  -- Admins and server side jobs are not bound by quotas
+  if auth.uid() is null or public.is_admin() then
+    return new;
+  end if;
+
+  if new.status not in ('pending', 'approved') then
+    return new;
+  end if;
+
+  v_activated := tg_op = 'INSERT' or old.status not in ('pending', 'approved');
+  v_rescheduled := v_activated
+    or new.start_time is distinct from old.start_time
+    or new.end_time is distinct from old.end_time;
+
+  select * into v_quota from public.booking_quota_for(new.user_id);
+  if not found then
+    return new;
+  end if;
+
+  if v_rescheduled then
+    v_hours := extract(epoch from new.end_time - new.start_time) / 3600;
+
+    if v_quota.max_hours_per_week is not null then
+      v_week := public.studio_period('week', new.start_time);
+      if public.booked_hours(new.user_id, lower(v_week), upper(v_week), new.id) + v_hours
+        > v_quota.max_hours_per_week then
+        raise exception 'This booking would take you over your limit of % hours per week.',
+          trim_scale(v_quota.max_hours_per_week)
+          using errcode = 'P0001', hint = 'booking_quota';
+      end if;
+    end if;
+
+    if v_quota.max_hours_per_month is not null then
+      v_month := public.studio_period('month', new.start_time);
+      if public.booked_hours(new.user_id, lower(v_month), upper(v_month), new.id) + v_hours
+        > v_quota.max_hours_per_month then
+        raise exception 'This booking would take you over your limit of % hours per month.',
+          trim_scale(v_quota.max_hours_per_month)
+          using errcode = 'P0001', hint = 'booking_quota';
+      end if;
+    end if;
+  end if;
+
+  if v_activated and v_quota.max_future_bookings is not null and new.end_time > now() then
+    select count(*) into v_count from public.bookings
+    where user_id = new.user_id
+      and status in ('pending', 'approved')
+      and end_time > now()
+      and id is distinct from new.id;
+
+    if v_count >= v_quota.max_future_bookings then
+      raise exception 'You can have at most % upcoming bookings at a time.',
+        v_quota.max_future_bookings
+        using errcode = 'P0001', hint = 'booking_quota';
+    end if;
+  end if;
+
+  if new.status = 'pending'
+    and (tg_op = 'INSERT' or old.status <> 'pending')
+    and v_quota.max_pending_requests is not null then
+    select count(*) into v_count from public.bookings
+    where user_id = new.user_id
+      and status = 'pending'
+      and id is distinct from new.id;
+
+    if v_count >= v_quota.max_pending_requests then
+      raise exception 'You can have at most % requests waiting for approval. Please wait until they are reviewed.',
+        v_quota.max_pending_requests
+        using errcode = 'P0001', hint = 'booking_quota';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Series edits move the occurrences by the same wall clock offset, so an
+-- occurrence on the other side of a daylight saving change keeps its time
+-- of day, like the occurrences expandRecurrence creates
+create or replace function public.update_series_bookings(
+  p_booking_id uuid,
+  p_scope text,
+  p_start_shift_minutes integer default 0,
+  p_end_shift_minutes integer default 0,
+  p_reason text default null
+)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  v_booking public.bookings;
+  v_timezone text := public.studio_timezone();
+begin
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'Booking not found';
+  end if;
+
+  return query
+  update public.bookings as b
+  set start_time = ((b.start_time at time zone v_timezone) + make_interval(mins => p_start_shift_minutes)) at time zone v_timezone,
+      end_time = ((b.end_time at time zone v_timezone) + make_interval(mins => p_end_shift_minutes)) at time zone v_timezone,
+      reason = coalesce(p_reason, b.reason)
+  where case
+    when p_scope = 'occurrence' or v_booking.series_id is null then b.id = v_booking.id
+    when p_scope = 'following' then b.series_id = v_booking.series_id and b.start_time >= v_booking.start_time
+    when p_scope = 'series' then b.series_id = v_booking.series_id
+    else false
+  end
+  and (b.id = v_booking.id or b.status in ('pending', 'approved'))
+  returning b.*;
+end;
+$$;
+
+create or replace function public.get_my_quota()
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_quota record;
+  v_week tstzrange := public.studio_period('week', now());
+  v_month tstzrange := public.studio_period('month', now());
+begin
+  select * into v_quota from public.booking_quota_for(auth.uid());
+
+  return json_build_object(
+    'source', v_quota.source,
+    'max_hours_per_week', v_quota.max_hours_per_week,
+    'max_hours_per_month', v_quota.max_hours_per_month,
+    'max_future_bookings', v_quota.max_future_bookings,
+    'max_pending_requests', v_quota.max_pending_requests,
+    'hours_this_week', public.booked_hours(auth.uid(), lower(v_week), upper(v_week)),
+    'hours_this_month', public.booked_hours(auth.uid(), lower(v_month), upper(v_month)),
+    'future_bookings', (
+      select count(*) from public.bookings
+      where user_id = auth.uid()
+        and status in ('pending', 'approved')
+        and end_time > now()
+    ),
+    'pending_requests', (
+      select count(*) from public.bookings
+      where user_id = auth.uid() and status = 'pending'
+    )
+  );
+end;
+$$;
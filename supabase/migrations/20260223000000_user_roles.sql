@@ -0,0 +1,230 @@
+-- Roles in user_roles and member management
+--
+-- Roles used to live in profiles.role, which registration filled in from
+-- whatever the sign-up form sent, so anyone could register as an admin.
+-- Roles now live in user_roles, one row per user. New users get the 'user'
+-- role from the handle_new_user trigger, and only admins can change roles
+-- through set_member_role. Users read their own role, admins all of them.
+--
+-- Admins can also suspend members with set_member_suspended. Suspended
+-- members can't sign in to the app, make bookings or join the waitlist, and
+-- a suspended admin loses their admin rights. Both are checked by the
+-- database, not only by the app. Their existing bookings are left to the
+-- admins. Blocked bookings raise SQLSTATE P0001 with hint 'member_suspended'.
+
+create table if not exists public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references public.profiles (id) on delete cascade,
+  role text not null default 'user' check (role in ('admin', 'user'))
+);
+
+alter table public.profiles
+  add column if not exists suspended_at timestamptz;
+
+-- Carry over the roles of existing users
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'profiles' and column_name = 'role'
+  ) then
+    insert into public.user_roles (user_id, role)
+    select id, case when role = 'admin' then 'admin' else 'user' end
+    from public.profiles
+    on conflict (user_id) do nothing;
+  end if;
+end;
+$$;
+
+insert into public.user_roles (user_id)
+select id from public.profiles
+on conflict (user_id) do nothing;
+
+-- Whether the current user is an admin who isn't suspended
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles r
+    join public.profiles p on p.id = r.user_id
+    where r.user_id = auth.uid() and r.role = 'admin' and p.suspended_at is null
+  );
+$$;
+
+alter table public.user_roles enable row level security;
+
+drop policy if exists "Users read their own role" on public.user_roles;
+create policy "Users read their own role"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Admins manage roles" on public.user_roles;
+create policy "Admins manage roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke all on public.user_roles from anon;
+
+-- The quota of a user and where it comes from ('override', 'group' or 'role')
+create or replace function public.booking_quota_for(p_user_id uuid)
+returns table (
+  source text,
+  max_hours_per_week numeric,
+  max_hours_per_month numeric,
+  max_future_bookings integer,
+  max_pending_requests integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- The most specific quota wins
+  select source, max_hours_per_week, max_hours_per_month,
+    max_future_bookings, max_pending_requests
+  from (
+    select 1 as priority, 'override' as source, o.max_hours_per_week, o.max_hours_per_month,
+      o.max_future_bookings, o.max_pending_requests
+    from public.quota_overrides o
+    where o.user_id = p_user_id
+    union all
+    select 2 as priority, 'group' as source, q.max_hours_per_week, q.max_hours_per_month,
+      q.max_future_bookings, q.max_pending_requests
+    from public.booking_quotas q
+    join public.profiles p on p.member_group = q.member_group
+    where p.id = p_user_id
+    union all
+    select 3 as priority, 'role' as source, q.max_hours_per_week, q.max_hours_per_month,
+      q.max_future_bookings, q.max_pending_requests
+    from public.booking_quotas q
+    join public.user_roles r on r.role = q.role
+    where r.user_id = p_user_id
+  ) quota
+  order by priority
+  limit 1;
+$$;
+
+alter table public.profiles
+  drop column if exists role;
+
+-- Profile and role of new users, whatever the sign-up form sent
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, name)
+  values (
+    new.id,
+    new.email,
+    coalesce(nullif(trim(new.raw_user_meta_data ->> 'name'), ''), split_part(new.email, '@', 1))
+  )
+  on conflict (id) do nothing;
+
+  insert into public.user_roles (user_id, role)
+  values (new.id, 'user')
+  on conflict (user_id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Promote a member to admin or demote them, admins only
+create or replace function public.set_member_role(p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+
+  if p_role not in ('admin', 'user') then
+    raise exception 'Unknown role %', p_role using errcode = '22023';
+  end if;
+
+  if p_role = 'user' and p_user_id = auth.uid() then
+    raise exception 'You can''t remove your own admin role.'
+      using errcode = 'P0001', hint = 'member_admin';
+  end if;
+
+  insert into public.user_roles (user_id, role)
+  values (p_user_id, p_role)
+  on conflict (user_id) do update set role = excluded.role;
+end;
+$$;
+
+-- Suspend a member or lift their suspension, admins only
+create or replace function public.set_member_suspended(p_user_id uuid, p_suspended boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can suspend members' using errcode = '42501';
+  end if;
+
+  if p_user_id = auth.uid() then
+    raise exception 'You can''t suspend yourself.'
+      using errcode = 'P0001', hint = 'member_admin';
+  end if;
+
+  update public.profiles
+  set suspended_at = case when p_suspended then coalesce(suspended_at, now()) end
+  where id = p_user_id;
+end;
+$$;
+
+-- Suspended members can't book or queue up for slots
+create or replace function public.enforce_member_active()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Server side jobs may still book for suspended members
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  -- Suspended users can't book, whatever the app lets through. Admins may
+  -- still book for suspended members.
+  if exists (
+    select 1 from public.profiles
+    where suspended_at is not null
+      and (id = auth.uid() or (id = new.user_id and not public.is_admin()))
+  ) then
+    raise exception 'Your account has been suspended. Please contact the studio.'
+      using errcode = 'P0001', hint = 'member_suspended';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_enforce_member_active on public.bookings;
+create trigger bookings_enforce_member_active
+  before insert on public.bookings
+  for each row execute function public.enforce_member_active();
+
+drop trigger if exists waitlist_entries_enforce_member_active on public.waitlist_entries;
+create trigger waitlist_entries_enforce_member_active
+  before insert on public.waitlist_entries
+  for each row execute function public.enforce_member_active();
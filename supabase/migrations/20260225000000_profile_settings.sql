@@ -0,0 +1,162 @@
+-- Profile settings
+--
+-- Members can now edit their profile: name, phone, avatar and which emails
+-- they get. Bookings, series and waitlist entries keep a copy of their
+-- owner's name (user_name) so lists don't need a join, the copies follow
+-- renames through the trigger below and new rows always take the name from
+-- the profile, whatever the client sent.
+--
+-- Email changes are confirmed through Supabase Auth, profiles.email follows
+-- once the new address is confirmed. Members can delete their account with
+-- delete_my_account, which cancels their upcoming bookings first.
+--
+-- Avatars are stored in the public 'avatars' bucket, in a folder per user.
+
+alter table public.profiles
+  add column if not exists phone text check (char_length(phone) <= 32),
+  add column if not exists avatar_url text,
+  add column if not exists notification_preferences jsonb not null
+    default '{"booking_updates": true, "waitlist_offers": true}'::jsonb;
+
+-- Keep the copies of a member's name up to date
+create or replace function public.propagate_profile_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.bookings set user_name = new.name
+  where user_id = new.id and user_name is distinct from new.name;
+
+  update public.booking_series set user_name = new.name
+  where user_id = new.id and user_name is distinct from new.name;
+
+  update public.waitlist_entries set user_name = new.name
+  where user_id = new.id and user_name is distinct from new.name;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_propagate_name on public.profiles;
+create trigger profiles_propagate_name
+  after update of name on public.profiles
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.propagate_profile_name();
+
+-- New rows carry the owner's current name
+create or replace function public.set_owner_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select name into new.user_name from public.profiles where id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_set_owner_name on public.bookings;
+create trigger bookings_set_owner_name
+  before insert on public.bookings
+  for each row execute function public.set_owner_name();
+
+drop trigger if exists booking_series_set_owner_name on public.booking_series;
+create trigger booking_series_set_owner_name
+  before insert on public.booking_series
+  for each row execute function public.set_owner_name();
+
+drop trigger if exists waitlist_entries_set_owner_name on public.waitlist_entries;
+create trigger waitlist_entries_set_owner_name
+  before insert on public.waitlist_entries
+  for each row execute function public.set_owner_name();
+
+-- Follow confirmed email changes
+create or replace function public.handle_user_email_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles set email = new.email, updated_at = now()
+  where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_email_changed on auth.users;
+create trigger on_auth_user_email_changed
+  after update of email on auth.users
+  for each row
+  when (old.email is distinct from new.email)
+  execute function public.handle_user_email_change();
+
+-- Delete the current user's account
+create or replace function public.delete_my_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if public.is_admin() and not exists (
+    select 1 from public.user_roles
+    where role = 'admin' and user_id <> v_user_id
+  ) then
+    raise exception 'You are the only admin. Make someone else an admin before deleting your account.'
+      using errcode = 'P0001', hint = 'account_deletion';
+  end if;
+
+  -- Free the slots of upcoming sessions for others
+  update public.bookings
+  set status = 'cancelled',
+    cancelled_by = v_user_id,
+    cancellation_reason = 'Account deleted'
+  where user_id = v_user_id
+    and status in ('pending', 'approved')
+    and end_time > now();
+
+  delete from storage.objects
+  where bucket_id = 'avatars' and (storage.foldername(name))[1] = v_user_id::text;
+
+  -- The profile and everything that belongs to it go with the auth user
+  delete from auth.users where id = v_user_id;
+end;
+$$;
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Avatars are public" on storage.objects;
+create policy "Avatars are public"
+  on storage.objects for select
+  using (bucket_id = 'avatars');
+
+drop policy if exists "Users upload their own avatar" on storage.objects;
+create policy "Users upload their own avatar"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users replace their own avatar" on storage.objects;
+create policy "Users replace their own avatar"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete their own avatar" on storage.objects;
+create policy "Users delete their own avatar"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
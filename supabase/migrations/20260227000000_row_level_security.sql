@@ -0,0 +1,266 @@
+-- Row level security
+--
+-- Until now every signed in client could read every booking, including the
+-- reasons and remarks of other members, and the app merely hid them. The
+-- bookings and profiles tables now only return the rows a user may see:
+-- their own, or everything for admins. user_roles is already protected the
+-- same way since it was created.
+--
+-- The same goes for the audit log and the booking series, which carry the
+-- reasons and remarks too. The studio configuration (resources, opening
+-- hours, schedule and studio settings) stays readable by everyone, also
+-- before sign in, but only admins change it.
+--
+-- Members still need to know when others booked a resource, so the
+-- booking_availability view lists the active bookings of everyone without
+-- saying who booked them or why.
+--
+-- RLS can't compare the old and new row of an update, so the columns only
+-- admins may change (a booking's status, remarks, owner and series, a
+-- profile's group and suspension) are guarded by triggers, which raise
+-- SQLSTATE 42501.
+
+alter table public.bookings enable row level security;
+alter table public.profiles enable row level security;
+alter table public.booking_events enable row level security;
+alter table public.booking_series enable row level security;
+alter table public.resources enable row level security;
+alter table public.opening_hours enable row level security;
+alter table public.schedule_settings enable row level security;
+alter table public.studio_settings enable row level security;
+
+-- Bookings: members see and change their own, admins all of them
+drop policy if exists "Users read their own bookings" on public.bookings;
+create policy "Users read their own bookings"
+  on public.bookings for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users request bookings for themselves" on public.bookings;
+create policy "Users request bookings for themselves"
+  on public.bookings for insert
+  to authenticated
+  with check ((user_id = auth.uid() and status = 'pending') or public.is_admin());
+
+drop policy if exists "Users change their own bookings" on public.bookings;
+create policy "Users change their own bookings"
+  on public.bookings for update
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin())
+  with check (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Admins delete bookings" on public.bookings;
+create policy "Admins delete bookings"
+  on public.bookings for delete
+  to authenticated
+  using (public.is_admin());
+
+-- Members can cancel their bookings and edit them (which may send them
+-- back to pending), only admins decide on them
+create or replace function public.restrict_member_booking_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Admins and server side jobs may change anything
+  if auth.uid() is null or public.is_admin() then
+    return new;
+  end if;
+
+  -- New requests come without remarks or a cancellation reason, and only
+  -- join a series of their own. The owner's name is set by set_owner_name.
+  if tg_op = 'INSERT' then
+    if new.remarks is not null
+      or new.cancellation_reason is not null
+      or (new.series_id is not null and not exists (
+        select 1 from public.booking_series
+        where id = new.series_id and user_id = new.user_id
+      )) then
+      raise exception 'Only admins can change this booking.'
+        using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  -- Active bookings can be cancelled, edited approved ones go back to pending
+  if new.status is distinct from old.status and not (
+    (old.status in ('pending', 'approved') and new.status = 'cancelled')
+    or (old.status = 'approved' and new.status = 'pending')
+  ) then
+    raise exception 'Only admins can approve, reject or reopen bookings.'
+      using errcode = '42501';
+  end if;
+
+  -- The reason of a cancellation is given with it, the owner's name only
+  -- follows their profile (see propagate_profile_name)
+  if new.remarks is distinct from old.remarks
+    or new.user_id is distinct from old.user_id
+    or new.series_id is distinct from old.series_id
+    or (new.cancellation_reason is distinct from old.cancellation_reason
+      and not (new.status = 'cancelled' and old.status is distinct from 'cancelled'))
+    or (new.user_name is distinct from old.user_name
+      and new.user_name is distinct from (select name from public.profiles where id = new.user_id)) then
+    raise exception 'Only admins can change this booking.'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_restrict_member_changes on public.bookings;
+create trigger bookings_restrict_member_changes
+  before insert or update on public.bookings
+  for each row execute function public.restrict_member_booking_changes();
+
+-- Profiles: members see and edit their own, admins all of them. Profiles
+-- are created by handle_new_user and deleted with the auth user.
+drop policy if exists "Users read their own profile" on public.profiles;
+create policy "Users read their own profile"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users edit their own profile" on public.profiles;
+create policy "Users edit their own profile"
+  on public.profiles for update
+  to authenticated
+  using (id = auth.uid() or public.is_admin())
+  with check (id = auth.uid() or public.is_admin());
+
+create or replace function public.restrict_member_profile_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null or public.is_admin() then
+    return new;
+  end if;
+
+  if new.member_group is distinct from old.member_group
+    or new.suspended_at is distinct from old.suspended_at
+    or new.email is distinct from old.email
+    or new.id is distinct from old.id then
+    raise exception 'Only admins can change this profile.'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_restrict_member_changes on public.profiles;
+create trigger profiles_restrict_member_changes
+  before update on public.profiles
+  for each row execute function public.restrict_member_profile_changes();
+
+-- Audit log: members see the events of their own bookings, admins all of
+-- them. Only log_booking_event writes it.
+drop policy if exists "Users read the events of their own bookings" on public.booking_events;
+create policy "Users read the events of their own bookings"
+  on public.booking_events for select
+  to authenticated
+  using (booking_user_id = auth.uid() or public.is_admin());
+
+revoke all on public.booking_events from anon;
+revoke insert, update, delete on public.booking_events from authenticated;
+
+-- Series: members create their own and remove them again when their
+-- bookings can't be made, admins manage all of them
+drop policy if exists "Users read their own series" on public.booking_series;
+create policy "Users read their own series"
+  on public.booking_series for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users create series for themselves" on public.booking_series;
+create policy "Users create series for themselves"
+  on public.booking_series for insert
+  to authenticated
+  with check (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users delete their own series" on public.booking_series;
+create policy "Users delete their own series"
+  on public.booking_series for delete
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "Admins change series" on public.booking_series;
+create policy "Admins change series"
+  on public.booking_series for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke all on public.booking_series from anon;
+
+-- Studio configuration: read by everyone, changed by admins
+drop policy if exists "Everyone reads resources" on public.resources;
+create policy "Everyone reads resources"
+  on public.resources for select
+  using (true);
+
+drop policy if exists "Admins change resources" on public.resources;
+create policy "Admins change resources"
+  on public.resources for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Everyone reads the opening hours" on public.opening_hours;
+create policy "Everyone reads the opening hours"
+  on public.opening_hours for select
+  using (true);
+
+drop policy if exists "Admins change the opening hours" on public.opening_hours;
+create policy "Admins change the opening hours"
+  on public.opening_hours for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Everyone reads the schedule settings" on public.schedule_settings;
+create policy "Everyone reads the schedule settings"
+  on public.schedule_settings for select
+  using (true);
+
+drop policy if exists "Admins change the schedule settings" on public.schedule_settings;
+create policy "Admins change the schedule settings"
+  on public.schedule_settings for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Everyone reads the studio settings" on public.studio_settings;
+create policy "Everyone reads the studio settings"
+  on public.studio_settings for select
+  using (true);
+
+drop policy if exists "Admins change the studio settings" on public.studio_settings;
+create policy "Admins change the studio settings"
+  on public.studio_settings for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke insert, update, delete on public.resources from anon;
+revoke insert, update, delete on public.opening_hours from anon;
+revoke insert, update, delete on public.schedule_settings from anon;
+revoke insert, update, delete on public.studio_settings from anon;
+
+-- Busy/free time of every resource. The view runs with its owner's rights,
+-- so it sees past the policies above and exposes only the columns needed to
+-- show availability.
+create or replace view public.booking_availability as
+  select
+    id,
+    resource_id,
+    start_time,
+    end_time,
+    status,
+    user_id = auth.uid() as is_own
+  from public.bookings
+  where status in ('pending', 'approved');
+
+revoke all on public.booking_availability from anon;
+grant select on public.booking_availability to authenticated;
@@ -0,0 +1,35 @@
+-- Last change of a booking
+--
+-- Clients keep the bookings they loaded up to date by applying realtime
+-- changes one row at a time. Changes made while a client is disconnected
+-- never reach it, so after reconnecting it fetches the bookings whose
+-- updated_at is at or after the latest one it has seen.
+
+alter table public.bookings
+  add column if not exists updated_at timestamptz;
+
+update public.bookings
+set updated_at = greatest(created_at, cancelled_at)
+where updated_at is null;
+
+alter table public.bookings
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_touch_updated_at on public.bookings;
+create trigger bookings_touch_updated_at
+  before update on public.bookings
+  for each row execute function public.touch_updated_at();
+
+create index if not exists bookings_updated_at_idx
+  on public.bookings (updated_at);
@@ -0,0 +1,107 @@
+-- In-app notifications
+--
+-- Members only heard about decisions on their bookings by email. Each
+-- booking event that a member didn't cause themselves (an approval, a
+-- rejection, a cancellation or an edit by an admin) now also adds a row to
+-- notifications, which the app shows in the navbar and receives over
+-- realtime. Reminders of upcoming sessions are added by the reminder job.
+--
+-- data is a snapshot of the booking at the time of the event, so the app can
+-- describe it without loading the booking: reason, start_time, end_time,
+-- resource_id, the admin's remarks and the changed fields of an edit.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null
+    check (type in ('booking_approved', 'booking_rejected', 'booking_edited', 'booking_cancelled', 'booking_reminder')),
+  booking_id uuid references public.bookings (id) on delete cascade,
+  data jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+-- Users read their own notifications and can only mark them as read. They
+-- are added by the triggers and jobs below, which bypass these policies.
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read their own notifications" on public.notifications;
+create policy "Users read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users mark their own notifications as read" on public.notifications;
+create policy "Users mark their own notifications as read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke insert, update, delete on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+-- Notify the owner of a booking about an event someone else caused
+create or replace function public.notify_booking_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings%rowtype;
+begin
+  if new.event_type not in ('approved', 'rejected', 'cancelled', 'edited')
+    or new.booking_user_id is null
+    or new.actor_id is not distinct from new.booking_user_id then
+    return new;
+  end if;
+
+  -- Deleted bookings have nothing left to show
+  select * into v_booking from public.bookings where id = new.booking_id;
+  if not found then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, booking_id, data)
+  values (
+    new.booking_user_id,
+    'booking_' || new.event_type,
+    new.booking_id,
+    jsonb_build_object(
+      'reason', v_booking.reason,
+      'start_time', v_booking.start_time,
+      'end_time', v_booking.end_time,
+      'resource_id', v_booking.resource_id,
+      'remarks', new.remarks,
+      'changes', new.changes
+    )
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists booking_events_notify on public.booking_events;
+create trigger booking_events_notify
+  after insert on public.booking_events
+  for each row execute function public.notify_booking_event();
+
+-- The app receives new notifications over realtime
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+    ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
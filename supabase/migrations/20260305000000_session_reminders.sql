@@ -0,0 +1,117 @@
+-- Session reminders
+--
+-- Members get reminded of their approved sessions at the offsets set by the
+-- admins, 24 hours and 1 hour before the start by default. The
+-- send-reminders edge function runs every five minutes, claims the
+-- reminders that are due and sends them by email and in the app, unless the
+-- member turned that channel off in their notification preferences.
+--
+-- booking_reminders records each reminder as it is claimed, so runs that
+-- overlap or repeat never send one twice. When several offsets of a booking
+-- are due at once (it was approved late), only the closest one is sent and
+-- the others are recorded as skipped. Moving a booking to another time
+-- clears its reminders.
+
+alter table public.studio_settings
+  add column if not exists reminder_offsets integer[] not null default '{1440, 60}'
+    check (0 < all (reminder_offsets));
+
+-- Members choose the channels of their reminders
+alter table public.profiles
+  alter column notification_preferences
+    set default '{"booking_updates": true, "waitlist_offers": true, "reminder_email": true, "reminder_in_app": true}'::jsonb;
+
+update public.profiles
+set notification_preferences =
+  '{"reminder_email": true, "reminder_in_app": true}'::jsonb || notification_preferences;
+
+create table if not exists public.booking_reminders (
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  offset_minutes integer not null,
+  sent_at timestamptz not null default now(),
+  primary key (booking_id, offset_minutes)
+);
+
+-- Only the reminder job reads and writes it
+alter table public.booking_reminders enable row level security;
+revoke all on public.booking_reminders from anon, authenticated;
+
+-- Claim the reminders that are due and return the ones to send
+create or replace function public.claim_due_reminders()
+returns table (
+  booking_id uuid,
+  offset_minutes integer,
+  user_id uuid,
+  resource_id uuid,
+  start_time timestamptz,
+  end_time timestamptz,
+  reason text
+)
+language sql
+security definer
+set search_path = public
+as $$
+  with due as (
+    select b.id, o.offset_minutes
+    from public.bookings b
+    cross join unnest((select reminder_offsets from public.studio_settings where id)) as o (offset_minutes)
+    where b.status = 'approved'
+      and b.start_time > now()
+      and b.start_time - make_interval(mins => o.offset_minutes) <= now()
+  ),
+  claimed as (
+    insert into public.booking_reminders (booking_id, offset_minutes)
+    select id, offset_minutes from due
+    on conflict do nothing
+    returning booking_reminders.booking_id, booking_reminders.offset_minutes
+  )
+  select distinct on (c.booking_id)
+    c.booking_id, c.offset_minutes, b.user_id, b.resource_id, b.start_time, b.end_time, b.reason
+  from claimed c
+  join public.bookings b on b.id = c.booking_id
+  order by c.booking_id, c.offset_minutes;
+$$;
+
+revoke execute on function public.claim_due_reminders() from public, anon, authenticated;
+
+-- A booking moved to another time is reminded of again
+create or replace function public.reset_booking_reminders()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.booking_reminders where booking_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_reset_reminders on public.bookings;
+create trigger bookings_reset_reminders
+  after update of start_time on public.bookings
+  for each row
+  when (new.start_time is distinct from old.start_time)
+  execute function public.reset_booking_reminders();
+
+-- Run the reminder job every five minutes. The function's URL and the key
+-- to call it with are read from the Vault secrets project_url and
+-- service_role_key, which are set per project.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-reminders',
+  '*/5 * * * *',
+  $$
+    select net.http_post(
+      url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+        || '/functions/v1/send-reminders',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+  $$
+);
@@ -0,0 +1,85 @@
+-- Calendar export
+--
+-- Members can add their approved sessions to Google, Apple or Outlook
+-- calendars: as a download per booking, as an attachment of the approval
+-- email, or by subscribing to a personal iCalendar feed served by the
+-- calendar-feed edge function. Admins also get a feed of every booking,
+-- optionally of a single resource.
+--
+-- Calendar apps match events by UID (the booking's id) and take the one
+-- with the highest SEQUENCE, so ical_sequence counts the changes that alter
+-- how a booking shows up in a calendar. It is only kept by the trigger
+-- below, values sent by clients are ignored.
+--
+-- Feeds are fetched by calendar apps without signing in, so each user has a
+-- secret token in calendar_feeds instead. calendar_feed_token returns it,
+-- creating it on first use, and can replace it when a link was shared by
+-- mistake.
+
+alter table public.bookings
+  add column if not exists ical_sequence integer not null default 0;
+
+create or replace function public.bump_ical_sequence()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.ical_sequence := 0;
+    return new;
+  end if;
+
+  new.ical_sequence := old.ical_sequence;
+  if (new.start_time, new.end_time, new.resource_id, new.status, new.reason)
+    is distinct from (old.start_time, old.end_time, old.resource_id, old.status, old.reason) then
+    new.ical_sequence = old.ical_sequence + 1;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_bump_ical_sequence on public.bookings;
+create trigger bookings_bump_ical_sequence
+  before insert or update on public.bookings
+  for each row execute function public.bump_ical_sequence();
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  token text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at timestamptz not null default now()
+);
+
+-- Read through calendar_feed_token, and by the feed function
+alter table public.calendar_feeds enable row level security;
+revoke all on public.calendar_feeds from anon, authenticated;
+
+-- The signed in user's feed token, a new one when p_regenerate is set
+create or replace function public.calendar_feed_token(p_regenerate boolean default false)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to get a calendar feed.'
+      using errcode = '42501';
+  end if;
+
+  if p_regenerate then
+    delete from public.calendar_feeds where user_id = auth.uid();
+  end if;
+
+  insert into public.calendar_feeds (user_id)
+  values (auth.uid())
+  on conflict (user_id) do nothing;
+
+  select token into v_token from public.calendar_feeds where user_id = auth.uid();
+  return v_token;
+end;
+$$;
+
+revoke execute on function public.calendar_feed_token(boolean) from public, anon;
+grant execute on function public.calendar_feed_token(boolean) to authenticated;
@@ -0,0 +1,182 @@
+-- External calendar imports
+--
+-- The studio is also used for internal events kept in other calendars. Admins
+-- import them per resource, either once from an .ics file or from an ICS URL
+-- that is synced again every hour by the sync-calendars edge function. Their
+-- events become blocked_intervals: read-only busy time that the availability
+-- view lists next to the bookings, with the status 'blocked', and that new
+-- or moved bookings may not overlap.
+--
+-- A sync replaces all intervals of an import at once, through
+-- replace_blocked_intervals, so events removed from the calendar free their
+-- time again. Bookings that already overlap an imported event are kept, the
+-- admins decide what happens to them.
+
+create table if not exists public.calendar_imports (
+  id uuid primary key default gen_random_uuid(),
+  resource_id uuid not null references public.resources (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  -- Null for imports of an .ics file, which are only synced by uploading it again
+  url text check (url ~* '^(https?|webcal)://'),
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.blocked_intervals (
+  id uuid primary key default gen_random_uuid(),
+  import_id uuid not null references public.calendar_imports (id) on delete cascade,
+  -- The UID of the event it comes from, shared by the occurrences of a recurring event
+  uid text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  summary text,
+  check (end_time > start_time)
+);
+
+create index if not exists blocked_intervals_import_id_idx
+  on public.blocked_intervals (import_id);
+create index if not exists blocked_intervals_time_range_idx
+  on public.blocked_intervals using gist (tstzrange(start_time, end_time, '[)'));
+
+-- Imports are managed by admins, their intervals are only written by a sync
+alter table public.calendar_imports enable row level security;
+alter table public.blocked_intervals enable row level security;
+
+drop policy if exists "Admins manage calendar imports" on public.calendar_imports;
+create policy "Admins manage calendar imports"
+  on public.calendar_imports for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Admins read blocked intervals" on public.blocked_intervals;
+create policy "Admins read blocked intervals"
+  on public.blocked_intervals for select
+  to authenticated
+  using (public.is_admin());
+
+revoke all on public.calendar_imports from anon;
+revoke all on public.blocked_intervals from anon;
+revoke insert, update, delete on public.blocked_intervals from authenticated;
+
+-- Replace the intervals of an import with the events of its latest sync,
+-- given as a JSON array of {uid, start_time, end_time, summary}
+create or replace function public.replace_blocked_intervals(p_import_id uuid, p_intervals jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from public.blocked_intervals where import_id = p_import_id;
+
+  insert into public.blocked_intervals (import_id, uid, start_time, end_time, summary)
+  select p_import_id, i.uid, i.start_time, i.end_time, i.summary
+  from jsonb_to_recordset(p_intervals) as i (uid text, start_time timestamptz, end_time timestamptz, summary text)
+  where i.end_time > i.start_time;
+  get diagnostics v_count = row_count;
+
+  update public.calendar_imports
+  set last_synced_at = now(), last_error = null
+  where id = p_import_id;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.replace_blocked_intervals(uuid, jsonb) from public, anon, authenticated;
+
+-- Bookings may not be made or moved onto an imported event
+create or replace function public.enforce_calendar_blocks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_block record;
+  v_timezone text;
+begin
+  if new.status not in ('pending', 'approved') then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and (new.start_time, new.end_time, new.resource_id) is not distinct from (old.start_time, old.end_time, old.resource_id) then
+    return new;
+  end if;
+
+  select b.start_time, b.end_time into v_block
+  from public.blocked_intervals b
+  join public.calendar_imports i on i.id = b.import_id
+  where i.resource_id = new.resource_id
+    and tstzrange(b.start_time, b.end_time, '[)') && tstzrange(new.start_time, new.end_time, '[)')
+  order by b.start_time
+  limit 1;
+
+  if found then
+    select timezone into v_timezone from public.studio_settings where id;
+    raise exception 'This time is blocked by a studio event from % to %.',
+      to_char(v_block.start_time at time zone coalesce(v_timezone, 'UTC'), 'Mon FMDD, FMHH12:MI AM'),
+      to_char(v_block.end_time at time zone coalesce(v_timezone, 'UTC'), 'Mon FMDD, FMHH12:MI AM')
+      using errcode = 'P0001', hint = 'calendar_block';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_enforce_calendar_blocks on public.bookings;
+create trigger bookings_enforce_calendar_blocks
+  before insert or update on public.bookings
+  for each row execute function public.enforce_calendar_blocks();
+
+-- Busy/free time of every resource, now including the imported events.
+-- Their summaries stay private to the admins.
+create or replace view public.booking_availability as
+  select
+    id,
+    resource_id,
+    start_time,
+    end_time,
+    status,
+    user_id = auth.uid() as is_own
+  from public.bookings
+  where status in ('pending', 'approved')
+  union all
+  select
+    b.id,
+    i.resource_id,
+    b.start_time,
+    b.end_time,
+    'blocked' as status,
+    false as is_own
+  from public.blocked_intervals b
+  join public.calendar_imports i on i.id = b.import_id;
+
+revoke all on public.booking_availability from anon;
+grant select on public.booking_availability to authenticated;
+
+-- Sync the URL imports every hour, with the same Vault secrets as the
+-- reminder job
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'sync-calendars',
+  '0 * * * *',
+  $$
+    select net.http_post(
+      url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+        || '/functions/v1/sync-calendars',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+  $$
+);
@@ -0,0 +1,71 @@
+-- Seed data for local development
+--
+-- Loaded by `supabase db reset` after the migrations. Creates an admin and
+-- two members, all with the password "password", and a few bookings around
+-- today so the calendar, the approval queue and the history have something
+-- to show. Resources, opening hours and policies come from the migrations.
+--
+--   admin@example.com  admin
+--   alice@example.com  member of the "band" group
+--   bob@example.com    member
+
+-- handle_new_user gives every user a profile and the 'user' role in
+-- user_roles, the admin is promoted below
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+select
+  '00000000-0000-0000-0000-000000000000', u.id, 'authenticated', 'authenticated',
+  u.email, extensions.crypt('password', extensions.gen_salt('bf')), now(),
+  '{"provider": "email", "providers": ["email"]}', json_build_object('name', u.name),
+  now(), now(), '', '', '', ''
+from (values
+  ('00000000-0000-0000-0000-000000000001'::uuid, 'admin@example.com', 'Studio Admin'),
+  ('00000000-0000-0000-0000-000000000002'::uuid, 'alice@example.com', 'Alice Example'),
+  ('00000000-0000-0000-0000-000000000003'::uuid, 'bob@example.com', 'Bob Example')
+) as u (id, email, name);
+
+-- Email sign-in needs an identity per user
+insert into auth.identities (
+  id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at
+)
+select
+  gen_random_uuid(), id, id::text, 'email',
+  json_build_object('sub', id::text, 'email', email, 'email_verified', true),
+  now(), now(), now()
+from auth.users
+where id in (
+  '00000000-0000-0000-0000-000000000001',
+  '00000000-0000-0000-0000-000000000002',
+  '00000000-0000-0000-0000-000000000003'
+);
+
+-- Roles live in user_roles, profiles has no role column anymore
+update public.user_roles set role = 'admin'
+where user_id = '00000000-0000-0000-0000-000000000001';
+
+update public.profiles set member_group = 'band'
+where id = '00000000-0000-0000-0000-000000000002';
+
+insert into public.booking_quotas (member_group, max_hours_per_week, max_hours_per_month, max_future_bookings, max_pending_requests)
+values ('band', 20, 60, 10, 5);
+
+-- Bookings during opening hours, in the studio's time zone. user_name is
+-- filled in from the profile.
+insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, status, reason, remarks)
+select
+  b.user_id, '',
+  (select id from public.resources order by sort_order offset b.resource limit 1),
+  (current_date + b.day + b.starts_at) at time zone public.studio_timezone(),
+  (current_date + b.day + b.starts_at + b.duration) at time zone public.studio_timezone(),
+  b.status, b.reason, b.remarks
+from (values
+  ('00000000-0000-0000-0000-000000000002'::uuid, 0, -7, time '14:00', interval '3 hours', 'approved', 'Demo recording', 'Great session'),
+  ('00000000-0000-0000-0000-000000000003'::uuid, 1, -2, time '18:00', interval '2 hours', 'rejected', 'Late rehearsal', 'The room is being rewired'),
+  ('00000000-0000-0000-0000-000000000002'::uuid, 1, 1, time '10:00', interval '2 hours', 'approved', 'Band rehearsal', null),
+  ('00000000-0000-0000-0000-000000000003'::uuid, 3, 2, time '11:00', interval '1 hour', 'pending', 'Podcast episode 12', null),
+  ('00000000-0000-0000-0000-000000000002'::uuid, 0, 3, time '12:00', interval '4 hours', 'pending', 'Mixing the demo', null),
+  ('00000000-0000-0000-0000-000000000003'::uuid, 2, 5, time '16:00', interval '2 hours', 'cancelled', 'Guitar practice', null)
+) as b (user_id, resource, day, starts_at, duration, status, reason, remarks);
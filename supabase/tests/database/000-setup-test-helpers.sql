@@ -0,0 +1,50 @@
+-- Helpers shared by the database tests
+--
+-- The test files run in alphabetical order, so this one runs first and
+-- leaves the functions below in the tests schema for the others. They are
+-- created outside of a transaction on purpose, and replaced on every run.
+
+create extension if not exists pgtap with schema extensions;
+
+create schema if not exists tests;
+grant usage on schema tests to anon, authenticated;
+
+-- Sign in as a user for the statements that follow, by switching to the
+-- authenticated role with their JWT claims until the end of the transaction
+create or replace function tests.sign_in(p_user_id uuid)
+returns void
+language sql
+as $$
+  select set_config('role', 'authenticated', true),
+    set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+$$;
+
+-- Act as a client that only has the anon key
+create or replace function tests.sign_in_anonymously()
+returns void
+language sql
+as $$
+  select set_config('role', 'anon', true),
+    set_config('request.jwt.claims', json_build_object('role', 'anon')::text, true);
+$$;
+
+-- Back to the superuser, for fixtures and checks no policy should apply to
+create or replace function tests.sign_out()
+returns void
+language sql
+as $$
+  select set_config('role', 'postgres', true),
+    set_config('request.jwt.claims', '', true);
+$$;
+
+grant execute on all functions in schema tests to anon, authenticated;
+
+begin;
+
+select plan(1);
+
+select ok(true, 'The test helpers are installed');
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,101 @@
+-- Imported calendars
+--
+-- Checks that the events of an imported calendar show up as blocked time in
+-- the availability view, that bookings can't be made over them, and that
+-- only admins can see and manage the imports. Everything is rolled back at
+-- the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+-- Fixtures, created as the superuser so no policy applies
+insert into auth.users (id, email, raw_user_meta_data, aud, role)
+values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', '{"name": "Alice"}', 'authenticated', 'authenticated');
+
+insert into public.calendar_imports (id, resource_id, name, url)
+values (
+  '20000000-0000-0000-0000-00000000000a',
+  (select id from public.resources order by sort_order limit 1),
+  'Staff events',
+  'https://calendar.example.com/staff.ics'
+);
+
+select public.replace_blocked_intervals(
+  '20000000-0000-0000-0000-00000000000a',
+  jsonb_build_array(jsonb_build_object(
+    'uid', 'meeting@example.com',
+    'start_time', date_trunc('hour', now()) + interval '7 days',
+    'end_time', date_trunc('hour', now()) + interval '7 days 2 hours',
+    'summary', 'Staff meeting'
+  ))
+);
+
+create function pg_temp.book(p_starts_in interval, p_hours integer)
+returns void
+language sql
+as $$
+  insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, reason, status)
+  values (
+    '00000000-0000-0000-0000-00000000000a', 'Alice',
+    (select id from public.resources order by sort_order limit 1),
+    date_trunc('hour', now()) + p_starts_in,
+    date_trunc('hour', now()) + p_starts_in + make_interval(hours => p_hours),
+    'Demo', 'pending'
+  );
+$$;
+
+select throws_ok(
+  $$ select pg_temp.book(interval '7 days 1 hour', 2) $$,
+  'P0001',
+  null,
+  'A booking cannot overlap an imported event'
+);
+
+select lives_ok(
+  $$ select pg_temp.book(interval '7 days 2 hours', 1) $$,
+  'A booking can start when an imported event ends'
+);
+
+-- A member
+select tests.sign_in('00000000-0000-0000-0000-00000000000a');
+
+select results_eq(
+  $$ select status, is_own from public.booking_availability where status = 'blocked' $$,
+  $$ values ('blocked', false) $$,
+  'Members see imported events as blocked time'
+);
+
+select is_empty(
+  $$ select id from public.calendar_imports $$,
+  'Members cannot see the imported calendars'
+);
+
+select is_empty(
+  $$ select summary from public.blocked_intervals $$,
+  'Members cannot see what the imported events are'
+);
+
+select throws_ok(
+  $$ insert into public.calendar_imports (resource_id, name) select id, 'Mine' from public.resources limit 1 $$,
+  '42501',
+  null,
+  'Members cannot import calendars'
+);
+
+select tests.sign_out();
+
+-- A new sync replaces the events of the last one
+select public.replace_blocked_intervals('20000000-0000-0000-0000-00000000000a', '[]'::jsonb);
+
+select is_empty(
+  $$ select id from public.blocked_intervals $$,
+  'Events removed from a calendar free their time'
+);
+
+select * from finish();
+
+rollback;
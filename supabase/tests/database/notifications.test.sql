@@ -0,0 +1,90 @@
+-- In-app notifications
+--
+-- Checks that members are notified of what admins do to their bookings but
+-- not of what they do themselves, and that they can only read their own
+-- notifications and mark them as read. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+-- Fixtures, created as the superuser so no policy applies
+insert into auth.users (id, email, raw_user_meta_data, aud, role)
+values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', '{"name": "Alice"}', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', '{"name": "Bob"}', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'admin@example.com', '{"name": "Admin"}', 'authenticated', 'authenticated');
+
+update public.user_roles set role = 'admin'
+where user_id = '00000000-0000-0000-0000-00000000000c';
+
+insert into public.bookings (id, user_id, user_name, resource_id, start_time, end_time, reason, status)
+select
+  b.id, b.user_id, b.user_name,
+  (select id from public.resources order by sort_order limit 1),
+  now() + b.starts_in, now() + b.starts_in + interval '1 hour',
+  b.reason, 'pending'
+from (values
+  ('10000000-0000-0000-0000-00000000000a'::uuid, '00000000-0000-0000-0000-00000000000a'::uuid, 'Alice', interval '7 days', 'Alice''s demo'),
+  ('10000000-0000-0000-0000-00000000000b'::uuid, '00000000-0000-0000-0000-00000000000a'::uuid, 'Alice', interval '8 days', 'Alice''s mixdown')
+) as b (id, user_id, user_name, starts_in, reason);
+
+-- An admin approves one booking, the member cancels the other
+select tests.sign_in('00000000-0000-0000-0000-00000000000c');
+
+update public.bookings set status = 'approved', remarks = 'Enjoy'
+where id = '10000000-0000-0000-0000-00000000000a';
+
+select tests.sign_in('00000000-0000-0000-0000-00000000000a');
+
+update public.bookings set status = 'cancelled'
+where id = '10000000-0000-0000-0000-00000000000b';
+
+select results_eq(
+  $$ select type, booking_id, data ->> 'remarks' from public.notifications $$,
+  $$ values ('booking_approved', '10000000-0000-0000-0000-00000000000a'::uuid, 'Enjoy') $$,
+  'A member is notified of an admin''s decision, with its remarks'
+);
+
+select is_empty(
+  $$ select id from public.notifications where booking_id = '10000000-0000-0000-0000-00000000000b' $$,
+  'A member is not notified of their own changes'
+);
+
+select lives_ok(
+  $$ update public.notifications set read_at = now() $$,
+  'A member can mark their notifications as read'
+);
+
+select is_empty(
+  $$ select id from public.notifications where read_at is null $$,
+  'Marked notifications are read'
+);
+
+select throws_ok(
+  $$ update public.notifications set type = 'booking_rejected' $$,
+  '42501',
+  null,
+  'A member cannot change what a notification says'
+);
+
+select throws_ok(
+  $$ insert into public.notifications (user_id, type) values ('00000000-0000-0000-0000-00000000000a', 'booking_approved') $$,
+  '42501',
+  null,
+  'A member cannot add notifications'
+);
+
+-- Another member
+select tests.sign_in('00000000-0000-0000-0000-00000000000b');
+
+select is_empty(
+  $$ select id from public.notifications $$,
+  'A member cannot read other members'' notifications'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,430 @@
+-- Row level security of every table
+--
+-- Signs in as a member, an admin and a client with only the anon key (see
+-- the helpers in 000-setup-test-helpers.sql), and checks what each of them
+-- can read and change.
+-- Only the fixtures' rows are checked, so seed data doesn't matter, and
+-- everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(54);
+
+-- Fixtures, created as the superuser so no policy applies
+insert into auth.users (id, email, raw_user_meta_data, aud, role)
+values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', '{"name": "Alice"}', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', '{"name": "Bob"}', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'admin@example.com', '{"name": "Admin"}', 'authenticated', 'authenticated');
+
+update public.user_roles set role = 'admin'
+where user_id = '00000000-0000-0000-0000-00000000000c';
+
+insert into public.bookings (id, user_id, user_name, resource_id, start_time, end_time, reason, status)
+select
+  b.id, b.user_id, b.user_name,
+  (select id from public.resources order by sort_order limit 1),
+  now() + b.starts_in, now() + b.starts_in + interval '1 hour',
+  b.reason, 'pending'
+from (values
+  ('10000000-0000-0000-0000-00000000000a'::uuid, '00000000-0000-0000-0000-00000000000a'::uuid, 'Alice', interval '7 days', 'Alice''s demo'),
+  ('10000000-0000-0000-0000-00000000000b'::uuid, '00000000-0000-0000-0000-00000000000b'::uuid, 'Bob', interval '8 days', 'Bob''s secret project')
+) as b (id, user_id, user_name, starts_in, reason);
+
+insert into public.waitlist_entries (id, user_id, user_name, resource_id, start_time, end_time, reason)
+select
+  w.id, w.user_id, w.user_name,
+  (select id from public.resources order by sort_order limit 1),
+  now() + interval '8 days', now() + interval '8 days 1 hour',
+  'Waiting'
+from (values
+  ('30000000-0000-0000-0000-00000000000a'::uuid, '00000000-0000-0000-0000-00000000000a'::uuid, 'Alice'),
+  ('30000000-0000-0000-0000-00000000000b'::uuid, '00000000-0000-0000-0000-00000000000b'::uuid, 'Bob')
+) as w (id, user_id, user_name);
+
+insert into public.quota_overrides (user_id, max_hours_per_week)
+values ('00000000-0000-0000-0000-00000000000a', 100);
+
+insert into public.booking_series (id, user_id, user_name, resource_id, reason, frequency, count, start_time, end_time)
+select
+  '40000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 'Bob', id,
+  'Bob''s weekly rehearsal', 'weekly', 4, now() + interval '9 days', now() + interval '9 days 1 hour'
+from public.resources order by sort_order limit 1;
+
+-- A member
+select tests.sign_in('00000000-0000-0000-0000-00000000000a');
+
+select results_eq(
+  $$ select id from public.bookings $$,
+  $$ values ('10000000-0000-0000-0000-00000000000a'::uuid) $$,
+  'A member only reads their own bookings'
+);
+
+select is_empty(
+  $$ select reason from public.bookings where user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  'A member cannot read the reasons of other members'' bookings'
+);
+
+select results_eq(
+  $$ select id, is_own from public.booking_availability
+     where id in ('10000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000b')
+     order by start_time $$,
+  $$ values
+    ('10000000-0000-0000-0000-00000000000a'::uuid, true),
+    ('10000000-0000-0000-0000-00000000000b'::uuid, false) $$,
+  'A member sees when every booking takes place'
+);
+
+select throws_ok(
+  $$ select user_id, reason from public.booking_availability $$,
+  '42703',
+  null,
+  'The availability view does not say who booked or why'
+);
+
+select throws_ok(
+  $$ update public.bookings set status = 'approved' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can approve, reject or reopen bookings.',
+  'A member cannot approve their own booking'
+);
+
+select throws_ok(
+  $$ update public.bookings set remarks = 'Looks good' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can change this booking.',
+  'A member cannot write admin remarks'
+);
+
+select is_empty(
+  $$ update public.bookings set status = 'approved' where id = '10000000-0000-0000-0000-00000000000b' returning id $$,
+  'A member cannot approve another member''s booking'
+);
+
+select is_empty(
+  $$ update public.bookings set reason = 'Hijacked' where id = '10000000-0000-0000-0000-00000000000b' returning id $$,
+  'A member cannot edit another member''s booking'
+);
+
+select results_eq(
+  $$ update public.bookings set reschedule_count = 5, cancelled_by = '00000000-0000-0000-0000-00000000000b'
+     where id = '10000000-0000-0000-0000-00000000000a' returning reschedule_count, cancelled_by $$,
+  $$ values (0, null::uuid) $$,
+  'A member cannot change how often a booking was rescheduled or who cancelled it'
+);
+
+select throws_ok(
+  $$ update public.bookings set user_name = 'Mallory' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can change this booking.',
+  'A member cannot book under another name'
+);
+
+select throws_ok(
+  $$ update public.bookings set series_id = '40000000-0000-0000-0000-00000000000b' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can change this booking.',
+  'A member cannot move a booking into another series'
+);
+
+select throws_ok(
+  $$ update public.bookings set cancellation_reason = 'Cancelled by the studio' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can change this booking.',
+  'A member cannot give a cancellation reason without cancelling'
+);
+
+select results_eq(
+  $$ update public.bookings set ical_sequence = 99 where id = '10000000-0000-0000-0000-00000000000a' returning ical_sequence $$,
+  $$ values (0) $$,
+  'A member cannot change the calendar sequence of a booking'
+);
+
+select throws_ok(
+  $$ insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, reason, remarks)
+     select '00000000-0000-0000-0000-00000000000a', 'Alice', id, now() + interval '11 days', now() + interval '11 days 1 hour', 'Pre-approved', 'Approved by the studio'
+     from public.resources order by sort_order limit 1 $$,
+  '42501',
+  'Only admins can change this booking.',
+  'A member cannot request a booking with admin remarks'
+);
+
+select is_empty(
+  $$ update public.booking_policies set max_reschedules = null returning id $$,
+  'A member cannot change the booking policy'
+);
+
+select throws_ok(
+  $$ insert into public.booking_policies (id) values (true) on conflict (id) do update set cancel_cutoff_hours = 0 $$,
+  '42501',
+  null,
+  'A member cannot replace the booking policy'
+);
+
+select results_eq(
+  $$ select id from public.waitlist_entries $$,
+  $$ values ('30000000-0000-0000-0000-00000000000a'::uuid) $$,
+  'A member only reads their own waitlist entries'
+);
+
+select throws_ok(
+  $$ insert into public.waitlist_entries (user_id, user_name, resource_id, start_time, end_time, reason, status, offer_expires_at)
+     select '00000000-0000-0000-0000-00000000000a', 'Alice', id, now() + interval '8 days', now() + interval '8 days 1 hour', 'Mine now', 'offered', now() + interval '7 days'
+     from public.resources order by sort_order limit 1 $$,
+  '42501',
+  null,
+  'A member cannot join the waitlist with an offer'
+);
+
+select throws_ok(
+  $$ update public.waitlist_entries set status = 'offered' where id = '30000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  null,
+  'A member cannot offer a range to themselves'
+);
+
+select throws_ok(
+  $$ update public.waitlist_entries set offer_expires_at = now() + interval '7 days' where id = '30000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  null,
+  'A member cannot extend an offer'
+);
+
+select throws_ok(
+  $$ select public.process_waitlist(resource_id) from public.waitlist_entries $$,
+  '42501',
+  null,
+  'A member cannot make waitlist offers'
+);
+
+select throws_ok(
+  $$ select public.expire_waitlist_offers() $$,
+  '42501',
+  null,
+  'A member cannot expire waitlist offers'
+);
+
+select is_empty(
+  $$ select id from public.booking_quotas $$,
+  'A member cannot read the quotas'
+);
+
+select throws_ok(
+  $$ insert into public.quota_overrides (user_id, max_hours_per_week) values ('00000000-0000-0000-0000-00000000000a', 100) $$,
+  '42501',
+  null,
+  'A member cannot raise their own quota'
+);
+
+select is_empty(
+  $$ delete from public.booking_quotas returning id $$,
+  'A member cannot remove the quotas'
+);
+
+select throws_ok(
+  $$ select * from public.booking_quota_for('00000000-0000-0000-0000-00000000000b') $$,
+  '42501',
+  null,
+  'A member cannot read another member''s quota'
+);
+
+select throws_ok(
+  $$ select public.booked_hours('00000000-0000-0000-0000-00000000000b', now(), now() + interval '1 month') $$,
+  '42501',
+  null,
+  'A member cannot read another member''s booked hours'
+);
+
+select is_empty(
+  $$ select id from public.booking_events where booking_user_id is distinct from '00000000-0000-0000-0000-00000000000a' $$,
+  'A member only reads the history of their own bookings'
+);
+
+select throws_ok(
+  $$ insert into public.booking_events (booking_id, event_type) values ('10000000-0000-0000-0000-00000000000b', 'approved') $$,
+  '42501',
+  null,
+  'A member cannot write to the audit log'
+);
+
+select is_empty(
+  $$ select id from public.booking_series where user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  'A member cannot read other members'' series'
+);
+
+select throws_ok(
+  $$ insert into public.booking_series (user_id, user_name, resource_id, reason, frequency, count, start_time, end_time)
+     select '00000000-0000-0000-0000-00000000000b', 'Bob', id, 'Not mine', 'weekly', 2, now() + interval '9 days', now() + interval '9 days 1 hour'
+     from public.resources order by sort_order limit 1 $$,
+  '42501',
+  null,
+  'A member cannot create a series in another member''s name'
+);
+
+select isnt_empty(
+  $$ select id from public.resources $$,
+  'A member reads the resources'
+);
+
+select is_empty(
+  $$ update public.resources set is_active = false returning id $$,
+  'A member cannot change the resources'
+);
+
+select is_empty(
+  $$ update public.opening_hours set is_open = false returning weekday $$,
+  'A member cannot change the opening hours'
+);
+
+select throws_ok(
+  $$ insert into public.schedule_settings (slot_minutes) values (60) $$,
+  '42501',
+  null,
+  'A member cannot change the schedule settings'
+);
+
+select is_empty(
+  $$ update public.studio_settings set timezone = 'Europe/Berlin' returning id $$,
+  'A member cannot change the studio settings'
+);
+
+select is_empty(
+  $$ delete from public.bookings where id = '10000000-0000-0000-0000-00000000000b' returning id $$,
+  'A member cannot delete another member''s booking'
+);
+
+select throws_ok(
+  $$ insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, reason)
+     select '00000000-0000-0000-0000-00000000000b', 'Bob', id, now() + interval '9 days', now() + interval '9 days 1 hour', 'Not mine'
+     from public.resources order by sort_order limit 1 $$,
+  '42501',
+  null,
+  'A member cannot book in another member''s name'
+);
+
+select lives_ok(
+  $$ update public.bookings set status = 'cancelled' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  'A member can cancel their own booking'
+);
+
+select throws_ok(
+  $$ update public.bookings set status = 'pending' where id = '10000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can approve, reject or reopen bookings.',
+  'A member cannot reopen a cancelled booking'
+);
+
+select results_eq(
+  $$ select id from public.profiles $$,
+  $$ values ('00000000-0000-0000-0000-00000000000a'::uuid) $$,
+  'A member only reads their own profile'
+);
+
+select throws_ok(
+  $$ update public.profiles set member_group = 'vip' where id = '00000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  'Only admins can change this profile.',
+  'A member cannot move themselves to another group'
+);
+
+select results_eq(
+  $$ select user_id, role from public.user_roles $$,
+  $$ values ('00000000-0000-0000-0000-00000000000a'::uuid, 'user') $$,
+  'A member only reads their own role'
+);
+
+select is_empty(
+  $$ update public.user_roles set role = 'admin' where user_id = '00000000-0000-0000-0000-00000000000a' returning id $$,
+  'A member cannot make themselves an admin'
+);
+
+select throws_ok(
+  $$ insert into public.user_roles (user_id, role) values ('00000000-0000-0000-0000-00000000000a', 'admin') $$,
+  '42501',
+  null,
+  'A member cannot add an admin role for themselves'
+);
+
+-- The other member's booking is untouched
+select tests.sign_out();
+
+select results_eq(
+  $$ select status, reason from public.bookings where id = '10000000-0000-0000-0000-00000000000b' $$,
+  $$ values ('pending', 'Bob''s secret project') $$,
+  'Other members'' bookings are unchanged'
+);
+
+select results_eq(
+  $$ select source from public.booking_quota_for('00000000-0000-0000-0000-00000000000a') $$,
+  $$ values ('override') $$,
+  'A quota override wins over the quota of the role'
+);
+
+-- An admin
+select tests.sign_in('00000000-0000-0000-0000-00000000000c');
+
+select bag_has(
+  $$ select id from public.bookings $$,
+  $$ values
+    ('10000000-0000-0000-0000-00000000000a'::uuid),
+    ('10000000-0000-0000-0000-00000000000b'::uuid) $$,
+  'An admin reads every booking'
+);
+
+select bag_has(
+  $$ select id from public.profiles $$,
+  $$ values
+    ('00000000-0000-0000-0000-00000000000a'::uuid),
+    ('00000000-0000-0000-0000-00000000000b'::uuid),
+    ('00000000-0000-0000-0000-00000000000c'::uuid) $$,
+  'An admin reads every profile'
+);
+
+select lives_ok(
+  $$ update public.bookings set status = 'approved', remarks = 'Enjoy' where id = '10000000-0000-0000-0000-00000000000b' $$,
+  'An admin can approve bookings'
+);
+
+-- Suspended users
+select tests.sign_out();
+
+update public.profiles set suspended_at = now()
+where id in ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000c');
+
+select tests.sign_in('00000000-0000-0000-0000-00000000000c');
+
+select ok(not public.is_admin(), 'A suspended admin loses their admin rights');
+
+select tests.sign_in('00000000-0000-0000-0000-00000000000a');
+
+select throws_ok(
+  $$ insert into public.bookings (user_id, user_name, resource_id, start_time, end_time, reason)
+     select '00000000-0000-0000-0000-00000000000a', 'Alice', id, now() + interval '10 days', now() + interval '10 days 1 hour', 'Still booking'
+     from public.resources order by sort_order limit 1 $$,
+  'P0001',
+  'Your account has been suspended. Please contact the studio.',
+  'A suspended member cannot book'
+);
+
+-- A client with only the anon key
+select tests.sign_in_anonymously();
+
+select throws_ok(
+  $$ select id from public.booking_events $$,
+  '42501',
+  null,
+  'The anon key cannot read the audit log'
+);
+
+select throws_ok(
+  $$ insert into public.resources (name) values ('Pirate radio') $$,
+  '42501',
+  null,
+  'The anon key cannot add resources'
+);
+
+select * from finish();
+
+rollback;